@@ -1,20 +1,18 @@
 "use client";
 
+import Link from "next/link";
+import { track } from "@/lib/tracker";
+
 export default function LandingCTA() {
   return (
-    <a
+    <Link
       href="/app"
       onClick={() => {
-        fetch("/api/track", {
-          method: "POST",
-          body: JSON.stringify({
-            event_name: "landing_cta_click",
-          }),
-        });
+        track("landing_cta_click");
       }}
       className="inline-block mt-10 rounded-xl bg-slate-900 px-8 py-3 text-white font-semibold hover:bg-slate-800"
     >
       Get My Personal Reset →
-    </a>
+    </Link>
   );
 }
\ No newline at end of file
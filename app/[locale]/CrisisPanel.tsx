@@ -0,0 +1,78 @@
+"use client";
+
+import { Heart, MessageCircle, Phone, Globe } from "lucide-react";
+import { format } from "@/lib/i18n/format";
+import type { CrisisResources } from "@/lib/safety/resources";
+import { useI18n } from "./I18nProvider";
+
+export default function CrisisPanel({ resources }: { resources: CrisisResources }) {
+  const { t } = useI18n();
+  // The number is a link, so the sentence is split around it.
+  const [beforeNumber, afterNumber] = t.crisis.emergency.split("{number}");
+
+  return (
+    <div className="space-y-5 text-[17px] leading-[1.9] text-[#1E2A38]">
+      <p>{t.crisis.heavy}</p>
+
+      <p>{t.crisis.notAlone}</p>
+
+      <ul className="space-y-3">
+        {resources.contacts.map((contact) => (
+          <li
+            key={contact.name}
+            className="rounded-2xl border border-[#E5ECE4] bg-white px-5 py-4"
+          >
+            <div className="font-semibold text-[#4F7A58]">{contact.name}</div>
+            <div className="text-sm text-[#5F6B76]">{contact.description}</div>
+
+            <div className="mt-2 flex flex-wrap gap-4 text-base">
+              {contact.phone ? (
+                <a
+                  href={`tel:${contact.phone.replace(/\s/g, "")}`}
+                  className="inline-flex items-center gap-2 font-medium text-[#1E2A38] underline-offset-4 hover:underline"
+                >
+                  <Phone className="h-4 w-4 text-[#5D8A67]" strokeWidth={2} />
+                  {contact.phone}
+                </a>
+              ) : null}
+              {contact.sms ? (
+                <a
+                  href={`sms:${contact.sms.replace(/\s/g, "")}`}
+                  className="inline-flex items-center gap-2 font-medium text-[#1E2A38] underline-offset-4 hover:underline"
+                >
+                  <MessageCircle className="h-4 w-4 text-[#5D8A67]" strokeWidth={2} />
+                  {format(t.crisis.text, { number: contact.sms })}
+                </a>
+              ) : null}
+              {contact.url ? (
+                <a
+                  href={contact.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-2 font-medium text-[#1E2A38] underline-offset-4 hover:underline"
+                >
+                  <Globe className="h-4 w-4 text-[#5D8A67]" strokeWidth={2} />
+                  {t.crisis.website}
+                </a>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-start gap-3 rounded-2xl bg-red-50 px-5 py-4 text-base text-red-800">
+        <Heart className="mt-1 h-5 w-5 shrink-0" strokeWidth={1.8} />
+        <span>
+          {beforeNumber}
+          <a
+            href={`tel:${resources.emergencyNumber}`}
+            className="font-semibold underline"
+          >
+            {resources.emergencyNumber}
+          </a>
+          {afterNumber}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import {
+  FEEDBACK_TAGS,
+  type FeedbackRating,
+  type FeedbackTag,
+} from "@/lib/feedback/tags";
+import { useI18n } from "./I18nProvider";
+
+async function sendFeedback(resetId: string, rating: FeedbackRating, tags: FeedbackTag[]) {
+  try {
+    await fetch("/api/feedback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ resetId, rating, tags }),
+    });
+  } catch {
+    // Feedback is a nice-to-have; never interrupt the reset for it.
+  }
+}
+
+// A reset moves from the live view into the thread on follow-up, which remounts
+// this component, so given feedback is remembered for the page's lifetime.
+const given = new Map<string, { rating: FeedbackRating; tags: FeedbackTag[] }>();
+
+export default function FeedbackBar({ resetId }: { resetId: string }) {
+  const { t } = useI18n();
+  const [rating, setRating] = useState<FeedbackRating | null>(
+    () => given.get(resetId)?.rating ?? null
+  );
+  const [tags, setTags] = useState<FeedbackTag[]>(() => given.get(resetId)?.tags ?? []);
+
+  function submit(nextRating: FeedbackRating, nextTags: FeedbackTag[]) {
+    setRating(nextRating);
+    setTags(nextTags);
+    given.set(resetId, { rating: nextRating, tags: nextTags });
+    sendFeedback(resetId, nextRating, nextTags);
+  }
+
+  function toggleTag(tag: FeedbackTag) {
+    if (!rating) return;
+    submit(rating, tags.includes(tag) ? tags.filter((selected) => selected !== tag) : [...tags, tag]);
+  }
+
+  const thumbClass = (active: boolean) =>
+    `inline-flex h-9 w-9 items-center justify-center rounded-full border transition ${
+      active
+        ? "border-[#5D8A67] bg-[#EEF4EE] text-[#4F7A58]"
+        : "border-[#E5ECE4] bg-white text-[#8A9690] hover:text-[#1E2A38]"
+    }`;
+
+  return (
+    <div className="space-y-3 text-sm text-[#5F6B76]">
+      <div className="flex items-center gap-3">
+        <span>{rating ? t.feedback.thanks : t.feedback.question}</span>
+        <button
+          type="button"
+          onClick={() => submit("helpful", tags)}
+          className={thumbClass(rating === "helpful")}
+          aria-label={t.feedback.helpful}
+          aria-pressed={rating === "helpful"}
+        >
+          <ThumbsUp className="h-4 w-4" strokeWidth={1.8} />
+        </button>
+        <button
+          type="button"
+          onClick={() => submit("not_helpful", tags)}
+          className={thumbClass(rating === "not_helpful")}
+          aria-label={t.feedback.notHelpful}
+          aria-pressed={rating === "not_helpful"}
+        >
+          <ThumbsDown className="h-4 w-4" strokeWidth={1.8} />
+        </button>
+      </div>
+
+      {rating ? (
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(FEEDBACK_TAGS) as FeedbackTag[]).map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              aria-pressed={tags.includes(tag)}
+              className={`rounded-full border px-3 py-1 transition ${
+                tags.includes(tag)
+                  ? "border-[#5D8A67] bg-[#EEF4EE] text-[#4F7A58]"
+                  : "border-[#E5ECE4] bg-white hover:text-[#1E2A38]"
+              }`}
+            >
+              {t.feedback.tags[tag]}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
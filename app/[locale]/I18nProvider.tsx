@@ -0,0 +1,28 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import type { Locale, Messages } from "@/lib/i18n";
+
+type I18n = { locale: Locale; t: Messages };
+
+const I18nContext = createContext<I18n | null>(null);
+
+// The layout loads one catalogue on the server and hands it down, so the
+// client bundle never carries the other languages.
+export default function I18nProvider({
+  locale,
+  messages,
+  children,
+}: {
+  locale: Locale;
+  messages: Messages;
+  children: React.ReactNode;
+}) {
+  return <I18nContext.Provider value={{ locale, t: messages }}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error("useI18n must be used inside I18nProvider");
+  return value;
+}
@@ -0,0 +1,435 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BookOpen, Download, Lock, Search, Trash2, Upload, X } from "lucide-react";
+import {
+  createJournal,
+  deleteJournal,
+  hasJournal,
+  JOURNAL_SYNC_ENABLED,
+  JournalImportError,
+  MIN_PASSPHRASE_LENGTH,
+  restoreJournal,
+  searchEntries,
+  unlockJournal,
+  type Journal,
+  type JournalEntry,
+} from "@/lib/journal";
+import type { Locale } from "@/lib/i18n/config";
+import { format, plural } from "@/lib/i18n/format";
+import { useI18n } from "./I18nProvider";
+
+type Mode = "loading" | "setup" | "locked" | "restore" | "open";
+
+const inputClass =
+  "w-full rounded-[14px] border border-[#E5ECE4] bg-white px-4 py-2.5 text-base text-[#1E2A38] outline-none placeholder:text-[#A0AAA4] focus:border-[#C9D9CC]";
+const primaryButton =
+  "rounded-[14px] bg-[#1E2A38] px-5 py-2.5 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50";
+const quietButton =
+  "inline-flex items-center gap-2 text-sm text-[#5F6B76] transition hover:text-[#1E2A38]";
+
+function formatDate(iso: string, locale: Locale) {
+  return new Date(iso).toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function EntryView({ entry, onDelete }: { entry: JournalEntry; onDelete: () => void }) {
+  const { locale, t } = useI18n();
+  const first = entry.turns[0];
+
+  return (
+    <details className="group rounded-2xl border border-[#E5ECE4] bg-white px-5 py-4">
+      <summary className="cursor-pointer list-none">
+        <div className="flex items-center justify-between gap-3 text-xs text-[#8A9690]">
+          <span>{formatDate(entry.createdAt, locale)}</span>
+          {first?.pattern ? (
+            <span className="rounded-full bg-[#EEF4EE] px-3 py-1 text-[#4F7A58]">
+              {t.patterns[first.pattern]}
+            </span>
+          ) : null}
+        </div>
+        <p className="mt-2 line-clamp-2 text-base text-[#1E2A38]">{first?.input}</p>
+      </summary>
+
+      <div className="mt-4 space-y-5 border-t border-[#E5ECE4] pt-4">
+        {entry.turns.map((turn, index) => (
+          <div key={index} className="space-y-3 text-[15px] leading-relaxed text-[#1E2A38]">
+            {index > 0 ? (
+              <p className="rounded-2xl bg-[#EEF4EE] px-4 py-2">{turn.input}</p>
+            ) : null}
+            {turn.text.split("\n\n").map((paragraph, i) => (
+              <p key={i}>{paragraph}</p>
+            ))}
+            {turn.nextAction ? (
+              <p className="text-[#4F7A58]">
+                <span className="font-semibold">{t.reset.nextStep} </span>
+                {turn.nextAction}
+              </p>
+            ) : null}
+          </div>
+        ))}
+
+        <button type="button" onClick={onDelete} className={quietButton}>
+          <Trash2 className="h-4 w-4" strokeWidth={1.8} />
+          {t.journal.deleteEntry}
+        </button>
+      </div>
+    </details>
+  );
+}
+
+export default function JournalPanel({
+  journal,
+  refreshKey,
+  onJournalChange,
+  onClose,
+}: {
+  journal: Journal | null;
+  refreshKey: number;
+  onJournalChange: (journal: Journal | null) => void;
+  onClose: () => void;
+}) {
+  const { locale, t } = useI18n();
+  const [mode, setMode] = useState<Mode>("loading");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [syncCode, setSyncCode] = useState("");
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState("");
+  const [noticeMsg, setNoticeMsg] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => searchEntries(entries, query), [entries, query]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      if (!journal) {
+        const exists = await hasJournal();
+        if (!cancelled) setMode(exists ? "locked" : "setup");
+        return;
+      }
+
+      const list = await journal.list();
+      if (!cancelled) {
+        setEntries(list);
+        setMode("open");
+      }
+    }
+
+    load().catch(() => {
+      if (!cancelled) setErrorMsg(t.journal.storageBlocked);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, refreshKey, t]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setErrorMsg("");
+    setNoticeMsg("");
+    try {
+      await action();
+    } catch (e) {
+      setErrorMsg(e instanceof Error ? e.message : t.journal.genericError);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function opened(next: Journal) {
+    setPassphrase("");
+    setConfirmation("");
+    setSyncCode("");
+    onJournalChange(next);
+    if (next.syncId) next.syncNow().then(() => next.list()).then(setEntries, () => {});
+  }
+
+  function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setErrorMsg(format(t.journal.passphraseTooShort, { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setErrorMsg(t.journal.passphraseMismatch);
+      return;
+    }
+    run(async () => opened(await createJournal(passphrase)));
+  }
+
+  function onUnlock(e: React.FormEvent) {
+    e.preventDefault();
+    run(async () => {
+      const unlocked = await unlockJournal(passphrase);
+      if (!unlocked) throw new Error(t.journal.wrongPassphrase);
+      opened(unlocked);
+    });
+  }
+
+  function onRestore(e: React.FormEvent) {
+    e.preventDefault();
+    run(async () => {
+      const restored = await restoreJournal(syncCode.trim().toLowerCase(), passphrase);
+      if (!restored) throw new Error(t.journal.restoreFailed);
+      opened(restored);
+    });
+  }
+
+  function onForget() {
+    if (!window.confirm(t.journal.confirmDelete)) return;
+    run(async () => {
+      await deleteJournal();
+      onJournalChange(null);
+      setEntries([]);
+      setMode("setup");
+    });
+  }
+
+  function onExport() {
+    if (!journal) return;
+    run(async () => {
+      const blob = new Blob([await journal.exportFile()], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `mindeazy-journal-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }
+
+  function onImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!journal || !file) return;
+
+    run(async () => {
+      const count = await journal.importFile(await file.text()).catch((e) => {
+        throw e instanceof JournalImportError ? new Error(t.journal.importFailed[e.reason]) : e;
+      });
+      setEntries(await journal.list());
+      setNoticeMsg(plural(locale, t.journal.imported, count));
+    });
+  }
+
+  function onDelete(id: string) {
+    if (!journal) return;
+    run(async () => {
+      await journal.remove(id);
+      setEntries((current) => current.filter((entry) => entry.id !== id));
+    });
+  }
+
+  function onToggleSync() {
+    if (!journal) return;
+    run(async () => {
+      if (journal.syncId) {
+        await journal.disableSync();
+        setNoticeMsg(t.journal.syncOff);
+      } else {
+        await journal.enableSync();
+      }
+    });
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-[#1E2A38]/30" onClick={onClose}>
+      <aside
+        className="flex h-full w-full max-w-[520px] flex-col overflow-y-auto bg-[#FAFCF8] p-6 shadow-[0_10px_40px_rgba(30,42,56,0.15)] md:p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3 text-xl font-bold text-[#1E2A38]">
+            <BookOpen className="h-5 w-5 text-[#5D8A67]" strokeWidth={1.8} />
+            {t.journal.title}
+          </div>
+          <button type="button" onClick={onClose} className={quietButton} aria-label={t.journal.close}>
+            <X className="h-5 w-5" strokeWidth={1.8} />
+          </button>
+        </div>
+
+        <p className="mt-3 text-sm leading-relaxed text-[#5F6B76]">
+          {t.journal.intro}
+        </p>
+
+        {errorMsg ? (
+          <div className="mt-5 rounded-2xl bg-red-50 p-4 text-sm text-red-700">{errorMsg}</div>
+        ) : null}
+
+        {noticeMsg ? (
+          <div className="mt-5 rounded-2xl bg-[#F1F5EF] p-4 text-sm text-[#4F7A58]">{noticeMsg}</div>
+        ) : null}
+
+        {mode === "setup" ? (
+          <form onSubmit={onCreate} className="mt-6 space-y-3">
+            <p className="text-base text-[#1E2A38]">
+              {t.journal.setupIntro}
+            </p>
+            <input
+              type="password"
+              className={inputClass}
+              placeholder={t.journal.passphrase}
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <input
+              type="password"
+              className={inputClass}
+              placeholder={t.journal.passphraseAgain}
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+            <div className="flex items-center justify-between pt-2">
+              <button type="submit" disabled={busy} className={primaryButton}>
+                {t.journal.start}
+              </button>
+              {JOURNAL_SYNC_ENABLED ? (
+                <button type="button" onClick={() => setMode("restore")} className={quietButton}>
+                  {t.journal.haveSyncCode}
+                </button>
+              ) : null}
+            </div>
+          </form>
+        ) : null}
+
+        {mode === "locked" ? (
+          <form onSubmit={onUnlock} className="mt-6 space-y-3">
+            <input
+              type="password"
+              className={inputClass}
+              placeholder={t.journal.passphrase}
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <div className="flex items-center justify-between pt-2">
+              <button type="submit" disabled={busy || !passphrase} className={primaryButton}>
+                {t.journal.unlock}
+              </button>
+              <button type="button" onClick={onForget} className={quietButton}>
+                {t.journal.forgot}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        {mode === "restore" ? (
+          <form onSubmit={onRestore} className="mt-6 space-y-3">
+            <input
+              className={inputClass}
+              placeholder={t.journal.syncCode}
+              value={syncCode}
+              onChange={(e) => setSyncCode(e.target.value)}
+            />
+            <input
+              type="password"
+              className={inputClass}
+              placeholder={t.journal.passphrase}
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <div className="flex items-center justify-between pt-2">
+              <button type="submit" disabled={busy} className={primaryButton}>
+                {t.journal.restore}
+              </button>
+              <button type="button" onClick={() => setMode("setup")} className={quietButton}>
+                {t.journal.back}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        {mode === "open" && journal ? (
+          <>
+            <div className="mt-6 flex items-center gap-3 rounded-[14px] border border-[#E5ECE4] bg-white px-4 py-2.5">
+              <Search className="h-4 w-4 text-[#8A9690]" strokeWidth={1.8} />
+              <input
+                className="w-full bg-transparent text-base text-[#1E2A38] outline-none placeholder:text-[#A0AAA4]"
+                placeholder={t.journal.search}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+
+            <div className="mt-5 flex-1 space-y-3">
+              {visible.length === 0 ? (
+                <p className="text-sm text-[#8A9690]">
+                  {entries.length === 0
+                    ? t.journal.empty
+                    : t.journal.noMatches}
+                </p>
+              ) : (
+                visible.map((entry) => (
+                  <EntryView key={entry.id} entry={entry} onDelete={() => onDelete(entry.id)} />
+                ))
+              )}
+            </div>
+
+            <div className="mt-6 space-y-4 border-t border-[#E5ECE4] pt-5">
+              <div className="flex flex-wrap gap-5">
+                <button type="button" onClick={onExport} disabled={busy} className={quietButton}>
+                  <Download className="h-4 w-4" strokeWidth={1.8} />
+                  {t.journal.export}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => fileRef.current?.click()}
+                  disabled={busy}
+                  className={quietButton}
+                >
+                  <Upload className="h-4 w-4" strokeWidth={1.8} />
+                  {t.journal.import}
+                </button>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={onImport}
+                />
+                <button type="button" onClick={() => onJournalChange(null)} className={quietButton}>
+                  <Lock className="h-4 w-4" strokeWidth={1.8} />
+                  {t.journal.lock}
+                </button>
+              </div>
+
+              {JOURNAL_SYNC_ENABLED ? (
+                <div className="rounded-2xl bg-[#F1F5EF] p-4 text-sm leading-relaxed text-[#4F7A58]">
+                  {journal.syncId ? (
+                    <>
+                      {t.journal.syncOn}
+                      <code className="mt-2 block break-all font-mono text-[#1E2A38]">
+                        {journal.syncId}
+                      </code>
+                    </>
+                  ) : (
+                    t.journal.syncOffer
+                  )}
+                  <button
+                    type="button"
+                    onClick={onToggleSync}
+                    disabled={busy}
+                    className="mt-3 block font-semibold text-[#1E2A38] underline-offset-4 hover:underline"
+                  >
+                    {journal.syncId ? t.journal.disableSync : t.journal.enableSync}
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          </>
+        ) : null}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { MOOD_SCALE } from "@/lib/events/catalogue";
+import { useI18n } from "./I18nProvider";
+
+export default function MoodSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  onChange: (value: number) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <label className="block">
+      <div className="flex items-baseline justify-between gap-4 text-base text-[#1E2A38]">
+        <span>{label}</span>
+        <span className="text-lg font-semibold text-[#4F7A58]">
+          {value ?? "–"}
+          <span className="text-sm font-normal text-[#8A9690]">/{MOOD_SCALE.max}</span>
+        </span>
+      </div>
+      <input
+        type="range"
+        min={MOOD_SCALE.min}
+        max={MOOD_SCALE.max}
+        step={1}
+        value={value ?? Math.ceil((MOOD_SCALE.min + MOOD_SCALE.max) / 2)}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`mt-3 w-full accent-[#5D8A67] ${value === null ? "opacity-50" : ""}`}
+      />
+      <div className="mt-1 flex justify-between text-xs text-[#8A9690]">
+        <span>{t.mood.low}</span>
+        <span>{t.mood.high}</span>
+      </div>
+    </label>
+  );
+}
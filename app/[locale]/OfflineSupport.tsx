@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect } from "react";
+import { requestThoughtFlush } from "@/lib/offline/thoughts";
+import { flushPending } from "@/lib/tracker";
+
+// Registers the service worker (production builds only, so development never
+// serves a stale shell) and sends anything saved while offline.
+export default function OfflineSupport() {
+  useEffect(() => {
+    flushPending();
+
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // The first visit loads its scripts before the worker is in control.
+        registration.active?.postMessage({
+          type: "cache-urls",
+          urls: performance.getEntriesByType("resource").map((entry) => entry.name),
+        });
+        return requestThoughtFlush();
+      })
+      .catch((e) => console.log("Service worker error:", e));
+
+    const onOnline = () => {
+      requestThoughtFlush().catch(() => {});
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, []);
+
+  return null;
+}
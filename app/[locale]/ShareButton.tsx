@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Link2 } from "lucide-react";
+import { format } from "@/lib/i18n/format";
+import { track } from "@/lib/tracker";
+import { useI18n } from "./I18nProvider";
+
+type CreatedShare = { id: string; url: string; deleteUrl: string; expiresAt: string };
+
+// Like feedback, a share outlives the remount when the reset moves into the thread.
+const created = new Map<string, CreatedShare>();
+
+export default function ShareButton({ resetId }: { resetId: string }) {
+  const { locale, t } = useI18n();
+  const [share, setShare] = useState<CreatedShare | null>(() => created.get(resetId) ?? null);
+  const [status, setStatus] = useState<"idle" | "creating" | "failed">("idle");
+  const [copied, setCopied] = useState(false);
+
+  async function onShare() {
+    setStatus("creating");
+    try {
+      const res = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resetId }),
+      });
+      if (!res.ok) throw new Error(`Share failed: ${res.status}`);
+
+      const next: CreatedShare = await res.json();
+      created.set(resetId, next);
+      setShare(next);
+      setStatus("idle");
+    } catch {
+      setStatus("failed");
+    }
+  }
+
+  async function onCopy() {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopied(true);
+      track("share_link_copied");
+    } catch {
+      // Clipboard access can be refused; the link is still there to select.
+    }
+  }
+
+  if (!share) {
+    return (
+      <div className="text-sm text-[#5F6B76]">
+        <button
+          type="button"
+          onClick={onShare}
+          disabled={status === "creating"}
+          className="inline-flex items-center gap-2 rounded-full border border-[#E5ECE4] bg-white px-4 py-1.5 transition hover:text-[#1E2A38] disabled:opacity-50"
+        >
+          <Link2 className="h-4 w-4" strokeWidth={1.8} />
+          {status === "creating" ? t.share.creating : t.share.action}
+        </button>
+        {status === "failed" ? <p className="mt-2 text-red-700">{t.share.failed}</p> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-[#E5ECE4] bg-white px-5 py-4 text-sm text-[#5F6B76]">
+      <p>
+        {format(t.share.ready, {
+          date: new Date(share.expiresAt).toLocaleDateString(locale, { dateStyle: "long" }),
+        })}
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          readOnly
+          value={share.url}
+          onFocus={(e) => e.target.select()}
+          className="min-w-0 flex-1 rounded-xl border border-[#E5ECE4] bg-[#FAFCF8] px-3 py-2 text-[#1E2A38]"
+        />
+        <button
+          type="button"
+          onClick={onCopy}
+          className="inline-flex shrink-0 items-center gap-2 rounded-xl bg-[#5D8A67] px-4 py-2 font-semibold text-white transition hover:bg-[#4F7A58]"
+        >
+          {copied ? <Check className="h-4 w-4" strokeWidth={2} /> : null}
+          {copied ? t.share.copied : t.share.copy}
+        </button>
+      </div>
+      <p className="break-all text-xs">
+        {t.share.deleteHint}{" "}
+        <a href={share.deleteUrl} className="underline">
+          {share.deleteUrl}
+        </a>
+      </p>
+    </div>
+  );
+}
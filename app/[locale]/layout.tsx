@@ -0,0 +1,48 @@
+import type { Metadata, Viewport } from "next";
+import { notFound } from "next/navigation";
+import { Analytics } from "@vercel/analytics/react";
+import { getMessages, isLocale, LOCALES } from "@/lib/i18n";
+import { jakarta } from "../fonts";
+import I18nProvider from "./I18nProvider";
+import OfflineSupport from "./OfflineSupport";
+import "../globals.css";
+
+export const metadata: Metadata = {
+  title: "Prompta Flow",
+  description: "Turn your expertise into authority and inbound clients on LinkedIn.",
+  appleWebApp: { capable: true, title: "Mindeazy", statusBarStyle: "default" },
+  icons: { apple: "/icons/192" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#F5F5F2",
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale}>
+      <body className={`${jakarta.className} antialiased`}>
+        <I18nProvider locale={locale} messages={getMessages(locale)}>
+          {children}
+          <OfflineSupport />
+        </I18nProvider>
+        <Analytics />
+      </body>
+    </html>
+  );
+}
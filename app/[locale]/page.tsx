@@ -0,0 +1,856 @@
+"use client";
+
+"use client";
+
+import { useEffect, useEffectEvent, useMemo, useState, useRef } from "react";
+import { useRouter } from "next/navigation";
+
+import {
+  Leaf,
+  Heart,
+  Sparkles,
+  SunMedium,
+  ShieldCheck,
+  Brain,
+  Lock,
+  BookOpen,
+} from "lucide-react";
+import { isEventStream, readEventStream } from "@/lib/eventStream";
+import { track } from "@/lib/tracker";
+import type { CrisisResources } from "@/lib/safety/resources";
+import type { StructuredReset } from "@/lib/structuredReset";
+import {
+  HISTORY_LIMITS,
+  MAX_INPUT_CHARS,
+  type ConversationTurn,
+} from "@/lib/conversation";
+import type { Journal, JournalTurn } from "@/lib/journal";
+import {
+  DEFAULT_RESET_MODE,
+  RESET_MODE_IDS,
+  type ResetModeId,
+} from "@/lib/prompts/modes";
+import { LOCALE_NAMES, LOCALES, type Locale } from "@/lib/i18n/config";
+import {
+  canQueueThoughts,
+  finishedThoughts,
+  queueThought,
+  removeThought,
+  type OfflineThought,
+} from "@/lib/offline/thoughts";
+import { format, plural } from "@/lib/i18n/format";
+import CrisisPanel from "./CrisisPanel";
+import FeedbackBar from "./FeedbackBar";
+import { useI18n } from "./I18nProvider";
+import JournalPanel from "./JournalPanel";
+import MoodSlider from "./MoodSlider";
+import ShareButton from "./ShareButton";
+
+type GenerateResponse = Partial<StructuredReset> & {
+    text: string;
+    provider?: string;
+    model?: string;
+    promptVersion?: string;
+    mode?: ResetModeId;
+    language?: string;
+    resetId?: string;
+};
+
+type CrisisResponse = {
+  kind: "crisis";
+  resources: CrisisResources;
+};
+
+class RateLimitedError extends Error {}
+
+type ThreadTurn = {
+  input: string;
+  reset: GenerateResponse;
+};
+
+function toHistory(turns: ThreadTurn[]): ConversationTurn[] {
+  return turns.flatMap((turn) => [
+    { role: "user" as const, content: turn.input },
+    { role: "assistant" as const, content: turn.reset.text },
+  ]);
+}
+
+function toJournalTurn({ input, reset }: ThreadTurn): JournalTurn {
+  return {
+    input,
+    text: reset.text,
+    pattern: reset.pattern,
+    intensity: reset.intensity,
+    nextAction: reset.nextAction,
+    promptVersion: reset.promptVersion,
+  };
+}
+
+function ResetView({ reset }: { reset: GenerateResponse }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-5 text-[17px] leading-[1.9] text-[#1E2A38]">
+      {reset.pattern ? (
+        <div className="inline-flex items-center gap-2 rounded-full bg-[#EEF4EE] px-4 py-1.5 text-sm text-[#4F7A58]">
+          <Brain className="h-4 w-4" strokeWidth={1.8} />
+          <span>
+            {t.reset.pattern}{" "}
+            <span className="font-semibold">{t.patterns[reset.pattern]}</span>
+          </span>
+        </div>
+      ) : null}
+      {reset.text.split("\n\n").map((paragraph, index) => (
+        <p key={index} lang={reset.language}>
+          {paragraph}
+        </p>
+      ))}
+      {reset.nextAction ? (
+        <div className="flex items-start gap-3 rounded-2xl border border-[#E5ECE4] bg-white px-5 py-4 text-base">
+          <Sparkles className="mt-1 h-4 w-4 shrink-0 text-[#5D8A67]" strokeWidth={1.8} />
+          <span>
+            <span className="font-semibold text-[#4F7A58]">{t.reset.nextStep} </span>
+            <span lang={reset.language}>{reset.nextAction}</span>
+          </span>
+        </div>
+      ) : null}
+      {reset.resetId ? <FeedbackBar key={reset.resetId} resetId={reset.resetId} /> : null}
+      {reset.resetId ? <ShareButton key={reset.resetId} resetId={reset.resetId} /> : null}
+    </div>
+  );
+}
+
+function UserBubble({ text }: { text: string }) {
+  return (
+    <div className="ml-auto max-w-[85%] rounded-2xl bg-[#EEF4EE] px-5 py-3 text-base leading-relaxed text-[#1E2A38]">
+      {text}
+    </div>
+  );
+}
+
+export default function Page() {
+  const { locale, t } = useI18n();
+  const router = useRouter();
+
+  // V2 Inputs
+  const [service, setService] = useState("");
+  const [mode, setMode] = useState<ResetModeId>(DEFAULT_RESET_MODE);
+ const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+
+  // Email check-ins
+  const [email, setEmail] = useState("");
+  const [emailStatus, setEmailStatus] = useState<"idle" | "sending" | "sent">("idle");
+
+  // Output
+  const [loading, setLoading] = useState(false);
+  const [resultData, setResultData] = useState<GenerateResponse | null>(null);
+  const [crisis, setCrisis] = useState<CrisisResources | null>(null);
+  const [thread, setThread] = useState<ThreadTurn[]>([]);
+  const [currentInput, setCurrentInput] = useState("");
+  const [reply, setReply] = useState("");
+  const [errorMsg, setErrorMsg] = useState("");
+  const [noticeMsg, setNoticeMsg] = useState("");
+  // Thoughts saved offline that the service worker has since answered.
+  const [offlineReady, setOfflineReady] = useState<OfflineThought[]>([]);
+
+  // Mood check-in
+  const [moodBefore, setMoodBefore] = useState<number | null>(null);
+  const [moodAfter, setMoodAfter] = useState<number | null>(null);
+  const [moodSaved, setMoodSaved] = useState(false);
+
+  // Journal
+  const [journal, setJournal] = useState<Journal | null>(null);
+  const [journalOpen, setJournalOpen] = useState(false);
+  const [journalRefresh, setJournalRefresh] = useState(0);
+  const threadIdRef = useRef("");
+  const threadStartedRef = useRef("");
+  // Follow-ups stay in the mode the thread started with.
+  const threadModeRef = useRef<ResetModeId>(DEFAULT_RESET_MODE);
+
+  const onThoughtsFinished = useEffectEvent(async () => {
+    const finished = await finishedThoughts();
+    // Opened from the "ready" notification.
+    const wanted = new URLSearchParams(window.location.search).get("thought");
+    const opened = loading ? undefined : finished.find((thought) => thought.id === wanted);
+
+    setOfflineReady(finished);
+    if (opened) openOfflineThought(opened);
+  });
+
+  useEffect(() => {
+    onThoughtsFinished();
+    if (!("serviceWorker" in navigator)) return;
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "thought-finished") onThoughtsFinished();
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, []);
+
+  const canGenerate = useMemo(() => {
+  return service.trim().length >= 3;
+}, [service]);
+
+  function saveToJournal(turns: ThreadTurn[]) {
+    if (!journal || !threadIdRef.current) return;
+
+    journal
+      .save({
+        id: threadIdRef.current,
+        createdAt: threadStartedRef.current,
+        turns: turns.map(toJournalTurn),
+      })
+      .then(() => setJournalRefresh((n) => n + 1))
+      .catch((e) => console.log("Journal save error:", e));
+  }
+
+  // Keeps a new thought on the device when the connection drops; the service
+  // worker writes the reset once it's back.
+  async function saveOffline(input: string) {
+    if (!canQueueThoughts()) return false;
+
+    if ("Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission().catch(() => {});
+    }
+
+    const queued = await queueThought({
+      input,
+      mode: threadModeRef.current,
+      locale,
+      notification: { title: t.offline.notifyTitle, body: t.offline.notifyBody },
+    });
+    if (!queued) return false;
+
+    setResultData(null);
+    setService("");
+    setNoticeMsg(t.offline.queued);
+    track("offline_thought_queued", { mode: threadModeRef.current });
+    return true;
+  }
+
+  function openOfflineThought(thought: OfflineThought) {
+    removeThought(thought.id);
+    setOfflineReady((ready) => ready.filter((item) => item.id !== thought.id));
+
+    setThread([]);
+    setMoodAfter(null);
+    setMoodSaved(false);
+    setErrorMsg("");
+    setNoticeMsg("");
+    threadIdRef.current = thought.id;
+    threadStartedRef.current = thought.createdAt;
+    threadModeRef.current = thought.mode;
+    setCurrentInput(thought.input);
+
+    const result = thought.result as (GenerateResponse & { kind?: "reset" }) | CrisisResponse | undefined;
+
+    if (thought.status === "failed" || !result) {
+      setResultData(null);
+      setCrisis(null);
+      setService(thought.input);
+      setErrorMsg(t.offline.failed);
+      track("offline_reset_opened", { outcome: "failed" });
+    } else if (result.kind === "crisis") {
+      setResultData(null);
+      setCrisis(result.resources);
+      track("offline_reset_opened", { outcome: "crisis" });
+    } else {
+      setCrisis(null);
+      setResultData(result);
+      setNoticeMsg(t.offline.delivered);
+      saveToJournal([{ input: thought.input, reset: result }]);
+      track("offline_reset_opened", { outcome: "reset" });
+    }
+  }
+
+  async function doGenerate(input = service, previous: ThreadTurn[] = []) {
+    generateAbortRef.current?.abort();
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+
+    setErrorMsg("");
+    setNoticeMsg("");
+    setLoading(true);
+    setResultData(null);
+    setCrisis(null);
+    setCurrentInput(input);
+
+    try {
+      const res = await fetch("/api/generate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({
+          input,
+          history: toHistory(previous),
+          mode: threadModeRef.current,
+          stream: true,
+        }),
+        signal: controller.signal,
+      });
+
+      if (res.status === 429) {
+        const minutes = Math.max(1, Math.ceil(Number(res.headers.get("Retry-After") || 60) / 60));
+        setNoticeMsg(format(plural(locale, t.compose.rateLimited, minutes), { minutes }));
+        throw new RateLimitedError();
+      }
+
+      if (res.ok && isEventStream(res)) {
+        let text = "";
+        let finished: GenerateResponse | null = null;
+
+        await readEventStream(res, ({ event, data }) => {
+          const payload = data as GenerateResponse & { error?: string };
+
+          if (event === "delta") {
+            text += payload.text || "";
+            setResultData({ text: text.trimStart() });
+          } else if (event === "done") {
+            finished = { ...payload, text: payload.text || text.trim() };
+            setResultData(finished);
+          } else if (event === "error") {
+            throw new Error(payload.error || t.compose.genericError);
+          }
+        });
+        if (finished) saveToJournal([...previous, { input, reset: finished }]);
+        return true;
+      }
+
+      const data = (await res.json()) as
+        | (GenerateResponse & { kind?: "reset"; error?: string; category?: string })
+        | (CrisisResponse & { error?: string; category?: string });
+
+      // Spending caps pause generation; that's a calm notice, not an error.
+      if (data.category === "over_budget" && data.error) {
+        setNoticeMsg(data.error);
+        throw new RateLimitedError();
+      }
+      if (!res.ok) throw new Error(data.error || t.compose.genericError);
+
+      if (data.kind === "crisis") {
+        setCrisis(data.resources);
+      } else {
+        setResultData(data);
+        saveToJournal([...previous, { input, reset: data }]);
+      }
+      return true;
+    } catch (e) {
+      if (controller.signal.aborted) return false;
+      // fetch rejects with a TypeError when the network is gone.
+      if (e instanceof TypeError && previous.length === 0 && (await saveOffline(input))) {
+        return false;
+      }
+      if (!(e instanceof RateLimitedError)) {
+        setErrorMsg(e instanceof Error ? e.message : t.compose.genericError);
+      }
+
+      const last = previous[previous.length - 1];
+      if (last) {
+        setThread(previous.slice(0, -1));
+        setCurrentInput(last.input);
+        setResultData(last.reset);
+      }
+      return false;
+    } finally {
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }
+
+  function cancelGenerate() {
+    generateAbortRef.current?.abort();
+    generateAbortRef.current = null;
+    setLoading(false);
+  }
+
+  function onClickGenerate() {
+    if (!canGenerate) {
+     setErrorMsg(t.compose.emptyInput);
+    }
+    setThread([]);
+    setMoodAfter(null);
+    setMoodSaved(false);
+    threadIdRef.current = crypto.randomUUID();
+    threadStartedRef.current = new Date().toISOString();
+    threadModeRef.current = mode;
+    doGenerate();
+  }
+
+  async function onSubmitReply(e: React.FormEvent) {
+    e.preventDefault();
+    const clean = reply.trim();
+    if (!resultData || loading) return;
+    if (clean.length < 3) {
+      setErrorMsg(t.compose.emptyInput);
+      return;
+    }
+
+    const previous = [...thread, { input: currentInput, reset: resultData }];
+    setThread(previous);
+    track("real_generate_click", {
+      input_length: clean.length,
+      follow_up: true,
+      mode: threadModeRef.current,
+    });
+
+    if (await doGenerate(clean, previous)) {
+      setReply("");
+    }
+  }
+
+  function onSaveMood() {
+    if (moodBefore === null || moodAfter === null) return;
+
+    track("mood_check_in", {
+      before: moodBefore,
+      after: moodAfter,
+      follow_ups: thread.length,
+      ...(resultData?.pattern ? { pattern: resultData.pattern } : {}),
+    });
+    setMoodSaved(true);
+  }
+
+  function onChangeLocale(next: Locale) {
+    track("locale_change", { from: locale, to: next });
+    router.push(`/${next}`);
+  }
+
+  async function onSubmitEmail(e: React.FormEvent) {
+    e.preventDefault();
+    const clean = email.trim();
+    const ok = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(clean);
+    if (!ok) {
+      setErrorMsg(t.email.invalid);
+      return;
+    }
+    track("email_submit_click");
+    setErrorMsg("");
+    setEmailStatus("sending");
+
+    try {
+      const res = await fetch("/api/subscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: clean }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || t.email.failed);
+      }
+
+      setEmailStatus("sent");
+    } catch (err) {
+      setEmailStatus("idle");
+      setErrorMsg(err instanceof Error ? err.message : t.email.failed);
+    }
+  }
+
+
+  return (
+  <main className="min-h-screen bg-[#F5F5F2] px-6 py-6">
+<div className="mx-auto min-h-[92vh] max-w-[1400px] rounded-[28px] border border-[#E7ECE6] bg-white/85 px-5 py-5 shadow-[0_10px_40px_rgba(30,42,56,0.06)] md:px-8 md:py-8 xl:px-12 xl:py-10">      
+      {/* Header */}
+      <header className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <img
+            src="/mindeazy-logo.png"
+            alt={t.header.logoAlt}
+className="h-[100px] w-[100px] self-center object-contain drop-shadow-[0_4px_12px_rgba(30,42,56,0.08)]"        />
+          <div className="text-2xl font-bold leading-none tracking-[-0.03em] text-[#1E2A38]">
+            Mindeazy
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6">
+          <div className="hidden items-center gap-2.5 text-[15px] text-[#5F6B76] md:flex">
+            <Lock className="h-[14px] w-[14px] text-[#6F9B75]" strokeWidth={2} />
+            <span>{t.header.privacy}</span>
+          </div>
+          <label>
+            <span className="sr-only">{t.header.language}</span>
+            <select
+              value={locale}
+              onChange={(e) => onChangeLocale(e.target.value as Locale)}
+              className="rounded-full border border-[#E5ECE4] bg-white px-3 py-2 text-[15px] font-medium text-[#1E2A38] outline-none transition focus:border-[#5D8A67]"
+            >
+              {LOCALES.map((id) => (
+                <option key={id} value={id} lang={id}>
+                  {LOCALE_NAMES[id]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => setJournalOpen(true)}
+            className="inline-flex items-center gap-2 rounded-full border border-[#E5ECE4] bg-white px-4 py-2 text-[15px] font-medium text-[#1E2A38] transition hover:border-[#C9D9CC]"
+          >
+            <BookOpen className="h-4 w-4 text-[#5D8A67]" strokeWidth={1.8} />
+            {t.header.journal}
+          </button>
+        </div>
+      </header>
+
+      {/* Main layout */}
+      <div className="mt-6 grid grid-cols-1 gap-10 lg:grid-cols-[1fr_0.9fr] xl:gap-12 lg:grid-cols-2 lg:items-center">
+        
+        {/* Left side */}
+        <section className="max-w-[620px]">
+          <div className="inline-flex items-center gap-2 rounded-full bg-[#EEF4EE] px-5 py-2 text-sm font-bold uppercase tracking-[0.18em] text-[#4F7A58]">
+            <Leaf className="h-4 w-4" strokeWidth={2} />
+            {t.hero.badge}
+          </div>
+
+          <h1 className="mt-8 max-w-2xl text-4xl md:text-[3.4rem] xl:text-[4.2rem] - font-semibold leading-[1.05] tracking-[-0.05em] text-[#1E2A38] md:text-6xl">
+            {t.hero.titleLine1}
+            <br />
+            <span className="text-[#5D8A67]">{t.hero.titleLine2}</span>
+          </h1>
+
+          <p className="mt-6 max-w-xl text-lg leading-relaxed text-[#1E2A38] md:text-xl xl:text-2xl">
+  {t.hero.intro}
+</p>
+
+          {/* Text box */}
+<div
+  onClick={() => textareaRef.current?.focus()}
+  className="mt-7 cursor-text rounded-[24px] border border-[#C9D9CC] bg-white p-7 shadow-sm"
+>            <div className="text-6xl font-semibold leading-none text-[#5D8A67] opacity-90">
+  “
+</div>
+
+           {service.trim().length === 0 && (
+  <>
+    <label className="mt-3 block text-xl font-medium text-[#1E2A38]">
+      {t.compose.label}
+    </label>
+
+    <p className="mt-2 text-lg text-[#8A9690]">
+      {t.compose.hint}
+    </p>
+  </>
+)}
+            <textarea
+              ref={textareaRef}
+              className="mt-5 h-[120px] md:h-[140px] xl:h-[160px] w-full resize-none bg-transparent text-lg md:text-xl leading-relaxed text-[#1E2A38] outline-none placeholder:text-[#A0AAA4]"
+              placeholder=""
+              value={service}
+              maxLength={MAX_INPUT_CHARS}
+              onChange={(e) => setService(e.target.value)}
+            />
+
+            <div className="flex justify-end">
+  <Leaf className="h-6 w-6 text-[#5D8A67]" strokeWidth={1.8} />
+</div>
+          </div>
+
+          <div className="mt-5 rounded-[20px] border border-[#E5ECE4] bg-white/70 px-6 py-4">
+            <MoodSlider
+              label={t.compose.moodBefore}
+              value={moodBefore}
+              onChange={setMoodBefore}
+            />
+          </div>
+
+          <div className="mt-8 flex flex-wrap items-center gap-4">
+            <button
+              onClick={() => {
+                track("real_generate_click", { input_length: service.trim().length, mode });
+                onClickGenerate();
+              }}
+              disabled={loading}
+              className="rounded-[18px] bg-[#1E2A38] px-6 py-4 text-lg md:px-8 md:py-5 md:text-xl font-bold text-white shadow-[0_14px_35px_rgba(30,42,56,0.28)] transition hover:-translate-y-0.5 hover:bg-[#263545] disabled:opacity-60"
+            >
+              {loading ? t.compose.submitting : t.compose.submit}
+            </button>
+
+            <label className="flex flex-col gap-1">
+              <span className="sr-only">{t.compose.modeLabel}</span>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ResetModeId)}
+                disabled={loading}
+                className="rounded-[14px] border border-[#C9D9CC] bg-white px-4 py-3 text-base font-medium text-[#1E2A38] outline-none transition focus:border-[#5D8A67] disabled:opacity-60"
+              >
+                {RESET_MODE_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {t.modes[id].label}
+                  </option>
+                ))}
+              </select>
+              <span className="px-1 text-sm text-[#8A9690]">{t.modes[mode].hint}</span>
+            </label>
+          </div>
+
+          <div className="mt-7 flex items-center gap-2 text-base text-[#5F6B76]">
+            <ShieldCheck className="h-[15px] w-[15px] text-[#6F9B75]" strokeWidth={2.3} />
+            <span>{t.compose.trust}</span>
+          </div>
+
+          {errorMsg ? (
+            <div className="mt-5 rounded-2xl bg-red-50 p-4 text-sm text-red-700">
+              {errorMsg}
+            </div>
+          ) : null}
+
+          {noticeMsg ? (
+            <div className="mt-5 rounded-2xl bg-[#F1F5EF] p-4 text-sm leading-relaxed text-[#4F7A58]">
+              {noticeMsg}
+            </div>
+          ) : null}
+
+          {offlineReady.length > 0 ? (
+            <div className="mt-5 flex flex-wrap items-center justify-between gap-3 rounded-2xl bg-[#F1F5EF] p-4 text-sm leading-relaxed text-[#4F7A58]">
+              <span>{plural(locale, t.offline.waiting, offlineReady.length)}</span>
+              <button
+                type="button"
+                onClick={() => openOfflineThought(offlineReady[0])}
+                disabled={loading}
+                className="rounded-[14px] bg-[#1E2A38] px-5 py-2 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50"
+              >
+                {t.offline.open}
+              </button>
+            </div>
+          ) : null}
+        </section>
+
+        {/* Right side */}
+        <section className="rounded-[32px] border border-[#E5ECE4] bg-[#FAFCF8]/95 p-5 md:p-5 xl:p-6">
+          <div className="flex justify-center">
+<div
+  className="
+  flex
+    h-24
+    w-24
+    items-center
+    justify-center
+    rounded-full
+    border
+    border-[#D6E2D6]
+    bg-[#F8FAF7]
+    shadow-[0_8px_25px_rgba(163,191,168,0.15)]
+  "
+>              <img
+                src="/mindeazy-logo.png"
+                alt={t.header.logoAlt}
+                className="h-28 w-28 object-contain "
+              />
+            </div>
+          </div>
+
+          <h2 className="mt-5 text-center text-3xl font-semibold text-[#4F7A58]">
+            {t.reset.title}
+          </h2>
+
+          <div className="my-7 flex items-center gap-5">
+  <div className="h-px flex-1 bg-[#E5ECE4]" />
+
+  <Leaf
+    className="h-[18px] w-[18px] text-[#6F9B75]"
+    strokeWidth={1.8}
+  />
+
+  <div className="h-px flex-1 bg-[#E5ECE4]" />
+</div>
+
+          {crisis ? (
+            <CrisisPanel resources={crisis} />
+          ) : resultData || thread.length > 0 ? (
+            <div className="space-y-8">
+              {thread.map((turn, index) => (
+                <div key={index} className="space-y-5">
+                  {index > 0 ? <UserBubble text={turn.input} /> : null}
+                  <ResetView reset={turn.reset} />
+                </div>
+              ))}
+
+              {thread.length > 0 ? <UserBubble text={currentInput} /> : null}
+
+              {resultData ? (
+                <ResetView reset={resultData} />
+              ) : (
+                <p className="text-base text-[#8A9690]">{t.reset.thinking}</p>
+              )}
+
+              {resultData && !loading && thread.length < HISTORY_LIMITS.maxFollowUps ? (
+                <form
+                  onSubmit={onSubmitReply}
+                  className="rounded-[20px] border border-[#C9D9CC] bg-white p-4"
+                >
+                  <textarea
+                    className="h-[72px] w-full resize-none bg-transparent text-base leading-relaxed text-[#1E2A38] outline-none placeholder:text-[#A0AAA4]"
+                    placeholder={t.reset.replyPlaceholder}
+                    value={reply}
+                    maxLength={MAX_INPUT_CHARS}
+                    onChange={(e) => setReply(e.target.value)}
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={reply.trim().length < 3}
+                      className="rounded-[14px] bg-[#1E2A38] px-5 py-2 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50"
+                    >
+                      {t.reset.reply}
+                    </button>
+                  </div>
+                </form>
+              ) : null}
+
+              {resultData && !loading && moodBefore !== null ? (
+                moodSaved ? (
+                  <p className="rounded-[20px] bg-[#F1F5EF] p-4 text-sm leading-relaxed text-[#4F7A58]">
+                    {format(t.reset.moodSaved, { before: moodBefore, after: moodAfter ?? "" })}
+                  </p>
+                ) : (
+                  <div className="rounded-[20px] border border-[#E5ECE4] bg-white p-4">
+                    <MoodSlider
+                      label={t.reset.moodAfter}
+                      value={moodAfter}
+                      onChange={setMoodAfter}
+                    />
+                    <div className="mt-3 flex justify-end">
+                      <button
+                        type="button"
+                        onClick={onSaveMood}
+                        disabled={moodAfter === null}
+                        className="rounded-[14px] bg-[#1E2A38] px-5 py-2 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50"
+                      >
+                        {t.reset.saveMood}
+                      </button>
+                    </div>
+                  </div>
+                )
+              ) : null}
+
+              {resultData && !loading ? (
+                <button
+                  type="button"
+                  onClick={() => setJournalOpen(true)}
+                  className="inline-flex items-center gap-2 text-sm text-[#5F6B76] transition hover:text-[#1E2A38]"
+                >
+                  <BookOpen className="h-4 w-4 text-[#5D8A67]" strokeWidth={1.8} />
+                  {journal ? t.reset.journalSaved : t.reset.journalOffer}
+                </button>
+              ) : null}
+
+              {resultData && !loading ? (
+                emailStatus === "sent" ? (
+                  <p className="rounded-[20px] bg-[#F1F5EF] p-4 text-sm leading-relaxed text-[#4F7A58]">
+                    {t.email.sent}
+                  </p>
+                ) : (
+                  <form
+                    onSubmit={onSubmitEmail}
+                    className="rounded-[20px] border border-[#E5ECE4] bg-white p-4"
+                  >
+                    <p className="text-sm font-semibold text-[#1E2A38]">
+                      {t.email.prompt}
+                    </p>
+                    <div className="mt-3 flex gap-3">
+                      <input
+                        type="email"
+                        className="min-w-0 flex-1 rounded-[14px] border border-[#E5ECE4] px-4 py-2 text-sm text-[#1E2A38] outline-none placeholder:text-[#A0AAA4] focus:border-[#C9D9CC]"
+                        placeholder={t.email.placeholder}
+                        value={email}
+                        maxLength={254}
+                        onChange={(e) => setEmail(e.target.value)}
+                      />
+                      <button
+                        type="submit"
+                        disabled={emailStatus === "sending"}
+                        className="rounded-[14px] bg-[#1E2A38] px-5 py-2 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50"
+                      >
+                        {t.email.submit}
+                      </button>
+                    </div>
+                  </form>
+                )
+              ) : null}
+            </div>
+          ) : (
+            <div className="space-y-0">
+              {t.reset.placeholders.map((item, index) => (
+                <div key={index} className="flex gap-5 border-b border-[#E5ECE4] py-5 last:border-b-0">
+<div className="flex h-16 w-16 shrink-0 items-center justify-center rounded-full bg-[#F4F6F1] text-[#6E9771]">                    {index === 0 ? (
+  <Brain className="h-[30px] w-[30px]" strokeWidth={1.8} />
+) : index === 1 ? (
+  <Leaf className="h-[30px] w-[30px]" strokeWidth={1.8} />
+) : index === 2 ? (
+  <Heart className="h-[30px] w-[30px]" strokeWidth={1.8} />
+) : (
+  <Sparkles className="h-[30px] w-[30px]" strokeWidth={1.8} />
+)}
+                  </div>
+                  <p className="text-base md:text-[17px] xl:text-lg leading-relaxed text-[#1E2A38]">
+                    {item}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {crisis ? null : (
+          <div className="mt-8 rounded-2xl bg-[#F1F5EF] px-6 py-6 text-center text-lg font-semibold text-[#4F7A58]">
+            {t.reset.encouragement}
+            <div className="mt-3 flex justify-center">
+  <Heart className="h-5 w-5 text-[#5D8A67]" strokeWidth={1.8} />
+</div>
+          </div>
+          )}
+
+          {resultData || crisis || thread.length > 0 ? (
+            <div className="mt-6 flex justify-center">
+              <button
+                onClick={() => {
+                  cancelGenerate();
+                  setService("");
+                  setResultData(null);
+                  setCrisis(null);
+                  setThread([]);
+                  setReply("");
+                  setMoodBefore(null);
+                  setMoodAfter(null);
+                  setMoodSaved(false);
+                  textareaRef.current?.focus();
+                }}
+                className="text-sm text-[#5F6B76] transition hover:text-[#1E2A38]"
+              >
+                {t.reset.startOver}
+              </button>
+            </div>
+          ) : null}
+        </section>
+      </div>
+
+      <div className="mt-14 text-sm text-[#6F7D73]">
+        <div className="mt-14 flex items-center gap-2 text-sm text-[#6F7D73]">
+  <Leaf
+    className="h-[18px] w-[18px] text-[#6F9B75]"
+    strokeWidth={1.8}
+  />
+
+  <span>
+    {t.reset.footer}
+  </span>
+</div>
+      </div>
+    </div>
+
+    {journalOpen ? (
+      <JournalPanel
+        journal={journal}
+        refreshKey={journalRefresh}
+        onJournalChange={setJournal}
+        onClose={() => setJournalOpen(false)}
+      />
+    ) : null}
+  </main>
+);
+}
\ No newline at end of file
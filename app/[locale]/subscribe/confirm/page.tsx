@@ -0,0 +1,49 @@
+import Link from "next/link";
+import { getMessages, isLocale } from "@/lib/i18n";
+
+export default async function SubscribeConfirmPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { locale } = await params;
+  const { token = "" } = await searchParams;
+  const t = getMessages(isLocale(locale) ? locale : undefined).subscribe;
+  const message = token ? t.confirm : t.statuses.invalid;
+
+  return (
+    <main className="min-h-screen bg-[#F5F5F2] px-6 py-20">
+      <div className="mx-auto max-w-xl rounded-[32px] border border-[#E5ECE4] bg-[#FAFCF8] p-10 text-center">
+        <div className="inline-flex items-center gap-2 rounded-full bg-[#EEF4EE] px-5 py-2 text-sm font-bold uppercase tracking-[0.18em] text-[#4F7A58]">
+          Mindeazy
+        </div>
+        <h1 className="mt-6 text-3xl font-bold text-[#1E2A38]">{message.title}</h1>
+        <p className="mt-4 text-lg leading-relaxed text-[#5F6B76]">{message.body}</p>
+        <div className="mt-8 flex flex-wrap items-center justify-center gap-4">
+          {token ? (
+            <form method="post" action={`/api/subscribe/confirm?${new URLSearchParams({ token })}`}>
+              <button
+                type="submit"
+                className="rounded-[18px] bg-[#1E2A38] px-6 py-3 font-bold text-white transition hover:bg-[#263545]"
+              >
+                {t.confirm.confirm}
+              </button>
+            </form>
+          ) : null}
+          <Link
+            href={`/${locale}`}
+            className={
+              token
+                ? "font-bold text-[#5F6B76] transition hover:text-[#1E2A38]"
+                : "inline-block rounded-[18px] bg-[#1E2A38] px-6 py-3 font-bold text-white transition hover:bg-[#263545]"
+            }
+          >
+            {t.back}
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,37 @@
+import Link from "next/link";
+import { getMessages, isLocale, type Messages } from "@/lib/i18n";
+
+type Status = keyof Messages["subscribe"]["statuses"];
+
+export default async function SubscribeStatusPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const { locale } = await params;
+  const { status } = await searchParams;
+  const t = getMessages(isLocale(locale) ? locale : undefined).subscribe;
+  const message = Object.hasOwn(t.statuses, status ?? "")
+    ? t.statuses[status as Status]
+    : t.statuses.invalid;
+
+  return (
+    <main className="min-h-screen bg-[#F5F5F2] px-6 py-20">
+      <div className="mx-auto max-w-xl rounded-[32px] border border-[#E5ECE4] bg-[#FAFCF8] p-10 text-center">
+        <div className="inline-flex items-center gap-2 rounded-full bg-[#EEF4EE] px-5 py-2 text-sm font-bold uppercase tracking-[0.18em] text-[#4F7A58]">
+          Mindeazy
+        </div>
+        <h1 className="mt-6 text-3xl font-bold text-[#1E2A38]">{message.title}</h1>
+        <p className="mt-4 text-lg leading-relaxed text-[#5F6B76]">{message.body}</p>
+        <Link
+          href={`/${locale}`}
+          className="mt-8 inline-block rounded-[18px] bg-[#1E2A38] px-6 py-3 font-bold text-white transition hover:bg-[#263545]"
+        >
+          {t.back}
+        </Link>
+      </div>
+    </main>
+  );
+}
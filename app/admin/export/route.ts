@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { adminUnauthorized, isAdminRequest } from "@/lib/adminAuth";
+import { CSV_REPORTS, reportToCsv, type CsvReport } from "@/lib/analytics/csv";
+import { parseRange } from "@/lib/analytics/range";
+import { getAdminReport } from "@/lib/analytics/report";
+import { errorResponse } from "@/lib/errors";
+import { requestLogger } from "@/lib/logger";
+
+export async function GET(req: Request) {
+  const log = requestLogger(req, "admin/export");
+
+  if (!isAdminRequest(req)) return adminUnauthorized();
+
+  const params = new URL(req.url).searchParams;
+  const kind = params.get("report") as CsvReport;
+
+  if (!CSV_REPORTS.includes(kind)) {
+    return NextResponse.json(
+      { error: `report must be one of ${CSV_REPORTS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const range = parseRange({ from: params.get("from"), to: params.get("to") });
+    const report = await getAdminReport(range);
+
+    return new Response(reportToCsv(report, kind), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="mindeazy-${kind}-${range.from}-${range.to}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, log, "Admin export error");
+  }
+}
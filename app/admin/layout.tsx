@@ -0,0 +1,15 @@
+import { jakarta } from "../fonts";
+import "../globals.css";
+
+// The admin area sits outside the locale routes and stays in English.
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en">
+      <body className={`${jakarta.className} antialiased`}>{children}</body>
+    </html>
+  );
+}
@@ -0,0 +1,264 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { CSV_REPORTS } from "@/lib/analytics/csv";
+import { parseRange } from "@/lib/analytics/range";
+import { DAILY_EVENTS, getAdminReport, type AdminReport } from "@/lib/analytics/report";
+import type { DateRange } from "@/lib/analytics/types";
+import { getConfig } from "@/lib/config";
+import { createLogger, resolveRequestId } from "@/lib/logger";
+import { getSpend, type Spend } from "@/lib/usage";
+
+// Access is enforced in proxy.ts; this page only renders.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Mindeazy admin",
+  robots: { index: false, follow: false },
+};
+
+const eventLabels: Record<(typeof DAILY_EVENTS)[number], string> = {
+  landing_cta_click: "Landing CTA",
+  real_generate_click: "Generate",
+  email_submit_click: "Email",
+  reset_generated: "Resets",
+  generate_failed: "Failures",
+  mood_check_in: "Check-ins",
+  share_created: "Shares",
+  share_viewed: "Share views",
+};
+
+function percent(value: number | null) {
+  return value === null ? "–" : `${(value * 100).toFixed(1)}%`;
+}
+
+function usd(value: number) {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function tokens(value: number) {
+  return value.toLocaleString("en-US");
+}
+
+type BudgetSummary = {
+  spend: Spend;
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+};
+
+function capLabel(spent: number, cap: number | null) {
+  if (cap === null) return `${usd(spent)} (no cap)`;
+  return `${usd(spent)} of ${usd(cap)}${cap > 0 ? ` (${percent(spent / cap)})` : ""}`;
+}
+
+function exportHref(range: DateRange, report: string) {
+  return `/admin/export?${new URLSearchParams({ ...range, report })}`;
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-[24px] border border-[#E5ECE4] bg-white p-6">
+      <h2 className="mb-4 text-lg font-semibold text-[#1E2A38]">{title}</h2>
+      <div className="overflow-x-auto">{children}</div>
+    </section>
+  );
+}
+
+function Table({ header, rows }: { header: string[]; rows: React.ReactNode[][] }) {
+  return (
+    <table className="w-full text-left text-sm text-[#1E2A38]">
+      <thead>
+        <tr className="border-b border-[#E5ECE4] text-[#5F6B76]">
+          {header.map((cell) => (
+            <th key={cell} className="py-2 pr-4 font-medium">
+              {cell}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={index} className="border-b border-[#F1F5EF] last:border-0">
+            {row.map((cell, i) => (
+              <td key={i} className="py-2 pr-4 tabular-nums">
+                {cell}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Dashboard({ report, budget }: { report: AdminReport; budget: BudgetSummary | null }) {
+  return (
+    <div className="mt-8 grid gap-6">
+      <Card title="Model spend">
+        {budget ? (
+          <div className="mb-4 flex flex-wrap gap-x-8 gap-y-1 text-sm text-[#5F6B76]">
+            <span>Today: {capLabel(budget.spend.today, budget.dailyUsd)}</span>
+            <span>This month: {capLabel(budget.spend.month, budget.monthlyUsd)}</span>
+          </div>
+        ) : null}
+        <Table
+          header={["Provider", "Model", "Requests", "Input tokens", "Output tokens", "Estimated cost"]}
+          rows={report.spend.models.map((row) => [
+            row.provider,
+            row.model,
+            row.requests,
+            tokens(row.inputTokens),
+            tokens(row.outputTokens),
+            usd(row.costUsd),
+          ])}
+        />
+        <div className="mt-6">
+          <Table
+            header={["Day", "Requests", "Input tokens", "Output tokens", "Estimated cost"]}
+            rows={report.spend.daily.map((row) => [
+              row.day,
+              row.requests,
+              tokens(row.inputTokens),
+              tokens(row.outputTokens),
+              usd(row.costUsd),
+            ])}
+          />
+        </div>
+      </Card>
+
+      <Card title="Funnel (distinct app visitors)">
+        <Table
+          header={["Step", "Visitors", "From previous step"]}
+          rows={report.funnel.map((step) => [
+            eventLabels[step.step],
+            step.visitors,
+            percent(step.conversion),
+          ])}
+        />
+      </Card>
+
+      <Card title="Prompt versions">
+        <Table
+          header={["Version", "Generating visitors", "Email visitors", "Email conversion", "Resets", "Failures", "Error rate"]}
+          rows={report.prompts.map((row) => [
+            row.promptVersion,
+            row.generateVisitors,
+            row.emailVisitors,
+            percent(row.emailConversion),
+            row.resets,
+            row.failures,
+            percent(row.errorRate),
+          ])}
+        />
+      </Card>
+
+      <Card title="Generate error rate (app)">
+        <Table
+          header={["Day", "Resets", "Failures", "Error rate"]}
+          rows={report.errors.map((row) => [row.day, row.resets, row.failures, percent(row.errorRate)])}
+        />
+      </Card>
+
+      <Card title="By source (app and partner API)">
+        <Table
+          header={["Source", "Visitors with a reset", "Resets", "Failures", "Error rate"]}
+          rows={report.sources.map((row) => [
+            row.source,
+            row.resetVisitors,
+            row.resets,
+            row.failures,
+            percent(row.errorRate),
+          ])}
+        />
+      </Card>
+
+      <Card title="Daily events">
+        <Table
+          header={["Day", ...DAILY_EVENTS.map((name) => eventLabels[name])]}
+          rows={report.daily.map((row) => [row.day, ...DAILY_EVENTS.map((name) => row.counts[name])])}
+        />
+      </Card>
+    </div>
+  );
+}
+
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const range = parseRange(await searchParams);
+  const log = createLogger(resolveRequestId(await headers()), { route: "admin" });
+
+  let report: AdminReport | null = null;
+  let budget: BudgetSummary | null = null;
+  let errorMsg = "";
+
+  try {
+    report = await getAdminReport(range);
+  } catch (error) {
+    log.error("Admin report error", error);
+    errorMsg = "The report couldn't be loaded. Check the server logs and the Supabase functions.";
+  }
+
+  try {
+    const { dailyUsd, monthlyUsd } = getConfig().budget;
+    budget = { spend: await getSpend(), dailyUsd, monthlyUsd };
+  } catch (error) {
+    log.error("Admin budget error", error);
+  }
+
+  return (
+    <main className="min-h-screen bg-[#F5F5F2] px-6 py-8">
+      <div className="mx-auto max-w-[1200px]">
+        <header className="flex flex-wrap items-end justify-between gap-6">
+          <div>
+            <div className="text-sm font-bold uppercase tracking-[0.18em] text-[#4F7A58]">Mindeazy</div>
+            <h1 className="mt-2 text-3xl font-semibold text-[#1E2A38]">Analytics</h1>
+          </div>
+
+          <form className="flex flex-wrap items-end gap-3 text-sm text-[#5F6B76]">
+            <label className="flex flex-col gap-1">
+              From
+              <input
+                type="date"
+                name="from"
+                defaultValue={range.from}
+                className="rounded-[12px] border border-[#E5ECE4] bg-white px-3 py-2 text-[#1E2A38]"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              To
+              <input
+                type="date"
+                name="to"
+                defaultValue={range.to}
+                className="rounded-[12px] border border-[#E5ECE4] bg-white px-3 py-2 text-[#1E2A38]"
+              />
+            </label>
+            <button
+              type="submit"
+              className="rounded-[12px] bg-[#1E2A38] px-4 py-2 font-bold text-white hover:bg-[#263545]"
+            >
+              Apply
+            </button>
+          </form>
+        </header>
+
+        <div className="mt-4 flex flex-wrap gap-4 text-sm text-[#5F6B76]">
+          <span>CSV:</span>
+          {CSV_REPORTS.map((kind) => (
+            <a key={kind} href={exportHref(range, kind)} className="underline-offset-4 hover:text-[#1E2A38] hover:underline">
+              {kind}
+            </a>
+          ))}
+        </div>
+
+        {errorMsg ? (
+          <div className="mt-8 rounded-2xl bg-red-50 p-4 text-sm text-red-700">{errorMsg}</div>
+        ) : null}
+
+        {report ? <Dashboard report={report} budget={budget} /> : null}
+      </div>
+    </main>
+  );
+}
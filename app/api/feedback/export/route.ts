@@ -0,0 +1,45 @@
+import { adminUnauthorized, isAdminRequest } from "@/lib/adminAuth";
+import { errorResponse } from "@/lib/errors";
+import { getFeedbackStore } from "@/lib/feedback/store";
+import { requestLogger } from "@/lib/logger";
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+function parseDate(value: string | null) {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+// Negatively rated input/output pairs as JSONL, for prompt review. Inputs are
+// redacted when the reset is stored, so nothing here needs a second pass.
+export async function GET(req: Request) {
+  const log = requestLogger(req, "feedback/export");
+
+  if (!isAdminRequest(req)) return adminUnauthorized();
+
+  const params = new URL(req.url).searchParams;
+  const limit = Math.min(MAX_LIMIT, Number(params.get("limit")) || DEFAULT_LIMIT);
+
+  try {
+    const pairs = await getFeedbackStore().negativePairs({
+      from: parseDate(params.get("from")),
+      to: parseDate(params.get("to")),
+      limit,
+    });
+
+    const body = pairs.map((pair) => JSON.stringify(pair)).join("\n");
+    const filename = `negative-resets-${new Date().toISOString().slice(0, 10)}.jsonl`;
+
+    return new Response(body ? `${body}\n` : "", {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, log, "Feedback export error");
+  }
+}
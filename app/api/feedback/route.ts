@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getFeedbackStore } from "@/lib/feedback/store";
+import { parseFeedback } from "@/lib/feedback/tags";
+import { getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { getVisitorId } from "@/lib/visitor";
+
+export async function POST(req: Request) {
+  const log = requestLogger(req, "feedback");
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
+  try {
+    const result = parseFeedback(await req.json().catch(() => null));
+
+    if (!result.ok) {
+      return NextResponse.json({ error: t.invalidFeedback, detail: result.error }, { status: 400 });
+    }
+
+    const visitorId = await getVisitorId();
+
+    const limited = await checkRateLimits(
+      limitsFor("feedback", { ip: getClientIp(req.headers), visitorId }),
+      log
+    );
+
+    if (!limited.ok) {
+      return rateLimitResponse(limited, t.tooMuchFeedback);
+    }
+
+    const saved = await getFeedbackStore().saveFeedback(result.feedback, visitorId);
+
+    if (!saved) {
+      return NextResponse.json({ error: t.unknownReset }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, log, "Feedback error", { locale });
+  }
+}
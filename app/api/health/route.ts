@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getHealth } from "@/lib/health";
+
+// 200 while resets can still be written (even if degraded), 503 when they can't.
+export async function GET() {
+  const report = await getHealth();
+
+  return NextResponse.json(report, {
+    status: report.status === "down" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
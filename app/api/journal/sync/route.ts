@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getMessages, requestLocale, type Messages } from "@/lib/i18n";
+import { isSyncId, parseSyncPush, SYNC_ID_HEADER } from "@/lib/journal/protocol";
+import { getJournalSyncStore, isJournalSyncEnabled } from "@/lib/journal/server";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { getVisitorId } from "@/lib/visitor";
+
+const MAX_SYNC_BYTES = 4 * 1024 * 1024;
+
+type SyncHandler = (syncId: string, req: Request, t: Messages["api"]) => Promise<Response>;
+
+function withSync(handler: SyncHandler) {
+  return async (req: Request) => {
+    const log = requestLogger(req, "journal/sync");
+    const locale = requestLocale(req.headers);
+    const t = getMessages(locale).api;
+
+    if (!isJournalSyncEnabled()) {
+      return NextResponse.json({ error: t.syncDisabled }, { status: 404 });
+    }
+
+    const syncId = req.headers.get(SYNC_ID_HEADER);
+    if (!isSyncId(syncId)) {
+      return NextResponse.json({ error: t.invalidSyncCode }, { status: 400 });
+    }
+
+    try {
+      const limited = await checkRateLimits(
+        limitsFor("journalSync", {
+          ip: getClientIp(req.headers),
+          visitorId: await getVisitorId(),
+        }),
+        log
+      );
+
+      if (!limited.ok) {
+        return rateLimitResponse(limited, t.tooManySyncs);
+      }
+
+      return await handler(syncId, req, t);
+    } catch (error) {
+      return errorResponse(error, log, "Journal sync error", { locale });
+    }
+  };
+}
+
+export const GET = withSync(async (syncId, _req, t) => {
+  const snapshot = await getJournalSyncStore().load(syncId);
+
+  if (!snapshot) {
+    return NextResponse.json({ error: t.noSyncedJournal }, { status: 404 });
+  }
+
+  return NextResponse.json(snapshot);
+});
+
+export const PUT = withSync(async (syncId, req, t) => {
+  if (Number(req.headers.get("content-length") || 0) > MAX_SYNC_BYTES) {
+    return NextResponse.json({ error: t.syncTooLarge }, { status: 413 });
+  }
+
+  const result = parseSyncPush(await req.json().catch(() => null));
+
+  if (!result.ok) {
+    return NextResponse.json({ error: t.invalidSync, detail: result.error }, { status: 400 });
+  }
+
+  await getJournalSyncStore().apply(syncId, result.push);
+
+  return NextResponse.json({ success: true });
+});
+
+export const DELETE = withSync(async (syncId) => {
+  await getJournalSyncStore().remove(syncId);
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import { deleteShare, isDeleteToken, isShareId, recordShareEvent } from "@/lib/share";
+
+// Whoever holds the delete link may remove the share; no visitor cookie needed,
+// so it works from another device too.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const log = requestLogger(req, "share/delete");
+  const { id } = await params;
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
+  try {
+    const body = await req.json().catch(() => null);
+
+    if (!isShareId(id) || !isDeleteToken(body?.token)) {
+      return NextResponse.json({ error: t.invalidShare }, { status: 400 });
+    }
+
+    if (!(await deleteShare(id, body.token))) {
+      return NextResponse.json({ error: t.unknownShare }, { status: 404 });
+    }
+
+    await recordShareEvent(log, "share_deleted", id, null);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, log, "Share delete error", { locale });
+  }
+}
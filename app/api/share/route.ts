@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { createShare, deleteUrl, recordShareEvent, shareUrl } from "@/lib/share";
+import { getBaseUrl } from "@/lib/subscribers/baseUrl";
+import { getVisitorId } from "@/lib/visitor";
+
+const resetIdPattern = /^[0-9a-f-]{36}$/;
+
+export async function POST(req: Request) {
+  const log = requestLogger(req, "share");
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
+  try {
+    const body = await req.json().catch(() => null);
+
+    if (typeof body?.resetId !== "string" || !resetIdPattern.test(body.resetId)) {
+      return NextResponse.json({ error: t.unknownReset, detail: "Invalid resetId" }, { status: 400 });
+    }
+
+    const visitorId = await getVisitorId();
+
+    const limited = await checkRateLimits(
+      limitsFor("share", { ip: getClientIp(req.headers), visitorId }),
+      log
+    );
+
+    if (!limited.ok) {
+      return rateLimitResponse(limited, t.tooManyShares);
+    }
+
+    const share = await createShare({ resetId: body.resetId, visitorId, locale });
+
+    if (!share) {
+      return NextResponse.json({ error: t.unknownReset }, { status: 404 });
+    }
+
+    await recordShareEvent(log, "share_created", share.id, visitorId, { reset_id: body.resetId });
+
+    const baseUrl = getBaseUrl(req);
+    return NextResponse.json(
+      {
+        id: share.id,
+        url: shareUrl(baseUrl, share.id),
+        deleteUrl: deleteUrl(baseUrl, share.id, share.deleteToken),
+        expiresAt: share.expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, log, "Share error", { locale });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { classifyError } from "@/lib/errors";
+import { requestLogger } from "@/lib/logger";
+import { confirmSubscription } from "@/lib/subscribers";
+import { getBaseUrl } from "@/lib/subscribers/baseUrl";
+
+function linkToken(req: Request) {
+  return new URL(req.url).searchParams.get("token") || "";
+}
+
+// Mail gateways open every link to scan it, which would confirm addresses
+// nobody asked for; the link only shows a page whose button posts below.
+export async function GET(req: Request) {
+  const query = new URLSearchParams({ token: linkToken(req) });
+  return NextResponse.redirect(`${getBaseUrl(req)}/subscribe/confirm?${query}`, 303);
+}
+
+export async function POST(req: Request) {
+  const token = linkToken(req);
+  let status = "invalid";
+
+  try {
+    if (token) status = await confirmSubscription(token);
+  } catch (error) {
+    requestLogger(req, "subscribe/confirm").error("Confirm error", error, {
+      category: classifyError(error),
+    });
+    status = "error";
+  }
+
+  return NextResponse.redirect(`${getBaseUrl(req)}/subscribe?status=${status}`, 303);
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { EMAIL_PATTERN, normaliseEmail, subscribe } from "@/lib/subscribers";
+import { getBaseUrl } from "@/lib/subscribers/baseUrl";
+import { getVisitorId } from "@/lib/visitor";
+
+const MAX_EMAIL_LENGTH = 254;
+
+export async function POST(req: Request) {
+  const log = requestLogger(req, "subscribe");
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const email = typeof body?.email === "string" ? normaliseEmail(body.email) : "";
+
+    if (!EMAIL_PATTERN.test(email) || email.length > MAX_EMAIL_LENGTH) {
+      return NextResponse.json({ error: t.invalidEmail }, { status: 400 });
+    }
+
+    const visitorId = await getVisitorId();
+
+    const limited = await checkRateLimits(
+      limitsFor("subscribe", { ip: getClientIp(req.headers), visitorId }),
+      log
+    );
+
+    if (!limited.ok) {
+      return rateLimitResponse(limited, t.tooManySignups);
+    }
+
+    await subscribe(email, getBaseUrl(req));
+
+    // Same answer whether the address is new, pending or already confirmed.
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, log, "Subscribe error", { locale });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { MAX_BATCH_SIZE, validateEvent, type ValidEvent } from "@/lib/events/catalogue";
+import { recordTrackedEvents } from "@/lib/events/record";
+import { format, getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { getVisitorId } from "@/lib/visitor";
+
+export async function POST(req: Request) {
+  const log = requestLogger(req, "track/batch");
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
+  try {
+    // sendBeacon can't always set a JSON content type, so parse the raw body.
+    let body: { events?: unknown };
+    try {
+      body = JSON.parse(await req.text());
+    } catch {
+      return NextResponse.json({ error: t.invalidBatch, detail: "Invalid JSON" }, { status: 400 });
+    }
+
+    if (!Array.isArray(body?.events) || body.events.length === 0) {
+      return NextResponse.json({ error: t.invalidBatch, detail: "Missing events" }, { status: 400 });
+    }
+
+    if (body.events.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: format(t.batchTooLarge, { max: MAX_BATCH_SIZE }) },
+        { status: 413 }
+      );
+    }
+
+    const visitorId = await getVisitorId();
+
+    const limited = await checkRateLimits(
+      limitsFor("trackBatch", { ip: getClientIp(req.headers), visitorId }),
+      log
+    );
+
+    if (!limited.ok) {
+      return rateLimitResponse(limited, t.tooManyEvents);
+    }
+
+    const accepted: ValidEvent[] = [];
+    const rejected: { index: number; error: string }[] = [];
+
+    body.events.forEach((raw: unknown, index: number) => {
+      const result = validateEvent(raw);
+      if (result.ok) accepted.push(result.event);
+      else rejected.push({ index, error: result.error });
+    });
+
+    if (accepted.length === 0) {
+      return NextResponse.json({ error: t.invalidBatch, detail: "No valid events", rejected }, { status: 400 });
+    }
+
+    await recordTrackedEvents(accepted, log, visitorId);
+
+    return NextResponse.json({ success: true, accepted: accepted.length, rejected });
+  } catch (error) {
+    return errorResponse(error, log, "Track batch error", { locale });
+  }
+}
@@ -1,20 +1,44 @@
 import { NextResponse } from "next/server";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { errorResponse } from "@/lib/errors";
+import { validateEvent } from "@/lib/events/catalogue";
+import { recordTrackedEvents } from "@/lib/events/record";
+import { getMessages, requestLocale } from "@/lib/i18n";
+import { requestLogger } from "@/lib/logger";
+import {
+  checkRateLimits,
+  getClientIp,
+  limitsFor,
+  rateLimitResponse,
+} from "@/lib/rateLimit";
+import { getVisitorId } from "@/lib/visitor";
 
 export async function POST(req: Request) {
+  const log = requestLogger(req, "track");
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+
   try {
-    const { event_name } = await req.json();
+    const result = validateEvent(await req.json());
+
+    if (!result.ok) {
+      return NextResponse.json({ error: t.invalidEvent, detail: result.error }, { status: 400 });
+    }
+
+    const visitorId = await getVisitorId();
+
+    const limited = await checkRateLimits(
+      limitsFor("track", { ip: getClientIp(req.headers), visitorId }),
+      log
+    );
 
-    if (!event_name) {
-      return NextResponse.json({ error: "Missing event_name" }, { status: 400 });
+    if (!limited.ok) {
+      return rateLimitResponse(limited, t.tooManyEvents);
     }
 
-    await supabaseAdmin.from("events").insert({
-      event_name,
-    });
+    await recordTrackedEvents([result.event], log, visitorId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    return NextResponse.json({ error: "Tracking failed" }, { status: 500 });
+    return errorResponse(error, log, "Track error", { locale });
   }
-}
\ No newline at end of file
+}
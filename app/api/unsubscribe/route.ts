@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { classifyError } from "@/lib/errors";
+import { requestLogger } from "@/lib/logger";
+import { unsubscribe } from "@/lib/subscribers";
+import { getBaseUrl } from "@/lib/subscribers/baseUrl";
+
+function linkParams(req: Request) {
+  const params = new URL(req.url).searchParams;
+  return { id: params.get("id") || "", sig: params.get("sig") || "" };
+}
+
+async function handle(req: Request) {
+  const { id, sig } = linkParams(req);
+
+  try {
+    return id && sig ? await unsubscribe(id, sig) : "invalid";
+  } catch (error) {
+    requestLogger(req, "unsubscribe").error("Unsubscribe error", error, {
+      category: classifyError(error),
+    });
+    return "error";
+  }
+}
+
+// Link scanners follow every URL in an email, so opening the link only shows a
+// confirmation page; the unsubscribe itself needs the POST below.
+export async function GET(req: Request) {
+  const { id, sig } = linkParams(req);
+  const query = new URLSearchParams({ id, sig });
+  return NextResponse.redirect(`${getBaseUrl(req)}/subscribe/unsubscribe?${query}`, 303);
+}
+
+// Mail clients' one-click unsubscribe (RFC 8058) posts List-Unsubscribe=One-Click
+// and gets a bare status; the confirmation page's form goes on to the status page.
+export async function POST(req: Request) {
+  const form = await req.formData().catch(() => null);
+  const status = await handle(req);
+
+  if (form?.get("List-Unsubscribe") === "One-Click") {
+    return NextResponse.json({ status }, { status: status === "unsubscribed" ? 200 : 400 });
+  }
+
+  return NextResponse.redirect(`${getBaseUrl(req)}/subscribe?status=${status}`, 303);
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getMessages, isLocale, matchLocale } from "@/lib/i18n";
+
+// The strings the embeddable widget needs. Public and the same for everyone,
+// so any origin may read them and browsers can cache them.
+export function GET(req: Request) {
+  const requested = new URL(req.url).searchParams.get("locale");
+  const locale = isLocale(requested) ? requested : matchLocale(req.headers.get("accept-language"));
+  const t = getMessages(locale);
+
+  return NextResponse.json(
+    {
+      locale,
+      compose: {
+        label: t.compose.label,
+        hint: t.compose.hint,
+        submit: t.compose.submit,
+        submitting: t.compose.submitting,
+        emptyInput: t.compose.emptyInput,
+        genericError: t.compose.genericError,
+      },
+      reset: {
+        title: t.reset.title,
+        pattern: t.reset.pattern,
+        nextStep: t.reset.nextStep,
+        startOver: t.reset.startOver,
+      },
+      patterns: t.patterns,
+      crisis: t.crisis,
+    },
+    {
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "public, max-age=3600",
+        Vary: "Accept-Language",
+      },
+    }
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { handleGenerate } from "@/lib/generate";
+import { requestLogger } from "@/lib/logger";
+import {
+  authenticatePartner,
+  originError,
+  PARTNER_QUOTA_RULE,
+  partnerLimits,
+  partnerVisitorId,
+  preflightResponse,
+  withCors,
+} from "@/lib/partners";
+
+export function OPTIONS(req: Request) {
+  return preflightResponse(req);
+}
+
+export async function POST(req: Request) {
+  const origin = req.headers.get("origin");
+
+  try {
+    const partner = await authenticatePartner(req.headers);
+
+    if (!partner) {
+      return withCors(NextResponse.json({ error: "Invalid API key" }, { status: 401 }), origin);
+    }
+
+    // Left without CORS headers, so the browser doesn't hand the answer to the page.
+    const refused = originError(partner, origin);
+    if (refused) {
+      return NextResponse.json({ error: refused }, { status: 403 });
+    }
+
+    const response = await handleGenerate(req, {
+      route: "v1/resets",
+      visitorId: async (body) => partnerVisitorId(partner, body.user),
+      rateLimits: ({ visitorId }) => partnerLimits(partner, visitorId),
+      limitMessage: (rule) =>
+        rule === PARTNER_QUOTA_RULE ? "This API key has used its daily quota" : undefined,
+      eventProperties: { source: "api", partner_id: partner.id },
+      internal: false,
+    });
+
+    return withCors(response, origin);
+  } catch (error) {
+    return withCors(
+      errorResponse(error, requestLogger(req, "v1/resets"), "Partner auth error"),
+      origin
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { Plus_Jakarta_Sans } from "next/font/google";
+
+// Shared by the app and admin root layouts.
+export const jakarta = Plus_Jakarta_Sans({
+  subsets: ["latin"],
+});
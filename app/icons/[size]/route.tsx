@@ -0,0 +1,38 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+
+const SIZES = [192, 512];
+
+export function generateStaticParams() {
+  return SIZES.map((size) => ({ size: String(size) }));
+}
+
+// App icons for the manifest. The logo sits inside the maskable safe zone,
+// so the same image works when a launcher crops it to a circle.
+export async function GET(_req: Request, { params }: { params: Promise<{ size: string }> }) {
+  const size = Number((await params).size);
+  if (!SIZES.includes(size)) return new Response("Not found", { status: 404 });
+
+  const logo = await readFile(join(process.cwd(), "public", "mindeazy-logo.png"));
+  const logoSrc = `data:image/png;base64,${logo.toString("base64")}`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#F5F5F2",
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element -- ImageResponse renders plain elements */}
+        <img src={logoSrc} width={size * 0.6} height={size * 0.6} alt="" />
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: "/",
+    name: "Mindeazy",
+    short_name: "Mindeazy",
+    description: "Write what's on your mind and get a calm, personalized reset in seconds.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#F5F5F2",
+    theme_color: "#F5F5F2",
+    icons: [
+      { src: "/icons/192", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icons/512", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icons/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
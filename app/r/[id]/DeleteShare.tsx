@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+
+export default function DeleteShare({
+  shareId,
+  token,
+  labels,
+}: {
+  shareId: string;
+  token: string;
+  labels: { title: string; body: string; confirm: string; deleted: string; failed: string };
+}) {
+  const [status, setStatus] = useState<"idle" | "deleting" | "deleted" | "failed">("idle");
+
+  async function onDelete() {
+    setStatus("deleting");
+    try {
+      const res = await fetch(`/api/share/${shareId}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      setStatus(res.ok ? "deleted" : "failed");
+    } catch {
+      setStatus("failed");
+    }
+  }
+
+  if (status === "deleted") {
+    return (
+      <p className="rounded-2xl bg-[#F1F5EF] p-4 text-base text-[#4F7A58]">{labels.deleted}</p>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-[#E5ECE4] bg-white p-5">
+      <p className="font-semibold text-[#1E2A38]">{labels.title}</p>
+      <p className="mt-1 text-sm text-[#5F6B76]">{labels.body}</p>
+      {status === "failed" ? <p className="mt-3 text-sm text-red-700">{labels.failed}</p> : null}
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={status === "deleting"}
+        className="mt-4 rounded-[14px] bg-[#1E2A38] px-5 py-2 text-sm font-bold text-white transition hover:bg-[#263545] disabled:opacity-50"
+      >
+        {labels.confirm}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+import { getMessages, isLocale } from "@/lib/i18n";
+import { findShare, shareExcerpt } from "@/lib/share";
+
+export const alt = "A shared reset from Mindeazy";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await findShare(id);
+  const t = getMessages(isLocale(share?.locale) ? share.locale : undefined);
+  const logo = await readFile(join(process.cwd(), "public", "mindeazy-logo.png"));
+  const logoSrc = `data:image/png;base64,${logo.toString("base64")}`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: "#F5F5F2",
+          color: "#1E2A38",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", gap: 20 }}>
+          <img src={logoSrc} width={72} height={72} alt="" />
+          <div style={{ fontSize: 40, fontWeight: 700 }}>Mindeazy</div>
+          <div
+            style={{
+              marginLeft: "auto",
+              padding: "10px 24px",
+              borderRadius: 999,
+              background: "#EEF4EE",
+              color: "#5D8A67",
+              fontSize: 24,
+              fontWeight: 700,
+              textTransform: "uppercase",
+              letterSpacing: 3,
+            }}
+          >
+            {t.share.badge}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", fontSize: share ? 40 : 56, lineHeight: 1.45 }}>
+          {share ? shareExcerpt(share.text, 260) : `${t.hero.titleLine1} ${t.hero.titleLine2}`}
+        </div>
+
+        <div style={{ display: "flex", fontSize: 28, color: "#5D8A67", fontWeight: 700 }}>
+          {share ? `${t.hero.titleLine1} ${t.hero.titleLine2}` : t.hero.intro}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
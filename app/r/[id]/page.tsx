@@ -0,0 +1,126 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import Image from "next/image";
+import Link from "next/link";
+import { cache } from "react";
+import { detectLanguage } from "@/lib/i18n/detect";
+import { format, getMessages, requestLocale } from "@/lib/i18n";
+import { createLogger, resolveRequestId } from "@/lib/logger";
+import { splitParagraphs } from "@/lib/quality";
+import { findShare, recordShareEvent, shareExcerpt } from "@/lib/share";
+import { isThinkingPattern } from "@/lib/structuredReset";
+import { readVisitorId } from "@/lib/visitor";
+import DeleteShare from "./DeleteShare";
+
+// Metadata and the page both need the share; look it up once per request.
+const getShare = cache(findShare);
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ delete?: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const share = await getShare(id);
+  const t = getMessages(requestLocale(await headers())).share;
+  const title = `${t.badge} · Mindeazy`;
+  const description = share ? shareExcerpt(share.text, 160) : t.gone;
+
+  return {
+    title,
+    description,
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: "article", siteName: "Mindeazy" },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+export default async function SharedResetPage({ params, searchParams }: Props) {
+  const { id } = await params;
+  const { delete: deleteToken } = await searchParams;
+  const requestHeaders = await headers();
+  const locale = requestLocale(requestHeaders);
+  const t = getMessages(locale);
+  const share = await getShare(id);
+
+  if (share && !deleteToken) {
+    const log = createLogger(resolveRequestId(requestHeaders), { route: "share/view" });
+    await recordShareEvent(log, "share_viewed", share.id, await readVisitorId(), {
+      locale,
+    });
+  }
+
+  const cta = (
+    <Link
+      href="/"
+      className="mt-8 inline-block rounded-[18px] bg-[#5D8A67] px-6 py-3 font-bold text-white transition hover:bg-[#4F7A58]"
+    >
+      {t.share.cta}
+    </Link>
+  );
+
+  return (
+    <main className="min-h-screen bg-[#F5F5F2] px-6 py-16">
+      <div className="mx-auto max-w-2xl">
+        <div className="mb-8 flex items-center justify-center gap-3">
+          <Image src="/mindeazy-logo.png" alt={t.header.logoAlt} width={40} height={40} />
+          <span className="text-xl font-bold text-[#1E2A38]">Mindeazy</span>
+        </div>
+
+        {share ? (
+          <article className="rounded-[32px] border border-[#E5ECE4] bg-[#FAFCF8] p-8 sm:p-10">
+            <div className="inline-flex items-center gap-2 rounded-full bg-[#EEF4EE] px-5 py-2 text-sm font-bold uppercase tracking-[0.18em] text-[#4F7A58]">
+              {t.share.badge}
+            </div>
+
+            {isThinkingPattern(share.pattern) ? (
+              <p className="mt-6 text-base text-[#5F6B76]">
+                {t.reset.pattern}{" "}
+                <span className="font-semibold text-[#1E2A38]">{t.patterns[share.pattern]}</span>
+              </p>
+            ) : null}
+
+            <div lang={detectLanguage(share.text)?.code} className="mt-6 space-y-4">
+              {splitParagraphs(share.text).map((paragraph, i) => (
+                <p key={i} className="text-lg leading-relaxed text-[#1E2A38]">
+                  {paragraph}
+                </p>
+              ))}
+            </div>
+
+            <p className="mt-8 text-sm text-[#5F6B76]">
+              {format(t.share.expires, {
+                date: new Date(share.expiresAt).toLocaleDateString(locale, { dateStyle: "long" }),
+              })}
+            </p>
+
+            {deleteToken ? (
+              <div className="mt-6">
+                <DeleteShare
+                  shareId={share.id}
+                  token={deleteToken}
+                  labels={{
+                    title: t.share.deleteTitle,
+                    body: t.share.deleteBody,
+                    confirm: t.share.deleteConfirm,
+                    deleted: t.share.deleted,
+                    failed: t.share.deleteFailed,
+                  }}
+                />
+              </div>
+            ) : (
+              <div className="text-center">{cta}</div>
+            )}
+          </article>
+        ) : (
+          <div className="rounded-[32px] border border-[#E5ECE4] bg-[#FAFCF8] p-10 text-center">
+            <h1 className="text-3xl font-bold text-[#1E2A38]">{t.share.gone}</h1>
+            <p className="mt-4 text-lg leading-relaxed text-[#5F6B76]">{t.share.goneBody}</p>
+            {cta}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import { headers } from "next/headers";
+import { Analytics } from "@vercel/analytics/react";
+import { requestLocale } from "@/lib/i18n";
+import { jakarta } from "../fonts";
+import "../globals.css";
+
+// Share links stay short (/r/[id]), so the page speaks the viewer's language
+// from their cookie or browser rather than a locale segment.
+export default async function ShareLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const locale = requestLocale(await headers());
+
+  return (
+    <html lang={locale}>
+      <body className={`${jakarta.className} antialiased`}>
+        {children}
+        <Analytics />
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,18 @@
+// Runs once when the server starts, so a bad deploy fails here with the full
+// list of problems instead of on the first request that needs the setting.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { enabledFeatures, getConfig } = await import("@/lib/config");
+  const config = getConfig();
+
+  console.log(
+    JSON.stringify({
+      level: config.warnings.length ? "warn" : "info",
+      message: "Config loaded",
+      mode: config.localMode ? "local" : "live",
+      features: enabledFeatures(config),
+      warnings: config.warnings,
+    })
+  );
+}
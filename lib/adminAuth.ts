@@ -0,0 +1,49 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { getConfig } from "@/lib/config";
+
+export const ADMIN_REALM = "Mindeazy admin";
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isAdminConfigured() {
+  return getConfig().admin !== null;
+}
+
+// Accepts either `Bearer <ADMIN_SECRET>` for scripts or basic auth
+// (ADMIN_USER, default "admin", with ADMIN_SECRET as the password) for browsers.
+export function isAdminRequest(req: Request) {
+  const admin = getConfig().admin;
+  if (!admin) return false;
+
+  const header = req.headers.get("authorization") || "";
+
+  if (header.startsWith("Bearer ")) {
+    return safeEqual(header.slice("Bearer ".length), admin.secret);
+  }
+
+  if (header.startsWith("Basic ")) {
+    const decoded = Buffer.from(header.slice("Basic ".length), "base64").toString();
+    const separator = decoded.indexOf(":");
+    if (separator === -1) return false;
+
+    const user = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    const userOk = safeEqual(user, admin.user);
+    const passwordOk = safeEqual(password, admin.secret);
+    return userOk && passwordOk;
+  }
+
+  return false;
+}
+
+export function adminUnauthorized() {
+  return NextResponse.json(
+    { error: "Unauthorized" },
+    { status: 401, headers: { "WWW-Authenticate": `Basic realm="${ADMIN_REALM}"` } }
+  );
+}
@@ -0,0 +1,90 @@
+import { DAILY_EVENTS, type AdminReport } from "./report";
+
+export const CSV_REPORTS = ["daily", "funnel", "errors", "prompts", "sources", "spend"] as const;
+
+export type CsvReport = (typeof CSV_REPORTS)[number];
+
+type Cell = string | number | null;
+
+function escapeCell(value: Cell) {
+  if (value === null) return "";
+  const text = String(value);
+  // Leading =, +, - or @ would be evaluated as a formula by spreadsheet apps.
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function toCsv(header: string[], rows: Cell[][]) {
+  return [header, ...rows].map((row) => row.map(escapeCell).join(",")).join("\n") + "\n";
+}
+
+function rate(value: number | null) {
+  return value === null ? null : Number(value.toFixed(4));
+}
+
+function usd(value: number) {
+  return Number(value.toFixed(6));
+}
+
+export function reportToCsv(report: AdminReport, kind: CsvReport) {
+  switch (kind) {
+    case "daily":
+      return toCsv(
+        ["day", ...DAILY_EVENTS],
+        report.daily.map((row) => [row.day, ...DAILY_EVENTS.map((name) => row.counts[name])])
+      );
+    case "funnel":
+      return toCsv(
+        ["step", "visitors", "conversion_from_previous"],
+        report.funnel.map((row) => [row.step, row.visitors, rate(row.conversion)])
+      );
+    case "errors":
+      return toCsv(
+        ["day", "resets", "failures", "error_rate"],
+        report.errors.map((row) => [row.day, row.resets, row.failures, rate(row.errorRate)])
+      );
+    case "prompts":
+      return toCsv(
+        [
+          "prompt_version",
+          "generate_visitors",
+          "email_visitors",
+          "email_conversion",
+          "resets",
+          "failures",
+          "error_rate",
+        ],
+        report.prompts.map((row) => [
+          row.promptVersion,
+          row.generateVisitors,
+          row.emailVisitors,
+          rate(row.emailConversion),
+          row.resets,
+          row.failures,
+          rate(row.errorRate),
+        ])
+      );
+    case "sources":
+      return toCsv(
+        ["source", "reset_visitors", "resets", "failures", "error_rate"],
+        report.sources.map((row) => [
+          row.source,
+          row.resetVisitors,
+          row.resets,
+          row.failures,
+          rate(row.errorRate),
+        ])
+      );
+    case "spend":
+      return toCsv(
+        ["day", "requests", "input_tokens", "output_tokens", "cost_usd"],
+        report.spend.daily.map((row) => [
+          row.day,
+          row.requests,
+          row.inputTokens,
+          row.outputTokens,
+          usd(row.costUsd),
+        ])
+      );
+  }
+}
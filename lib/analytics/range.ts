@@ -0,0 +1,43 @@
+import type { DateRange } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 366;
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toDay(time: number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function parseDay(value: string | null | undefined) {
+  if (!value || !dayPattern.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(time) ? time : null;
+}
+
+export function parseRange(params: { from?: string | null; to?: string | null }): DateRange {
+  const to = parseDay(params.to) ?? parseDay(toDay(Date.now()))!;
+  let from = parseDay(params.from) ?? to - (DEFAULT_DAYS - 1) * DAY_MS;
+
+  if (from > to) from = to;
+  if (to - from > (MAX_DAYS - 1) * DAY_MS) from = to - (MAX_DAYS - 1) * DAY_MS;
+
+  return { from: toDay(from), to: toDay(to) };
+}
+
+// Half-open timestamp bounds for queries: [from 00:00, day after `to` 00:00).
+export function rangeBounds(range: DateRange) {
+  return {
+    start: `${range.from}T00:00:00.000Z`,
+    end: new Date(Date.parse(`${range.to}T00:00:00Z`) + DAY_MS).toISOString(),
+  };
+}
+
+export function daysIn(range: DateRange) {
+  const days: string[] = [];
+  const end = Date.parse(`${range.to}T00:00:00Z`);
+  for (let time = Date.parse(`${range.from}T00:00:00Z`); time <= end; time += DAY_MS) {
+    days.push(toDay(time));
+  }
+  return days;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { buildReport } from "./report";
+import type { DailyEventRow, EventVisitorRow } from "./types";
+
+const range = { from: "2026-10-01", to: "2026-10-01" };
+
+function event(source: string, eventName: string, events: number): DailyEventRow {
+  return { day: range.from, source, eventName, promptVersion: "reset-v1", events, visitors: events };
+}
+
+function visitor(source: string, eventName: string, visitors: number): EventVisitorRow {
+  return { source, eventName, promptVersion: null, allVersions: true, visitors };
+}
+
+describe("buildReport", () => {
+  const report = buildReport(
+    range,
+    [
+      event("app", "reset_generated", 9),
+      event("app", "generate_failed", 1),
+      event("api", "reset_generated", 40),
+      event("api", "generate_failed", 10),
+    ],
+    [
+      visitor("app", "landing_cta_click", 20),
+      visitor("app", "real_generate_click", 10),
+      visitor("app", "reset_generated", 8),
+      visitor("api", "reset_generated", 30),
+    ]
+  );
+
+  it("leaves partner API events out of the app's error rate and daily counts", () => {
+    expect(report.errors).toEqual([{ day: range.from, resets: 9, failures: 1, errorRate: 0.1 }]);
+    expect(report.daily[0].counts.reset_generated).toBe(9);
+    expect(report.prompts).toMatchObject([{ promptVersion: "reset-v1", resets: 9, failures: 1 }]);
+  });
+
+  it("keeps the funnel to app visitors", () => {
+    expect(report.funnel.map((step) => step.visitors)).toEqual([20, 10, 0]);
+  });
+
+  it.each([
+    ["api", 30, 40, 10, 0.2],
+    ["app", 8, 9, 1, 0.1],
+  ])("breaks %s traffic out by source", (source, resetVisitors, resets, failures, errorRate) => {
+    expect(report.sources).toContainEqual({ source, resetVisitors, resets, failures, errorRate });
+  });
+});
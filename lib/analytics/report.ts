@@ -0,0 +1,221 @@
+import { daysIn } from "./range";
+import { getAnalyticsSource } from "./source";
+import {
+  APP_SOURCE,
+  type DailyEventRow,
+  type DailySpendRow,
+  type DateRange,
+  type EventVisitorRow,
+} from "./types";
+
+export const FUNNEL_STEPS = [
+  "landing_cta_click",
+  "real_generate_click",
+  "email_submit_click",
+] as const;
+
+export const DAILY_EVENTS = [
+  ...FUNNEL_STEPS,
+  "reset_generated",
+  "generate_failed",
+  "mood_check_in",
+  "share_created",
+  "share_viewed",
+] as const;
+
+export type DailyCounts = {
+  day: string;
+  counts: Record<(typeof DAILY_EVENTS)[number], number>;
+};
+
+export type FunnelStep = {
+  step: (typeof FUNNEL_STEPS)[number];
+  visitors: number;
+  conversion: number | null;
+};
+
+export type ErrorRate = {
+  day: string;
+  resets: number;
+  failures: number;
+  errorRate: number | null;
+};
+
+export type PromptBreakdown = {
+  promptVersion: string;
+  generateVisitors: number;
+  emailVisitors: number;
+  emailConversion: number | null;
+  resets: number;
+  failures: number;
+  errorRate: number | null;
+};
+
+export type SourceBreakdown = {
+  source: string;
+  resetVisitors: number;
+  resets: number;
+  failures: number;
+  errorRate: number | null;
+};
+
+export type SpendTotals = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export type DailySpend = SpendTotals & { day: string };
+
+export type ModelSpend = SpendTotals & { provider: string; model: string };
+
+export type AdminReport = {
+  range: DateRange;
+  daily: DailyCounts[];
+  funnel: FunnelStep[];
+  errors: ErrorRate[];
+  prompts: PromptBreakdown[];
+  sources: SourceBreakdown[];
+  spend: { daily: DailySpend[]; models: ModelSpend[] };
+};
+
+function ratio(part: number, whole: number) {
+  return whole > 0 ? part / whole : null;
+}
+
+function sumEvents(rows: DailyEventRow[], eventName: string, match: (row: DailyEventRow) => boolean) {
+  return rows
+    .filter((row) => row.eventName === eventName && match(row))
+    .reduce((sum, row) => sum + row.events, 0);
+}
+
+function visitorsFor(rows: EventVisitorRow[], eventName: string, promptVersion?: string | null) {
+  return (
+    rows.find(
+      (row) =>
+        row.eventName === eventName &&
+        (promptVersion === undefined
+          ? row.allVersions
+          : !row.allVersions && row.promptVersion === promptVersion)
+    )?.visitors ?? 0
+  );
+}
+
+function sumSpend(rows: DailySpendRow[]): SpendTotals {
+  return rows.reduce(
+    (total, row) => ({
+      requests: total.requests + row.requests,
+      inputTokens: total.inputTokens + row.inputTokens,
+      outputTokens: total.outputTokens + row.outputTokens,
+      costUsd: total.costUsd + row.costUsd,
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+}
+
+export function buildReport(
+  range: DateRange,
+  daily: DailyEventRow[],
+  visitors: EventVisitorRow[],
+  spend: DailySpendRow[] = []
+): AdminReport {
+  const days = daysIn(range);
+
+  // Everything but the per-source table is about the app itself, so partner
+  // API traffic can't inflate its resets or dilute its funnel and error rate.
+  const sources = Array.from(new Set(daily.map((row) => row.source))).sort();
+  const sourceBreakdown = sources.map((source) => {
+    const matches = (row: { source: string }) => row.source === source;
+    const resets = sumEvents(daily, "reset_generated", matches);
+    const failures = sumEvents(daily, "generate_failed", matches);
+
+    return {
+      source,
+      resetVisitors: visitorsFor(visitors.filter(matches), "reset_generated"),
+      resets,
+      failures,
+      errorRate: ratio(failures, resets + failures),
+    };
+  });
+
+  const isApp = (row: { source: string }) => row.source === APP_SOURCE;
+  const appDaily = daily.filter(isApp);
+  const appVisitors = visitors.filter(isApp);
+
+  const dailyCounts = days.map((day) => ({
+    day,
+    counts: Object.fromEntries(
+      DAILY_EVENTS.map((name) => [name, sumEvents(appDaily, name, (row) => row.day === day)])
+    ) as DailyCounts["counts"],
+  }));
+
+  const funnel = FUNNEL_STEPS.map((step, index) => {
+    const count = visitorsFor(appVisitors, step);
+    const previous = index > 0 ? visitorsFor(appVisitors, FUNNEL_STEPS[index - 1]) : null;
+    return { step, visitors: count, conversion: previous === null ? null : ratio(count, previous) };
+  });
+
+  // Error rate is failed generations over all attempts that reached a provider.
+  const errors = dailyCounts.map(({ day, counts }) => ({
+    day,
+    resets: counts.reset_generated,
+    failures: counts.generate_failed,
+    errorRate: ratio(counts.generate_failed, counts.reset_generated + counts.generate_failed),
+  }));
+
+  const versions = Array.from(
+    new Set(appDaily.map((row) => row.promptVersion ?? "unknown"))
+  ).sort();
+
+  const prompts = versions.map((promptVersion) => {
+    const version = promptVersion === "unknown" ? null : promptVersion;
+    const matches = (row: DailyEventRow) => row.promptVersion === version;
+    const resets = sumEvents(appDaily, "reset_generated", matches);
+    const failures = sumEvents(appDaily, "generate_failed", matches);
+    const generateVisitors = visitorsFor(appVisitors, "real_generate_click", version);
+    const emailVisitors = visitorsFor(appVisitors, "email_submit_click", version);
+
+    return {
+      promptVersion,
+      generateVisitors,
+      emailVisitors,
+      emailConversion: ratio(emailVisitors, generateVisitors),
+      resets,
+      failures,
+      errorRate: ratio(failures, resets + failures),
+    };
+  });
+
+  const models = Array.from(new Set(spend.map((row) => `${row.provider}|${row.model}`)))
+    .map((key) => {
+      const [provider, model] = key.split("|");
+      const rows = spend.filter((row) => row.provider === provider && row.model === model);
+      return { provider, model, ...sumSpend(rows) };
+    })
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    range,
+    daily: dailyCounts,
+    funnel,
+    errors,
+    prompts,
+    sources: sourceBreakdown,
+    spend: {
+      daily: days.map((day) => ({ day, ...sumSpend(spend.filter((row) => row.day === day)) })),
+      models,
+    },
+  };
+}
+
+export async function getAdminReport(range: DateRange) {
+  const source = getAnalyticsSource();
+  const [daily, visitors, spend] = await Promise.all([
+    source.dailyEvents(range),
+    source.eventVisitors(range),
+    source.dailySpend(range),
+  ]);
+
+  return buildReport(range, daily, visitors, spend);
+}
@@ -0,0 +1,196 @@
+import { StorageError } from "@/lib/errors";
+import { getEventStore, readLocalRows, type StoredRow } from "@/lib/events/store";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { rangeBounds } from "./range";
+import { APP_SOURCE } from "./types";
+import type {
+  AnalyticsSource,
+  DailyEventRow,
+  DailySpendRow,
+  EventVisitorRow,
+} from "./types";
+
+type DailyEventRpcRow = {
+  day: string;
+  source: string;
+  event_name: string;
+  prompt_version: string | null;
+  events: number;
+  visitors: number;
+};
+
+type DailySpendRpcRow = {
+  day: string;
+  provider: string;
+  model: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+};
+
+type EventVisitorRpcRow = {
+  source: string;
+  event_name: string;
+  prompt_version: string | null;
+  all_versions: boolean;
+  visitors: number;
+};
+
+const supabaseAnalyticsSource: AnalyticsSource = {
+  async dailyEvents(range) {
+    const { start, end } = rangeBounds(range);
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("admin_daily_events", { p_from: start, p_to: end });
+    if (error) throw new StorageError(`Daily events query failed: ${error.message}`);
+
+    return ((data ?? []) as DailyEventRpcRow[]).map((row) => ({
+      day: row.day,
+      source: row.source,
+      eventName: row.event_name,
+      promptVersion: row.prompt_version,
+      events: Number(row.events),
+      visitors: Number(row.visitors),
+    }));
+  },
+
+  async eventVisitors(range) {
+    const { start, end } = rangeBounds(range);
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("admin_event_visitors", { p_from: start, p_to: end });
+    if (error) throw new StorageError(`Event visitors query failed: ${error.message}`);
+
+    return ((data ?? []) as EventVisitorRpcRow[]).map((row) => ({
+      source: row.source,
+      eventName: row.event_name,
+      promptVersion: row.prompt_version,
+      allVersions: row.all_versions,
+      visitors: Number(row.visitors),
+    }));
+  },
+
+  async dailySpend(range) {
+    const { start, end } = rangeBounds(range);
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("admin_daily_spend", { p_from: start, p_to: end });
+    if (error) throw new StorageError(`Daily spend query failed: ${error.message}`);
+
+    return ((data ?? []) as DailySpendRpcRow[]).map((row) => ({
+      day: row.day,
+      provider: row.provider,
+      model: row.model,
+      requests: Number(row.requests),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      costUsd: Number(row.cost_usd),
+    }));
+  },
+};
+
+function sourceOf(row: StoredRow) {
+  const properties = row.properties as Record<string, unknown> | undefined;
+  return typeof properties?.source === "string" ? properties.source : APP_SOURCE;
+}
+
+async function localEvents(range: { from: string; to: string }) {
+  const { start, end } = rangeBounds(range);
+  const rows = await readLocalRows("events");
+
+  return rows
+    .filter((row) => row.created_at >= start && row.created_at < end)
+    .map((row) => ({
+      day: row.created_at.slice(0, 10),
+      source: sourceOf(row),
+      eventName: String(row.event_name),
+      promptVersion: typeof row.prompt_version === "string" ? row.prompt_version : null,
+      visitorId: typeof row.visitor_id === "string" ? row.visitor_id : null,
+    }));
+}
+
+// Mirrors the SQL functions so the dashboard works against local mode's file store.
+const localAnalyticsSource: AnalyticsSource = {
+  async dailyEvents(range) {
+    const groups = new Map<string, DailyEventRow & { ids: Set<string> }>();
+
+    for (const event of await localEvents(range)) {
+      const key = [event.day, event.source, event.eventName, event.promptVersion].join("|");
+      const group = groups.get(key) ?? {
+        day: event.day,
+        source: event.source,
+        eventName: event.eventName,
+        promptVersion: event.promptVersion,
+        events: 0,
+        visitors: 0,
+        ids: new Set<string>(),
+      };
+      group.events += 1;
+      if (event.visitorId) group.ids.add(event.visitorId);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()].map(({ ids, ...row }) => ({ ...row, visitors: ids.size }));
+  },
+
+  async eventVisitors(range) {
+    const groups = new Map<string, EventVisitorRow & { ids: Set<string> }>();
+    const add = (
+      source: string,
+      eventName: string,
+      promptVersion: string | null,
+      allVersions: boolean,
+      id: string
+    ) => {
+      const key = [source, eventName, promptVersion, allVersions].join("|");
+      const group = groups.get(key) ?? {
+        source,
+        eventName,
+        promptVersion,
+        allVersions,
+        visitors: 0,
+        ids: new Set<string>(),
+      };
+      group.ids.add(id);
+      groups.set(key, group);
+    };
+
+    for (const event of await localEvents(range)) {
+      if (!event.visitorId) continue;
+      add(event.source, event.eventName, event.promptVersion, false, event.visitorId);
+      add(event.source, event.eventName, null, true, event.visitorId);
+    }
+
+    return [...groups.values()].map(({ ids, ...row }) => ({ ...row, visitors: ids.size }));
+  },
+
+  async dailySpend(range) {
+    const { start, end } = rangeBounds(range);
+    const groups = new Map<string, DailySpendRow>();
+
+    for (const row of await readLocalRows("llm_usage")) {
+      if (row.created_at < start || row.created_at >= end) continue;
+
+      const day = row.created_at.slice(0, 10);
+      const key = [day, row.provider, row.model].join("|");
+      const group = groups.get(key) ?? {
+        day,
+        provider: String(row.provider),
+        model: String(row.model),
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+      };
+      group.requests += 1;
+      group.inputTokens += Number(row.input_tokens) || 0;
+      group.outputTokens += Number(row.output_tokens) || 0;
+      group.costUsd += Number(row.cost_usd) || 0;
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  },
+};
+
+export function getAnalyticsSource(): AnalyticsSource {
+  return getEventStore().kind === "supabase" ? supabaseAnalyticsSource : localAnalyticsSource;
+}
@@ -0,0 +1,46 @@
+// Inclusive UTC calendar days, formatted as YYYY-MM-DD.
+export type DateRange = {
+  from: string;
+  to: string;
+};
+
+// "app" for the app's own traffic, "api" for partner calls to /api/v1. Events
+// logged before the source existed count as the app's.
+export type EventSource = string;
+
+export const APP_SOURCE: EventSource = "app";
+
+export type DailyEventRow = {
+  day: string;
+  source: EventSource;
+  eventName: string;
+  promptVersion: string | null;
+  events: number;
+  visitors: number;
+};
+
+// Distinct visitors over the whole range. `allVersions` rows are the total
+// across prompt versions, so a visitor who switched versions counts once.
+export type EventVisitorRow = {
+  source: EventSource;
+  eventName: string;
+  promptVersion: string | null;
+  allVersions: boolean;
+  visitors: number;
+};
+
+export type DailySpendRow = {
+  day: string;
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export interface AnalyticsSource {
+  dailyEvents(range: DateRange): Promise<DailyEventRow[]>;
+  eventVisitors(range: DateRange): Promise<EventVisitorRow[]>;
+  dailySpend(range: DateRange): Promise<DailySpendRow[]>;
+}
@@ -0,0 +1,248 @@
+import { ConfigError } from "@/lib/errors";
+import type { ProviderName, ProviderSettings } from "@/lib/llm/types";
+
+const PROVIDERS: ProviderName[] = ["openai", "gemini", "mock"];
+const EVENT_STORES = ["supabase", "file", "memory"] as const;
+const RATE_LIMIT_STORES = ["supabase", "memory"] as const;
+const MAIL_TRANSPORTS = ["console", "file", "resend"] as const;
+
+const LOCAL_SUBSCRIBER_SECRET = "local-subscriber-secret";
+const DEFAULT_DATA_DIR = ".local-data";
+
+export type AppConfig = {
+  localMode: boolean;
+  llm: {
+    primary: ProviderName;
+    fallback: ProviderName | null;
+    apiKeys: Record<ProviderName, string | null>;
+    overrides: Record<ProviderName, Partial<ProviderSettings>>;
+    budgetModels: Record<ProviderName, string | null>;
+    mockDelayMs: number;
+  };
+  budget: { dailyUsd: number | null; monthlyUsd: number | null };
+  supabase: { url: string; serviceRoleKey: string } | null;
+  eventStore: { kind: (typeof EVENT_STORES)[number]; dir: string };
+  rateLimitStore: (typeof RATE_LIMIT_STORES)[number];
+  mail: {
+    transport: (typeof MAIL_TRANSPORTS)[number];
+    outboxDir: string;
+    resend: { apiKey: string; from: string } | null;
+  };
+  appUrl: string | null;
+  subscriberSecret: string;
+  admin: { secret: string; user: string } | null;
+  promptAllocation: string | null;
+  moderation: boolean;
+  journalSync: boolean;
+  shareTtlDays: number;
+  warnings: string[];
+};
+
+export type FeatureFlags = Record<
+  | "mock_llm"
+  | "llm_fallback"
+  | "moderation"
+  | "prompt_experiment"
+  | "email"
+  | "journal_sync"
+  | "admin"
+  | "budget_caps",
+  boolean
+>;
+
+type Env = Record<string, string | undefined>;
+
+export class ConfigValidationError extends ConfigError {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+function isUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Collects every problem before throwing so one deploy shows the whole list.
+export function loadConfig(env: Env = process.env): AppConfig {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  const text = (name: string) => env[name]?.trim() || null;
+
+  function oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+    const value = text(name);
+    if (value === null) return fallback;
+    if ((allowed as readonly string[]).includes(value)) return value as T;
+    problems.push(`${name} must be one of ${allowed.join(", ")} (got "${value}")`);
+    return fallback;
+  }
+
+  function number(name: string, { min = 0, max = Infinity } = {}) {
+    const value = text(name);
+    if (value === null) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+      problems.push(`${name} must be a number between ${min} and ${max}`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  const appMode = text("APP_MODE");
+  if (appMode !== null && appMode !== "local") {
+    problems.push(`APP_MODE must be "local" or unset (got "${appMode}")`);
+  }
+  const localMode = appMode === "local";
+
+  const apiKeys: Record<ProviderName, string | null> = {
+    openai: text("OPENAI_API_KEY"),
+    gemini: text("GEMINI_API_KEY"),
+    mock: null,
+  };
+
+  const overrides = Object.fromEntries(
+    PROVIDERS.map((name) => {
+      const prefix = name.toUpperCase();
+      const settings: Partial<ProviderSettings> = {
+        model: text(`${prefix}_MODEL`) ?? undefined,
+        temperature: number(`${prefix}_TEMPERATURE`, { max: 2 }),
+        maxOutputTokens: number(`${prefix}_MAX_OUTPUT_TOKENS`, { min: 1, max: 32000 }),
+        timeoutMs: number(`${prefix}_TIMEOUT_MS`, { min: 1, max: 600000 }),
+      };
+      return [
+        name,
+        Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+      ];
+    })
+  ) as Record<ProviderName, Partial<ProviderSettings>>;
+
+  const budgetModels = Object.fromEntries(
+    PROVIDERS.map((name) => [name, text(`${name.toUpperCase()}_BUDGET_MODEL`)])
+  ) as Record<ProviderName, string | null>;
+
+  const primary = oneOf("LLM_PROVIDER", PROVIDERS, "openai");
+  let fallback: ProviderName | null = text("LLM_FALLBACK_PROVIDER")
+    ? oneOf("LLM_FALLBACK_PROVIDER", PROVIDERS, primary)
+    : null;
+
+  if (!localMode && primary !== "mock" && !apiKeys[primary]) {
+    problems.push(`${primary.toUpperCase()}_API_KEY is required when LLM_PROVIDER is ${primary}`);
+  }
+  if (fallback === primary) fallback = null;
+  if (fallback && fallback !== "mock" && !apiKeys[fallback]) {
+    warnings.push(`LLM fallback disabled: missing ${fallback.toUpperCase()}_API_KEY`);
+    fallback = null;
+  }
+
+  const eventStore = oneOf("EVENT_STORE", EVENT_STORES, localMode ? "file" : "supabase");
+  const rateLimitStore = oneOf(
+    "RATE_LIMIT_STORE",
+    RATE_LIMIT_STORES,
+    localMode ? "memory" : "supabase"
+  );
+
+  // Feedback, subscribers and journal sync always use Supabase outside local mode.
+  const needsSupabase =
+    !localMode || eventStore === "supabase" || rateLimitStore === "supabase";
+  const supabaseUrl = text("SUPABASE_URL");
+  const serviceRoleKey = text("SUPABASE_SERVICE_ROLE_KEY");
+  let supabase: AppConfig["supabase"] = null;
+
+  if (supabaseUrl && !isUrl(supabaseUrl)) {
+    problems.push("SUPABASE_URL must be an http(s) URL");
+  } else if (supabaseUrl && serviceRoleKey) {
+    supabase = { url: supabaseUrl, serviceRoleKey };
+  } else if (needsSupabase) {
+    problems.push("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required outside local mode");
+  }
+
+  const transport = oneOf("MAIL_TRANSPORT", MAIL_TRANSPORTS, "console");
+  const resendApiKey = text("RESEND_API_KEY");
+  const mailFrom = text("MAIL_FROM");
+  if (transport === "resend" && (!resendApiKey || !mailFrom)) {
+    problems.push("RESEND_API_KEY and MAIL_FROM are required when MAIL_TRANSPORT is resend");
+  }
+
+  const appUrl = text("APP_URL");
+  if (appUrl && !isUrl(appUrl)) problems.push("APP_URL must be an http(s) URL");
+
+  const subscriberSecret =
+    text("SUBSCRIBER_SECRET") ?? (localMode ? LOCAL_SUBSCRIBER_SECRET : null);
+  if (!subscriberSecret) problems.push("SUBSCRIBER_SECRET is required outside local mode");
+
+  const adminSecret = text("ADMIN_SECRET");
+  const moderation = env.SAFETY_MODERATION === "true";
+  if (moderation && !apiKeys.openai) {
+    warnings.push("SAFETY_MODERATION is on but OPENAI_API_KEY is missing; moderation is off");
+  }
+
+  const mockDelayMs = number("MOCK_STREAM_DELAY_MS") ?? 15;
+  const shareTtlDays = number("SHARE_TTL_DAYS", { min: 1, max: 365 }) ?? 30;
+  const budget = {
+    dailyUsd: number("BUDGET_DAILY_USD") ?? null,
+    monthlyUsd: number("BUDGET_MONTHLY_USD") ?? null,
+  };
+  const budgetProvider = localMode ? "mock" : primary;
+  if ((budget.dailyUsd !== null || budget.monthlyUsd !== null) && !budgetModels[budgetProvider]) {
+    warnings.push(
+      `No ${budgetProvider.toUpperCase()}_BUDGET_MODEL; generation pauses once a budget cap is reached`
+    );
+  }
+
+  if (problems.length > 0) throw new ConfigValidationError(problems);
+
+  return {
+    localMode,
+    llm: {
+      primary,
+      fallback,
+      apiKeys,
+      overrides,
+      budgetModels,
+      mockDelayMs,
+    },
+    budget,
+    supabase,
+    eventStore: { kind: eventStore, dir: text("EVENT_STORE_DIR") ?? DEFAULT_DATA_DIR },
+    rateLimitStore,
+    mail: {
+      transport,
+      outboxDir: text("MAIL_OUTBOX_DIR") ?? DEFAULT_DATA_DIR,
+      resend: resendApiKey && mailFrom ? { apiKey: resendApiKey, from: mailFrom } : null,
+    },
+    appUrl: appUrl?.replace(/\/$/, "") ?? null,
+    subscriberSecret: subscriberSecret as string,
+    admin: adminSecret ? { secret: adminSecret, user: text("ADMIN_USER") ?? "admin" } : null,
+    promptAllocation: text("PROMPT_ALLOCATION"),
+    moderation: moderation && !localMode && !!apiKeys.openai,
+    journalSync: env.NEXT_PUBLIC_JOURNAL_SYNC === "true",
+    shareTtlDays,
+    warnings,
+  };
+}
+
+let cached: AppConfig | null = null;
+
+export function getConfig() {
+  cached ??= loadConfig();
+  return cached;
+}
+
+export function enabledFeatures(config: AppConfig): FeatureFlags {
+  return {
+    mock_llm: config.localMode || config.llm.primary === "mock",
+    llm_fallback: config.llm.fallback !== null,
+    moderation: config.moderation,
+    prompt_experiment: config.promptAllocation !== null,
+    email: config.mail.transport !== "console",
+    journal_sync: config.journalSync,
+    admin: config.admin !== null,
+    budget_caps: config.budget.dailyUsd !== null || config.budget.monthlyUsd !== null,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { HISTORY_LIMITS, parseHistory, trimHistory, type ConversationTurn } from "./conversation";
+
+const user = (content: string) => ({ role: "user", content });
+const assistant = (content: string) => ({ role: "assistant", content });
+
+describe("parseHistory", () => {
+  it.each([
+    ["missing", undefined, []],
+    ["null", null, []],
+    ["empty", [], []],
+    ["one exchange", [user("first"), assistant("reply")], [user("first"), assistant("reply")]],
+    ["padded text", [user("  first \n"), assistant(" reply ")], [user("first"), assistant("reply")]],
+  ])("accepts %s history", (_, raw, expected) => {
+    expect(parseHistory(raw)).toEqual(expected);
+  });
+
+  it.each([
+    ["a string", "first, then reply"],
+    ["an object", { 0: user("first") }],
+    ["a null turn", [null, assistant("reply")]],
+    ["a turn without content", [{ role: "user" }, assistant("reply")]],
+    ["content that isn't text", [{ role: "user", content: 42 }, assistant("reply")]],
+    ["blank content", [user("   "), assistant("reply")]],
+    ["an unknown role", [{ role: "system", content: "be brief" }, assistant("reply")]],
+    ["an assistant turn first", [assistant("reply"), user("first")]],
+    ["two user turns in a row", [user("first"), user("second")]],
+    ["a trailing user turn", [user("first"), assistant("reply"), user("second")]],
+  ])("rejects %s", (_, raw) => {
+    expect(parseHistory(raw)).toBeNull();
+  });
+
+  it("cuts each message to the character limit", () => {
+    const long = "a".repeat(HISTORY_LIMITS.maxMessageChars + 50);
+    const [turn] = parseHistory([user(long), assistant("reply")]) ?? [];
+
+    expect(turn.content).toHaveLength(HISTORY_LIMITS.maxMessageChars);
+  });
+});
+
+describe("trimHistory", () => {
+  // Each exchange is 8 + 8 characters: 2 + 2 estimated tokens.
+  const exchanges = (count: number): ConversationTurn[] =>
+    Array.from({ length: count }, (_, i) => [
+      { role: "user" as const, content: `user ${i}`.padEnd(8, ".") },
+      { role: "assistant" as const, content: `bot ${i}`.padEnd(8, ".") },
+    ]).flat();
+
+  it.each([
+    ["fits both limits", 3, { maxMessages: 8, maxTokens: 100 }, 0],
+    ["has too many messages", 5, { maxMessages: 6, maxTokens: 100 }, 4],
+    ["has too many tokens", 4, { maxMessages: 20, maxTokens: 9 }, 4],
+    ["breaks both limits", 6, { maxMessages: 8, maxTokens: 5 }, 10],
+    ["can't fit a single exchange", 2, { maxMessages: 8, maxTokens: 3 }, 4],
+  ])("when the history %s", (_, count, limits, dropped) => {
+    const turns = exchanges(count);
+    const trimmed = trimHistory(turns, limits);
+
+    expect(trimmed.dropped).toBe(dropped);
+    expect(trimmed.turns).toEqual(turns.slice(dropped));
+  });
+
+  it("drops whole exchanges so the history still starts with the person", () => {
+    const { turns } = trimHistory(exchanges(5), { maxMessages: 5, maxTokens: 100 });
+
+    expect(turns).toHaveLength(4);
+    expect(turns[0]).toMatchObject({ role: "user", content: expect.stringMatching(/^user 3/) });
+  });
+});
@@ -0,0 +1,59 @@
+export type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export const MAX_INPUT_CHARS = 2000;
+export const MAX_BODY_BYTES = 64 * 1024;
+
+export const HISTORY_LIMITS = {
+  maxMessages: 8,
+  maxTokens: 2000,
+  maxMessageChars: 4000,
+  maxFollowUps: 5,
+};
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function parseHistory(raw: unknown): ConversationTurn[] | null {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) return null;
+
+  const turns: ConversationTurn[] = [];
+
+  for (const [index, item] of raw.entries()) {
+    const role = item?.role;
+    const content = typeof item?.content === "string" ? item.content.trim() : "";
+    const expected = index % 2 === 0 ? "user" : "assistant";
+
+    if (role !== expected || !content) return null;
+
+    turns.push({ role, content: content.slice(0, HISTORY_LIMITS.maxMessageChars) });
+  }
+
+  // History must end on an assistant reply; the new input is the next user turn.
+  if (turns.length % 2 !== 0) return null;
+
+  return turns;
+}
+
+// Drops the oldest user/assistant pairs until the history fits both limits.
+export function trimHistory(
+  turns: ConversationTurn[],
+  limits: { maxMessages: number; maxTokens: number } = HISTORY_LIMITS
+) {
+  let start = 0;
+  const tokensFrom = (from: number) =>
+    turns.slice(from).reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+
+  while (
+    start < turns.length &&
+    (turns.length - start > limits.maxMessages || tokensFrom(start) > limits.maxTokens)
+  ) {
+    start += 2;
+  }
+
+  return { turns: turns.slice(start), dropped: start };
+}
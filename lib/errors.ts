@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { ProviderError } from "@/lib/llm/types";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/lib/i18n";
+import { describeError, REQUEST_ID_HEADER, type Logger } from "@/lib/logger";
+
+export type ErrorCategory =
+  | "validation"
+  | "upstream_timeout"
+  | "upstream_rate_limit"
+  | "upstream_unavailable"
+  | "refusal"
+  | "config_missing"
+  | "storage"
+  | "over_budget"
+  | "internal";
+
+type CategoryResponse = { status: number; retryAfter?: number };
+
+// What the client reads for each category lives in the message catalogues.
+export const ERROR_RESPONSES: Record<ErrorCategory, CategoryResponse> = {
+  validation: { status: 400 },
+  upstream_timeout: { status: 504 },
+  upstream_rate_limit: { status: 503, retryAfter: 60 },
+  upstream_unavailable: { status: 502 },
+  refusal: { status: 422 },
+  config_missing: { status: 503 },
+  storage: { status: 503 },
+  over_budget: { status: 503 },
+  internal: { status: 500 },
+};
+
+export class AppError extends Error {
+  constructor(
+    readonly category: ErrorCategory,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "AppError";
+  }
+}
+
+export class StorageError extends AppError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super("storage", message, options);
+    this.name = "StorageError";
+  }
+}
+
+export class ConfigError extends AppError {
+  constructor(message: string) {
+    super("config_missing", message);
+    this.name = "ConfigError";
+  }
+}
+
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof AppError) return error.category;
+  if (error instanceof SyntaxError) return "validation";
+
+  if (error instanceof ProviderError) {
+    switch (error.reason) {
+      case "timeout":
+        return "upstream_timeout";
+      case "rate_limit":
+        return "upstream_rate_limit";
+      case "refusal":
+        return "refusal";
+      case "server":
+        return "upstream_unavailable";
+      default:
+        return "internal";
+    }
+  }
+
+  return "internal";
+}
+
+// The body the client sees for a failure; the request id lets support find the logs.
+export function errorBody(
+  category: ErrorCategory,
+  requestId: string,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return { error: getMessages(locale).errors[category], category, requestId };
+}
+
+export function errorResponse(
+  error: unknown,
+  log: Logger,
+  message: string,
+  { detail, locale }: { detail?: string; locale?: Locale } = {}
+) {
+  const category = classifyError(error);
+  const { status, retryAfter } = ERROR_RESPONSES[category];
+
+  // Client mistakes are worth a trace but shouldn't page anyone.
+  if (status < 500) {
+    log.warn(message, { category, error: detail ?? describeError(error) });
+  } else {
+    log.error(message, error, { category, ...(detail ? { error: detail } : {}) });
+  }
+
+  const headers: Record<string, string> = { [REQUEST_ID_HEADER]: log.requestId };
+  if (retryAfter) headers["Retry-After"] = String(retryAfter);
+
+  return NextResponse.json(errorBody(category, log.requestId, locale), { status, headers });
+}
@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  GenerateRequest,
+  GenerateResult,
+  LLMProvider,
+  ProviderName,
+  TokenUsage,
+} from "@/lib/llm";
+
+// live calls the model, record calls it and saves each response, replay only
+// reads saved responses so evals run offline and in CI.
+export const FIXTURE_MODES = ["live", "record", "replay"] as const;
+
+export type FixtureMode = (typeof FIXTURE_MODES)[number];
+
+export type ModelTarget = { provider: ProviderName; model: string };
+
+type Fixture = { text: string; usage?: TokenUsage };
+
+type FixtureFile = Record<string, Fixture>;
+
+export class FixtureMissError extends Error {
+  constructor(
+    readonly target: ModelTarget,
+    readonly key: string
+  ) {
+    super(
+      `No recorded response for ${target.provider}:${target.model} (${key}); run the eval with --fixtures record`
+    );
+    this.name = "FixtureMissError";
+  }
+}
+
+export type FixtureStore = {
+  mode: FixtureMode;
+  generate(
+    provider: LLMProvider | null,
+    target: ModelTarget,
+    request: GenerateRequest
+  ): Promise<GenerateResult>;
+  save(): Promise<void>;
+};
+
+// The signal is left out so the same prompt always maps to the same fixture.
+export function fixtureKey({ messages, params }: GenerateRequest) {
+  return createHash("sha256")
+    .update(JSON.stringify({ messages, params: params ?? {} }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function fileName({ provider, model }: ModelTarget) {
+  return `${provider}__${model.replace(/[^a-zA-Z0-9.-]/g, "_")}.json`;
+}
+
+export function createFixtureStore(dir: string, mode: FixtureMode): FixtureStore {
+  const files = new Map<string, FixtureFile>();
+  const dirty = new Set<string>();
+
+  async function load(target: ModelTarget) {
+    const name = fileName(target);
+    let file = files.get(name);
+
+    if (!file) {
+      const text = await readFile(path.join(dir, name), "utf8").catch(() => "{}");
+      file = JSON.parse(text) as FixtureFile;
+      files.set(name, file);
+    }
+
+    return { name, file };
+  }
+
+  return {
+    mode,
+
+    async generate(provider, target, request) {
+      const key = fixtureKey(request);
+
+      if (mode === "replay") {
+        const { file } = await load(target);
+        const fixture = file[key];
+        if (!fixture) throw new FixtureMissError(target, key);
+        return { ...fixture, ...target };
+      }
+
+      if (!provider) {
+        throw new Error(`${target.provider} is not configured; set its API key or use --fixtures replay`);
+      }
+
+      const result = await provider.generate(request);
+
+      if (mode === "record") {
+        const { name, file } = await load(target);
+        file[key] = { text: result.text, usage: result.usage };
+        dirty.add(name);
+      }
+
+      return result;
+    },
+
+    async save() {
+      if (dirty.size === 0) return;
+      await mkdir(dir, { recursive: true });
+
+      for (const name of dirty) {
+        const file = files.get(name) ?? {};
+        const sorted = Object.fromEntries(
+          Object.keys(file)
+            .sort()
+            .map((key) => [key, file[key]])
+        );
+        await writeFile(path.join(dir, name), `${JSON.stringify(sorted, null, 2)}\n`);
+      }
+
+      dirty.clear();
+    },
+  };
+}
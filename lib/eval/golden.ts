@@ -0,0 +1,98 @@
+import type { ResetModeId } from "@/lib/prompts/modes";
+import type { ThinkingPattern } from "@/lib/structuredReset";
+
+// The branches of CASE LOGIC in the reset prompt.
+export type EvalCase = "fear" | "overwhelm" | "regret" | "shame" | "analysis_trap";
+
+export type GoldenInput = {
+  id: string;
+  case: EvalCase;
+  mode: ResetModeId;
+  input: string;
+  // Any of these counts as reading the message correctly.
+  expectedPatterns: ThinkingPattern[];
+};
+
+// Keep ids stable: recorded fixtures and past reports are keyed by them.
+export const GOLDEN_INPUTS: GoldenInput[] = [
+  {
+    id: "fear-biopsy",
+    case: "fear",
+    mode: "standard",
+    input:
+      "My doctor wants a biopsy and the results take ten days. I keep imagining the worst and planning what happens to my kids if it's cancer.",
+    expectedPatterns: ["worst_case_thinking", "possibility_as_reality", "uncertainty_as_danger"],
+  },
+  {
+    id: "fear-layoffs",
+    case: "fear",
+    mode: "bedtime",
+    input:
+      "There are rumours of layoffs and my manager cancelled our one-to-one. It's midnight and I'm scared I'll lose my job and the flat with it.",
+    expectedPatterns: ["worst_case_thinking", "fear_of_uncertainty", "uncertainty_as_danger"],
+  },
+  {
+    id: "overwhelm-move",
+    case: "overwhelm",
+    mode: "standard",
+    input:
+      "We move house on Friday, I have a deadline Thursday, my mum is in hospital and the car failed its inspection. I can't even decide what to do first.",
+    expectedPatterns: ["emotional_overwhelm", "false_urgency"],
+  },
+  {
+    id: "overwhelm-inbox",
+    case: "overwhelm",
+    mode: "quick",
+    input:
+      "Back from leave to 400 emails, three projects on fire and everyone wants an answer today. I'm drowning.",
+    expectedPatterns: ["emotional_overwhelm", "false_urgency"],
+  },
+  {
+    id: "regret-message",
+    case: "regret",
+    mode: "standard",
+    input:
+      "I sent my best friend a harsh message after a fight a year ago and we haven't spoken since. I keep replaying it and wishing I'd just called her.",
+    expectedPatterns: ["regret", "mental_replay", "self_blame"],
+  },
+  {
+    id: "regret-offer",
+    case: "regret",
+    mode: "deeper",
+    input:
+      "I turned down a job offer two years ago to stay near my partner, and we broke up six months later. I should have taken it. Everything would be different now.",
+    expectedPatterns: ["regret", "mental_replay", "moment_as_whole_story"],
+  },
+  {
+    id: "shame-thirty",
+    case: "shame",
+    mode: "standard",
+    input:
+      "I'm 34, renting, single and still junior at work. Everyone else from uni has a house and kids. I feel like such a failure and so far behind.",
+    expectedPatterns: ["comparison_pressure", "shame"],
+  },
+  {
+    id: "shame-presentation",
+    case: "shame",
+    mode: "quick",
+    input:
+      "I froze halfway through my presentation and had to read from my notes. Everyone saw it. I'm so embarrassed I don't want to go back in tomorrow.",
+    expectedPatterns: ["shame", "self_blame", "moment_as_whole_story"],
+  },
+  {
+    id: "analysis-text",
+    case: "analysis_trap",
+    mode: "standard",
+    input:
+      "He replied 'ok.' to my long message and I've spent two hours working out what it means, rereading everything, and I still can't stop thinking about it.",
+    expectedPatterns: ["overthinking_loop", "spiraling"],
+  },
+  {
+    id: "analysis-decision",
+    case: "analysis_trap",
+    mode: "bedtime",
+    input:
+      "I keep going over whether to move cities. Pros and cons lists, spreadsheets, asking everyone. Why do I keep thinking about it when I never get closer to an answer?",
+    expectedPatterns: ["overthinking_loop", "spiraling"],
+  },
+];
@@ -0,0 +1,6 @@
+export * from "./fixtures";
+export * from "./golden";
+export * from "./judge";
+export * from "./report";
+export * from "./rules";
+export * from "./run";
@@ -0,0 +1,86 @@
+import type { GenerateRequest, GenerateResult } from "@/lib/llm";
+import type { EvalCase, GoldenInput } from "./golden";
+
+export const JUDGE_CRITERIA = {
+  understood: "Names what this person's mind is doing, specific to their message",
+  meaning: "Loosens the meaning they attach to the feeling instead of only comforting",
+  relief: "Lowers urgency and pressure; leaves them calmer and more in control",
+  case_fit: "Follows the guidance for this kind of message",
+  voice: "Sounds like a steady, warm person; not a therapist, template or self-help book",
+} as const;
+
+export type JudgeCriterion = keyof typeof JUDGE_CRITERIA;
+
+export type JudgeScore = {
+  scores: Record<JudgeCriterion, number>;
+  // Mean of the criteria, 1 to 5.
+  overall: number;
+  comment: string;
+};
+
+// Condensed from CASE LOGIC in the reset prompt.
+const caseGuidance: Record<EvalCase, string> = {
+  fear: "Show the mind jumping ahead, separate possibility from reality, reduce the sense of danger, no need for certainty now.",
+  overwhelm:
+    "Show everything being treated as equally urgent, reduce mental load, shrink focus to one small next point, few steps.",
+  regret:
+    "Show the mind replaying the past to fix it, separate one moment from the whole story, reduce self-blame, return to what is in their control.",
+  shame:
+    "Show how pressure and comparison shape the feeling, reduce self-judgment, separate worth from emotion, keep it gentle and light.",
+  analysis_trap:
+    "Keep explanation short, give a brief interruption to the loop, help them stop solving the feeling with more thought.",
+};
+
+const criteria = Object.keys(JUDGE_CRITERIA) as JudgeCriterion[];
+
+export function judgeRequest(golden: GoldenInput, reset: string): GenerateRequest {
+  return {
+    messages: [
+      {
+        role: "system",
+        content: `
+You review short "resets" written for someone caught in an anxious or spiraling thought.
+
+Score the reset from 1 (poor) to 5 (excellent) on each criterion:
+${criteria.map((key) => `- ${key}: ${JUDGE_CRITERIA[key]}`).join("\n")}
+
+Guidance for this kind of message (${golden.case}): ${caseGuidance[golden.case]}
+
+Reply with only a JSON object, for example:
+{${criteria.map((key) => `"${key}": 3`).join(", ")}, "comment": "<one sentence>"}
+`.trim(),
+      },
+      {
+        role: "user",
+        content: `Their message:\n${golden.input}\n\nThe reset:\n${reset}`,
+      },
+    ],
+    params: { temperature: 0, maxOutputTokens: 300 },
+  };
+}
+
+// Null when the judge didn't return a usable score for every criterion.
+export function parseJudgeScore(result: GenerateResult): JudgeScore | null {
+  const start = result.text.indexOf("{");
+  const end = result.text.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+
+  try {
+    const value = JSON.parse(result.text.slice(start, end + 1)) as Record<string, unknown>;
+    const scores = {} as Record<JudgeCriterion, number>;
+
+    for (const key of criteria) {
+      const score = Number(value[key]);
+      if (!Number.isInteger(score) || score < 1 || score > 5) return null;
+      scores[key] = score;
+    }
+
+    return {
+      scores,
+      overall: criteria.reduce((sum, key) => sum + scores[key], 0) / criteria.length,
+      comment: typeof value.comment === "string" ? value.comment.trim().slice(0, 240) : "",
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,215 @@
+import type { CaseResult, VariantRun } from "./run";
+
+export type VariantSummary = {
+  cases: number;
+  errors: number;
+  firstPassRate: number | null;
+  passRate: number | null;
+  meanFirstScore: number | null;
+  lengthRate: number | null;
+  patternRate: number | null;
+  regenerated: number;
+  repaired: number;
+  judgeMean: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+};
+
+export type EvalReport = {
+  createdAt: string;
+  base: VariantRun;
+  candidate: VariantRun | null;
+  regressions: string[];
+};
+
+// A drop in the judge's mean smaller than this is treated as noise.
+const JUDGE_TOLERANCE = 0.25;
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function rate(results: CaseResult[], test: (result: CaseResult) => boolean) {
+  return results.length ? results.filter(test).length / results.length : null;
+}
+
+export function summarize(run: VariantRun): VariantSummary {
+  const completed = run.results.filter((result) => result.final);
+  const costs = run.results.map((result) => result.costUsd);
+
+  return {
+    cases: run.results.length,
+    errors: run.results.length - completed.length,
+    firstPassRate: rate(run.results, (result) => !!result.firstPass?.passed),
+    passRate: rate(run.results, (result) => !!result.final?.passed),
+    meanFirstScore: mean(completed.map((result) => result.firstPass?.score ?? 0)),
+    lengthRate: rate(completed, (result) => !!result.final?.lengthOk),
+    patternRate: rate(completed, (result) => !!result.final?.patternMatch),
+    regenerated: run.results.filter((result) => result.action === "regenerated").length,
+    repaired: run.results.filter((result) => result.action === "repaired").length,
+    judgeMean: mean(
+      run.results.flatMap((result) => (result.judge ? [result.judge.overall] : []))
+    ),
+    inputTokens: run.results.reduce((sum, result) => sum + result.usage.inputTokens, 0),
+    outputTokens: run.results.reduce((sum, result) => sum + result.usage.outputTokens, 0),
+    costUsd: costs.some((cost) => cost === null)
+      ? null
+      : costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0),
+  };
+}
+
+// What makes a candidate worse than the base; CI fails when this isn't empty.
+export function findRegressions(base: VariantRun, candidate: VariantRun) {
+  const before = summarize(base);
+  const after = summarize(candidate);
+  const regressions: string[] = [];
+
+  if (after.errors > before.errors) {
+    regressions.push(`errors rose from ${before.errors} to ${after.errors}`);
+  }
+  if ((after.firstPassRate ?? 0) < (before.firstPassRate ?? 0)) {
+    regressions.push(
+      `first-pass rule pass rate fell from ${percent(before.firstPassRate)} to ${percent(after.firstPassRate)}`
+    );
+  }
+  if (
+    before.judgeMean !== null &&
+    after.judgeMean !== null &&
+    after.judgeMean < before.judgeMean - JUDGE_TOLERANCE
+  ) {
+    regressions.push(
+      `judge mean fell from ${before.judgeMean.toFixed(2)} to ${after.judgeMean.toFixed(2)}`
+    );
+  }
+
+  return regressions;
+}
+
+function percent(value: number | null) {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function fixed(value: number | null, digits = 1) {
+  return value === null ? "–" : value.toFixed(digits);
+}
+
+function usd(value: number | null) {
+  return value === null ? "unknown" : `$${value.toFixed(4)}`;
+}
+
+function cell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function caseCell(result: CaseResult | undefined) {
+  if (!result) return "–";
+  if (!result.final) return `error: ${cell(result.error ?? "unknown")}`;
+
+  const first = result.firstPass;
+  const parts = [
+    `${first?.passed ? "pass" : "fail"} ${first?.score ?? 0}`,
+    result.judge ? `judge ${result.judge.overall.toFixed(1)}` : null,
+    `${result.final.words}w`,
+    first?.violations.length ? cell(first.violations.join("; ")) : null,
+  ];
+
+  return parts.filter(Boolean).join(", ");
+}
+
+function summaryRows(base: VariantSummary, candidate: VariantSummary | null) {
+  const rows: [string, (summary: VariantSummary) => string][] = [
+    ["First-pass rule pass rate", (s) => percent(s.firstPassRate)],
+    ["Final pass rate (after retry/repair)", (s) => percent(s.passRate)],
+    ["Mean first-pass rule score", (s) => fixed(s.meanFirstScore)],
+    ["Length in range", (s) => percent(s.lengthRate)],
+    ["Expected pattern", (s) => percent(s.patternRate)],
+    ["Regenerated / repaired", (s) => `${s.regenerated} / ${s.repaired}`],
+    ["Judge mean (1–5)", (s) => fixed(s.judgeMean, 2)],
+    ["Errors", (s) => String(s.errors)],
+    ["Tokens in / out", (s) => `${s.inputTokens} / ${s.outputTokens}`],
+    ["Estimated cost", (s) => usd(s.costUsd)],
+  ];
+
+  return rows.map(([label, format]) =>
+    candidate
+      ? `| ${label} | ${format(base)} | ${format(candidate)} |`
+      : `| ${label} | ${format(base)} |`
+  );
+}
+
+function describeRun(run: VariantRun) {
+  return `${run.label} (prompt ${run.promptVersion}, ${run.provider}:${run.model})`;
+}
+
+export function reportMarkdown({ createdAt, base, candidate, regressions }: EvalReport) {
+  const baseSummary = summarize(base);
+  const candidateSummary = candidate && summarize(candidate);
+  const header = candidate
+    ? "| | Base | Candidate |\n| --- | --- | --- |"
+    : "| | Base |\n| --- | --- |";
+  const caseHeader = candidate
+    ? "| Case | Id | Mode | Base | Candidate |\n| --- | --- | --- | --- | --- |"
+    : "| Case | Id | Mode | Base |\n| --- | --- | --- | --- |";
+
+  const lines = [
+    `# Reset eval, ${createdAt}`,
+    "",
+    `- Base: ${describeRun(base)}`,
+    candidate ? `- Candidate: ${describeRun(candidate)}` : null,
+    "",
+    header,
+    ...summaryRows(baseSummary, candidateSummary),
+    "",
+  ];
+
+  if (candidate) {
+    lines.push(
+      regressions.length
+        ? `**Regressions:** ${regressions.join("; ")}.`
+        : "No regressions against the base.",
+      ""
+    );
+  }
+
+  lines.push(
+    "## Cases",
+    "",
+    "First-pass result and rule score, judge mean, final word count and first-pass rule violations.",
+    "",
+    caseHeader,
+    ...base.results.map((result) => {
+      const cells = [result.case, result.id, result.mode, caseCell(result)];
+      if (candidate) cells.push(caseCell(candidate.results.find((other) => other.id === result.id)));
+      return `| ${cells.join(" | ")} |`;
+    }),
+    "",
+    "## Outputs",
+    ""
+  );
+
+  for (const result of base.results) {
+    const other = candidate?.results.find((entry) => entry.id === result.id);
+    lines.push(`### ${result.id}`, "");
+
+    for (const [label, entry] of [
+      ["Base", result],
+      ["Candidate", other],
+    ] as const) {
+      if (!entry) continue;
+      lines.push(`**${label}**`, "");
+      lines.push(
+        entry.output
+          ? entry.output
+              .split("\n")
+              .map((line) => `> ${line}`)
+              .join("\n")
+          : `_${entry.error ?? "No output"}_`,
+        ""
+      );
+      if (entry.judge?.comment) lines.push(`Judge: ${entry.judge.comment}`, "");
+    }
+  }
+
+  return lines.filter((line) => line !== null).join("\n");
+}
@@ -0,0 +1,45 @@
+import { RESET_MODES } from "@/lib/prompts/modes";
+import { checkResetQuality, splitParagraphs, type QualityReport } from "@/lib/quality";
+import type { StructuredReset } from "@/lib/structuredReset";
+import type { GoldenInput } from "./golden";
+
+export type RuleScore = {
+  passed: boolean;
+  score: number;
+  paragraphs: number;
+  words: number;
+  lengthOk: boolean;
+  patternMatch: boolean;
+  violations: string[];
+};
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function describe(report: QualityReport) {
+  return report.violations.map((violation) => `${violation.rule}: ${violation.detail}`);
+}
+
+export function scoreRules(golden: GoldenInput, reset: StructuredReset): RuleScore {
+  const mode = RESET_MODES[golden.mode];
+  const quality = checkResetQuality(reset.text, mode.paragraphs);
+  const words = countWords(reset.text);
+  const limits = mode.words;
+  const lengthOk = words >= limits.min && words <= limits.max;
+  const patternMatch = reset.pattern !== null && golden.expectedPatterns.includes(reset.pattern);
+
+  const violations = describe(quality);
+  if (!lengthOk) violations.push(`length: ${words} words`);
+  if (!patternMatch) violations.push(`pattern: ${reset.pattern ?? "none"}`);
+
+  return {
+    passed: quality.passed && lengthOk,
+    score: Math.max(0, quality.score - (lengthOk ? 0 : 20) - (patternMatch ? 0 : 10)),
+    paragraphs: splitParagraphs(reset.text).length,
+    words,
+    lengthOk,
+    patternMatch,
+    violations,
+  };
+}
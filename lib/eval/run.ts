@@ -0,0 +1,163 @@
+import { detectLanguage } from "@/lib/i18n/detect";
+import type { GenerateRequest, LLMProvider, TokenUsage } from "@/lib/llm";
+import type { PromptVersion } from "@/lib/prompts";
+import { buildResetMessages } from "@/lib/prompts/messages";
+import { modeParams, modeShape, RESET_MODES } from "@/lib/prompts/modes";
+import { redact, restore } from "@/lib/redaction";
+import { generateCheckedReset, type QualityAction } from "@/lib/resetPipeline";
+import { parseStructuredReset } from "@/lib/structuredReset";
+import { estimateCost } from "@/lib/usage/prices";
+import { FixtureMissError, type FixtureStore, type ModelTarget } from "./fixtures";
+import type { EvalCase, GoldenInput } from "./golden";
+import { judgeRequest, parseJudgeScore, type JudgeScore } from "./judge";
+import { scoreRules, type RuleScore } from "./rules";
+
+export type EvalModel = {
+  target: ModelTarget;
+  // Null when replaying fixtures without the provider's key.
+  client: LLMProvider | null;
+};
+
+export type EvalVariant = {
+  label: string;
+  prompt: PromptVersion;
+  model: EvalModel;
+};
+
+export type CaseResult = {
+  id: string;
+  case: EvalCase;
+  mode: string;
+  output: string | null;
+  error: string | null;
+  // Scored before the quality retry and repair, so it reflects the prompt itself.
+  firstPass: RuleScore | null;
+  final: RuleScore | null;
+  action: QualityAction | null;
+  judge: JudgeScore | null;
+  usage: TokenUsage;
+  costUsd: number | null;
+  latencyMs: number;
+};
+
+export type VariantRun = {
+  label: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  results: CaseResult[];
+};
+
+type RunOptions = {
+  fixtures: FixtureStore;
+  judge?: EvalModel;
+  onCase?: (result: CaseResult) => void;
+};
+
+function addCost(total: number | null, cost: number | null) {
+  return total === null || cost === null ? null : total + cost;
+}
+
+async function runCase(
+  variant: EvalVariant,
+  golden: GoldenInput,
+  { fixtures, judge }: RunOptions
+): Promise<CaseResult> {
+  const mode = RESET_MODES[golden.mode];
+  const { text: input, placeholders } = redact(golden.input);
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let costUsd: number | null = 0;
+  let firstPass: RuleScore | null = null;
+  const started = Date.now();
+
+  const result: CaseResult = {
+    id: golden.id,
+    case: golden.case,
+    mode: golden.mode,
+    output: null,
+    error: null,
+    firstPass: null,
+    final: null,
+    action: null,
+    judge: null,
+    usage,
+    costUsd: null,
+    latencyMs: 0,
+  };
+
+  const generate = async (request: GenerateRequest) => {
+    const generated = await fixtures.generate(variant.model.client, variant.model.target, request);
+    usage.inputTokens += generated.usage?.inputTokens ?? 0;
+    usage.outputTokens += generated.usage?.outputTokens ?? 0;
+    costUsd = addCost(costUsd, estimateCost(generated.model, generated.usage));
+
+    // The first call is the unretried reset the prompt produced on its own.
+    if (!firstPass) {
+      const parsed = parseStructuredReset(generated.text);
+      firstPass = scoreRules(golden, { ...parsed, text: restore(parsed.text, placeholders) });
+    }
+
+    return generated;
+  };
+
+  try {
+    const checked = await generateCheckedReset(
+      generate,
+      {
+        messages: buildResetMessages(variant.prompt, input, [], mode, detectLanguage(input)),
+        params: modeParams(variant.prompt.params, mode),
+        shape: modeShape(mode),
+      },
+      mode.paragraphs,
+      // The route shrugs off a failed retry; a missing fixture should still fail the case.
+      (e) => {
+        if (e instanceof FixtureMissError) throw e;
+      }
+    );
+
+    if (!checked) {
+      result.error = "Empty reset";
+    } else {
+      const reset = { ...checked.reset, text: restore(checked.reset.text, placeholders) };
+      result.output = reset.text;
+      result.action = checked.action;
+      result.final = scoreRules(golden, reset);
+
+      if (judge) {
+        const verdict = await fixtures.generate(
+          judge.client,
+          judge.target,
+          judgeRequest(golden, reset.text)
+        );
+        result.judge = parseJudgeScore(verdict);
+      }
+    }
+  } catch (e) {
+    result.error = e instanceof Error ? e.message : String(e);
+  }
+
+  return { ...result, firstPass, costUsd, latencyMs: Date.now() - started };
+}
+
+// Cases run one at a time to stay well inside provider rate limits.
+export async function runVariant(
+  variant: EvalVariant,
+  goldens: GoldenInput[],
+  options: RunOptions
+): Promise<VariantRun> {
+  const results: CaseResult[] = [];
+
+  for (const golden of goldens) {
+    const result = await runCase(variant, golden, options);
+    options.onCase?.(result);
+    results.push(result);
+  }
+
+  return {
+    label: variant.label,
+    promptVersion: variant.prompt.id,
+    provider: variant.model.target.provider,
+    model: variant.model.target.model,
+    results,
+  };
+}
@@ -0,0 +1,64 @@
+export type StreamEvent = {
+  event: string;
+  data: unknown;
+};
+
+const encoder = new TextEncoder();
+
+export function encodeEvent(event: string, data: unknown) {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function isEventStream(res: Response) {
+  return (res.headers.get("content-type") || "").includes("text/event-stream");
+}
+
+function parseBlock(block: string): StreamEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (data.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(data.join("\n")) };
+  } catch {
+    return { event, data: data.join("\n") };
+  }
+}
+
+export async function readEventStream(
+  res: Response,
+  onEvent: (event: StreamEvent) => void
+) {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const rest = parseBlock(buffer.trim());
+  if (rest) onEvent(rest);
+}
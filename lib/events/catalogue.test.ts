@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { validateEvent } from "./catalogue";
+
+const NOW = Date.parse("2026-10-18T12:00:00Z");
+
+function event(overrides: Record<string, unknown> = {}) {
+  return {
+    event_name: "real_generate_click",
+    properties: { input_length: 120, mode: "quick" },
+    session_id: "8f0c7f0e-4a43-4b4c-9d62-6f0b2b3d1a11",
+    timestamp: new Date(NOW - 1000).toISOString(),
+    page: "/en",
+    ...overrides,
+  };
+}
+
+describe("validateEvent", () => {
+  it("accepts an event from the catalogue", () => {
+    expect(validateEvent(event(), NOW)).toMatchObject({
+      ok: true,
+      event: { name: "real_generate_click", properties: { input_length: 120, mode: "quick" } },
+    });
+  });
+
+  it("accepts an event without properties when it has none", () => {
+    expect(validateEvent(event({ event_name: "landing_cta_click", properties: undefined }), NOW).ok).toBe(true);
+  });
+
+  it.each([
+    ["not an object", "landing_cta_click", "Event must be an object"],
+    ["an unknown event", event({ event_name: "page_scrolled" }), 'Unknown event "page_scrolled"'],
+    ["an inherited name", event({ event_name: "toString" }), 'Unknown event "toString"'],
+    ["a bad session id", event({ session_id: "abc" }), "Invalid session_id"],
+    ["a future timestamp", event({ timestamp: new Date(NOW + 10 * 60_000).toISOString() }), "Invalid timestamp"],
+    ["a stale timestamp", event({ timestamp: "2026-10-01T00:00:00Z" }), "Invalid timestamp"],
+    ["an absolute page URL", event({ page: "https://example.com/en" }), "Invalid page"],
+    ["properties as a list", event({ properties: [120] }), "properties must be an object"],
+  ])("rejects %s", (_, raw, error) => {
+    expect(validateEvent(raw, NOW)).toEqual({ ok: false, error });
+  });
+
+  it.each([
+    ["a property outside the catalogue", { input_length: 120, input: "my secret" }, 'Unknown property "input"'],
+    ["a missing required property", { mode: "quick" }, 'Missing property "input_length"'],
+    ["a property of the wrong type", { input_length: "120" }, "input_length must be a number"],
+    ["a number out of range", { input_length: -1 }, "input_length is below 0"],
+    ["a number that isn't finite", { input_length: Infinity }, "input_length must be a finite number"],
+    ["a value outside the list", { input_length: 120, mode: "turbo" }, "mode is not an allowed value"],
+  ])("rejects %s", (_, properties, error) => {
+    expect(validateEvent(event({ properties }), NOW)).toEqual({ ok: false, error });
+  });
+
+  it("rejects a mood rating that isn't a whole number", () => {
+    const raw = event({ event_name: "mood_check_in", properties: { before: 3.5, after: 6 } });
+    expect(validateEvent(raw, NOW)).toEqual({ ok: false, error: "before must be a whole number" });
+  });
+});
@@ -0,0 +1,160 @@
+import { LOCALES } from "@/lib/i18n/config";
+import { RESET_MODE_IDS } from "@/lib/prompts/modes";
+import { THINKING_PATTERNS } from "@/lib/structuredReset";
+
+type PropertyTypes = {
+  string: string;
+  number: number;
+  boolean: boolean;
+};
+
+type PropertySpec = {
+  type: keyof PropertyTypes;
+  optional?: boolean;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  values?: readonly string[];
+};
+
+type EventSpec = Record<string, PropertySpec>;
+
+export const MOOD_SCALE = { min: 1, max: 10 } as const;
+
+const moodRating = { type: "number", min: MOOD_SCALE.min, max: MOOD_SCALE.max, integer: true } as const;
+
+export const EVENT_CATALOGUE = {
+  landing_cta_click: {},
+  real_generate_click: {
+    input_length: { type: "number", min: 0, max: 100000 },
+    follow_up: { type: "boolean", optional: true },
+    mode: { type: "string", optional: true, values: RESET_MODE_IDS },
+  },
+  email_submit_click: {},
+  mood_check_in: {
+    before: moodRating,
+    after: moodRating,
+    pattern: { type: "string", optional: true, values: Object.keys(THINKING_PATTERNS) },
+    follow_ups: { type: "number", optional: true, min: 0, max: 100, integer: true },
+  },
+  share_link_copied: {},
+  offline_thought_queued: {
+    mode: { type: "string", values: RESET_MODE_IDS },
+  },
+  offline_reset_opened: {
+    outcome: { type: "string", values: ["reset", "crisis", "failed"] },
+  },
+  locale_change: {
+    from: { type: "string", values: LOCALES },
+    to: { type: "string", values: LOCALES },
+  },
+} as const satisfies Record<string, EventSpec>;
+
+export type EventName = keyof typeof EVENT_CATALOGUE;
+
+type PropertiesOf<S extends EventSpec> = {
+  [K in keyof S as S[K]["optional"] extends true ? never : K]: PropertyTypes[S[K]["type"]];
+} & {
+  [K in keyof S as S[K]["optional"] extends true ? K : never]?: PropertyTypes[S[K]["type"]];
+};
+
+export type EventProperties<E extends EventName> = PropertiesOf<(typeof EVENT_CATALOGUE)[E]>;
+
+export type TrackedEvent = {
+  event_name: string;
+  properties?: Record<string, unknown>;
+  session_id: string;
+  timestamp: string;
+  page: string;
+};
+
+export type ValidEvent = {
+  name: EventName;
+  properties: Record<string, string | number | boolean>;
+  sessionId: string;
+  timestamp: string;
+  page: string;
+};
+
+export const MAX_BATCH_SIZE = 50;
+
+const sessionIdPattern = /^[0-9a-f-]{36}$/;
+const MAX_CLOCK_SKEW_MS = 5 * 60_000;
+export const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60_000;
+
+export function isEventName(value: unknown): value is EventName {
+  return typeof value === "string" && Object.hasOwn(EVENT_CATALOGUE, value);
+}
+
+function validateProperty(name: string, spec: PropertySpec, value: unknown) {
+  if (typeof value !== spec.type) return `${name} must be a ${spec.type}`;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return `${name} must be a finite number`;
+    if (spec.integer && !Number.isInteger(value)) return `${name} must be a whole number`;
+    if (spec.min !== undefined && value < spec.min) return `${name} is below ${spec.min}`;
+    if (spec.max !== undefined && value > spec.max) return `${name} is above ${spec.max}`;
+  }
+  if (typeof value === "string") {
+    if (spec.values && !spec.values.includes(value)) return `${name} is not an allowed value`;
+    if (value.length > (spec.max ?? 200)) return `${name} is too long`;
+  }
+  return null;
+}
+
+export function validateEvent(
+  raw: unknown,
+  now = Date.now()
+): { ok: true; event: ValidEvent } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "Event must be an object" };
+
+  const event = raw as Partial<TrackedEvent>;
+
+  if (!isEventName(event.event_name)) {
+    return { ok: false, error: `Unknown event "${String(event.event_name)}"` };
+  }
+
+  if (typeof event.session_id !== "string" || !sessionIdPattern.test(event.session_id)) {
+    return { ok: false, error: "Invalid session_id" };
+  }
+
+  const time = Date.parse(String(event.timestamp));
+  if (!Number.isFinite(time) || time > now + MAX_CLOCK_SKEW_MS || time < now - MAX_EVENT_AGE_MS) {
+    return { ok: false, error: "Invalid timestamp" };
+  }
+
+  if (typeof event.page !== "string" || !event.page.startsWith("/") || event.page.length > 200) {
+    return { ok: false, error: "Invalid page" };
+  }
+
+  const spec: EventSpec = EVENT_CATALOGUE[event.event_name];
+  const properties = event.properties ?? {};
+
+  if (typeof properties !== "object" || Array.isArray(properties)) {
+    return { ok: false, error: "properties must be an object" };
+  }
+
+  for (const key of Object.keys(properties)) {
+    if (!Object.hasOwn(spec, key)) return { ok: false, error: `Unknown property "${key}"` };
+  }
+
+  for (const [name, propertySpec] of Object.entries(spec)) {
+    const value = (properties as Record<string, unknown>)[name];
+    if (value === undefined) {
+      if (!propertySpec.optional) return { ok: false, error: `Missing property "${name}"` };
+      continue;
+    }
+    const problem = validateProperty(name, propertySpec, value);
+    if (problem) return { ok: false, error: problem };
+  }
+
+  return {
+    ok: true,
+    event: {
+      name: event.event_name,
+      properties: properties as ValidEvent["properties"],
+      sessionId: event.session_id,
+      timestamp: new Date(time).toISOString(),
+      page: event.page,
+    },
+  };
+}
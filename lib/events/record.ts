@@ -0,0 +1,29 @@
+import type { Logger } from "@/lib/logger";
+import { resolvePromptVersion } from "@/lib/prompts";
+import { getVisitorId } from "@/lib/visitor";
+import type { ValidEvent } from "./catalogue";
+import { getEventStore } from "./store";
+
+export async function recordTrackedEvents(
+  events: ValidEvent[],
+  log: Logger,
+  visitorId?: string
+) {
+  if (events.length === 0) return;
+
+  const visitor = visitorId ?? (await getVisitorId());
+  const prompt = await resolvePromptVersion(visitor, log);
+
+  await getEventStore().insert(
+    "events",
+    events.map((event) => ({
+      event_name: event.name,
+      visitor_id: visitor,
+      prompt_version: prompt.id,
+      session_id: event.sessionId,
+      page: event.page,
+      client_ts: event.timestamp,
+      properties: event.properties,
+    }))
+  );
+}
@@ -0,0 +1,85 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { StorageError } from "@/lib/errors";
+import { getConfig } from "@/lib/config";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type EventRow = Record<string, unknown>;
+
+export interface EventStore {
+  kind: "supabase" | "memory" | "file";
+  insert(table: string, rows: EventRow | EventRow[]): Promise<void>;
+}
+
+export type StoredRow = EventRow & { table: string; created_at: string };
+
+const memoryRows: StoredRow[] = [];
+
+export function getMemoryRows(table?: string) {
+  return table ? memoryRows.filter((row) => row.table === table) : [...memoryRows];
+}
+
+export function clearMemoryRows() {
+  memoryRows.length = 0;
+}
+
+const memoryStore: EventStore = {
+  kind: "memory",
+  async insert(table, rows) {
+    const created_at = new Date().toISOString();
+    for (const row of [rows].flat()) {
+      memoryRows.push({ ...row, table, created_at });
+    }
+  },
+};
+
+function createFileStore(dir: string): EventStore {
+  return {
+    kind: "file",
+    async insert(table, rows) {
+      const created_at = new Date().toISOString();
+      const lines = [rows].flat().map((row) => JSON.stringify({ ...row, created_at }));
+      try {
+        await mkdir(dir, { recursive: true });
+        await appendFile(path.join(dir, `${table}.jsonl`), `${lines.join("\n")}\n`);
+      } catch (e) {
+        throw new StorageError(`Append to ${table}.jsonl failed`, { cause: e });
+      }
+    },
+  };
+}
+
+const supabaseStore: EventStore = {
+  kind: "supabase",
+  async insert(table, rows) {
+    const { error } = await getSupabaseAdmin().from(table).insert(rows);
+    if (error) throw new StorageError(`Insert into ${table} failed: ${error.message}`);
+  },
+};
+
+export function getEventStore(): EventStore {
+  const { eventStore } = getConfig();
+
+  if (eventStore.kind === "memory") return memoryStore;
+  if (eventStore.kind === "file") return createFileStore(eventStore.dir);
+
+  return supabaseStore;
+}
+
+// Reads rows back from the memory or file store, for local dashboards.
+export async function readLocalRows(table: string): Promise<StoredRow[]> {
+  const store = getEventStore();
+
+  if (store.kind === "memory") return getMemoryRows(table);
+  if (store.kind !== "file") {
+    throw new Error("readLocalRows only works with the memory or file event store");
+  }
+
+  const file = path.join(getConfig().eventStore.dir, `${table}.jsonl`);
+  const text = await readFile(file, "utf8").catch(() => "");
+
+  return text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => ({ ...JSON.parse(line), table }));
+}
@@ -0,0 +1,188 @@
+import { StorageError } from "@/lib/errors";
+import { isLocalMode } from "@/lib/mode";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import type { FeedbackInput, FeedbackRating, FeedbackTag } from "./tags";
+
+export type ResetRecord = {
+  id: string;
+  visitorId: string;
+  promptVersion: string;
+  provider: string | null;
+  model: string | null;
+  pattern: string | null;
+  turn: number;
+  input: string;
+  output: string;
+};
+
+export type ReviewPair = {
+  resetId: string;
+  createdAt: string;
+  promptVersion: string;
+  pattern: string | null;
+  turn: number;
+  input: string;
+  output: string;
+  rating: FeedbackRating;
+  tags: FeedbackTag[];
+};
+
+export type ReviewFilter = {
+  from?: string;
+  to?: string;
+  limit: number;
+};
+
+export interface FeedbackStore {
+  saveReset(reset: ResetRecord): Promise<void>;
+  // Only the visitor who got the reset can read it back.
+  findReset(resetId: string, visitorId: string): Promise<Pick<ResetRecord, "output" | "pattern"> | null>;
+  // Returns false when the reset doesn't exist or belongs to someone else.
+  saveFeedback(feedback: FeedbackInput, visitorId: string): Promise<boolean>;
+  negativePairs(filter: ReviewFilter): Promise<ReviewPair[]>;
+}
+
+type ReviewRow = {
+  reset_id: string;
+  rating: FeedbackRating;
+  tags: FeedbackTag[];
+  resets: {
+    created_at: string;
+    prompt_version: string;
+    pattern: string | null;
+    turn: number;
+    input_redacted: string;
+    output: string;
+  };
+};
+
+const supabaseFeedbackStore: FeedbackStore = {
+  async saveReset(reset) {
+    const { error } = await getSupabaseAdmin().from("resets").insert({
+      id: reset.id,
+      visitor_id: reset.visitorId,
+      prompt_version: reset.promptVersion,
+      provider: reset.provider,
+      model: reset.model,
+      pattern: reset.pattern,
+      turn: reset.turn,
+      input_redacted: reset.input,
+      output: reset.output,
+    });
+    if (error) throw new StorageError(`Reset insert failed: ${error.message}`);
+  },
+
+  async findReset(resetId, visitorId) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("resets")
+      .select("output, pattern")
+      .eq("id", resetId)
+      .eq("visitor_id", visitorId)
+      .maybeSingle<Pick<ResetRecord, "output" | "pattern">>();
+    if (error) throw new StorageError(`Reset lookup failed: ${error.message}`);
+    return data;
+  },
+
+  async saveFeedback(feedback, visitorId) {
+    const supabase = getSupabaseAdmin();
+
+    const { data: owned, error: lookupError } = await supabase
+      .from("resets")
+      .select("id")
+      .eq("id", feedback.resetId)
+      .eq("visitor_id", visitorId)
+      .maybeSingle();
+    if (lookupError) throw new StorageError(`Reset lookup failed: ${lookupError.message}`);
+    if (!owned) return false;
+
+    const { error } = await supabase.from("reset_feedback").upsert({
+      reset_id: feedback.resetId,
+      visitor_id: visitorId,
+      rating: feedback.rating,
+      tags: feedback.tags,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) throw new StorageError(`Feedback upsert failed: ${error.message}`);
+
+    return true;
+  },
+
+  async negativePairs({ from, to, limit }) {
+    let query = getSupabaseAdmin()
+      .from("reset_feedback")
+      .select(
+        "reset_id, rating, tags, resets!inner(created_at, prompt_version, pattern, turn, input_redacted, output)"
+      )
+      .eq("rating", "not_helpful")
+      .order("updated_at", { ascending: false })
+      .limit(limit);
+
+    if (from) query = query.gte("resets.created_at", from);
+    if (to) query = query.lt("resets.created_at", to);
+
+    const { data, error } = await query.returns<ReviewRow[]>();
+    if (error) throw new StorageError(`Feedback export failed: ${error.message}`);
+
+    return (data ?? []).map((row) => ({
+      resetId: row.reset_id,
+      createdAt: row.resets.created_at,
+      promptVersion: row.resets.prompt_version,
+      pattern: row.resets.pattern,
+      turn: row.resets.turn,
+      input: row.resets.input_redacted,
+      output: row.resets.output,
+      rating: row.rating,
+      tags: row.tags,
+    }));
+  },
+};
+
+const memoryResets = new Map<string, ResetRecord & { createdAt: string }>();
+const memoryFeedback = new Map<string, FeedbackInput & { updatedAt: string }>();
+
+const memoryFeedbackStore: FeedbackStore = {
+  async saveReset(reset) {
+    memoryResets.set(reset.id, { ...reset, createdAt: new Date().toISOString() });
+  },
+
+  async findReset(resetId, visitorId) {
+    const reset = memoryResets.get(resetId);
+    return reset?.visitorId === visitorId ? { output: reset.output, pattern: reset.pattern } : null;
+  },
+
+  async saveFeedback(feedback, visitorId) {
+    if (memoryResets.get(feedback.resetId)?.visitorId !== visitorId) return false;
+    memoryFeedback.set(feedback.resetId, { ...feedback, updatedAt: new Date().toISOString() });
+    return true;
+  },
+
+  async negativePairs({ from, to, limit }) {
+    return [...memoryFeedback.values()]
+      .filter((feedback) => feedback.rating === "not_helpful")
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .flatMap((feedback) => {
+        const reset = memoryResets.get(feedback.resetId);
+        if (!reset) return [];
+        if (from && reset.createdAt < from) return [];
+        if (to && reset.createdAt >= to) return [];
+        return [
+          {
+            resetId: reset.id,
+            createdAt: reset.createdAt,
+            promptVersion: reset.promptVersion,
+            pattern: reset.pattern,
+            turn: reset.turn,
+            input: reset.input,
+            output: reset.output,
+            rating: feedback.rating,
+            tags: feedback.tags,
+          },
+        ];
+      })
+      .slice(0, limit);
+  },
+};
+
+export function getFeedbackStore(): FeedbackStore {
+  return isLocalMode() ? memoryFeedbackStore : supabaseFeedbackStore;
+}
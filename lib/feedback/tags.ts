@@ -0,0 +1,47 @@
+export const FEEDBACK_RATINGS = ["helpful", "not_helpful"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export const FEEDBACK_TAGS = {
+  understood_me: "Understood me",
+  useful_next_step: "Useful next step",
+  felt_generic: "Felt generic",
+  too_long: "Too long",
+  wrong_situation: "Wrong situation",
+} as const;
+
+export type FeedbackTag = keyof typeof FEEDBACK_TAGS;
+
+export type FeedbackInput = {
+  resetId: string;
+  rating: FeedbackRating;
+  tags: FeedbackTag[];
+};
+
+const resetIdPattern = /^[0-9a-f-]{36}$/;
+
+export function parseFeedback(raw: unknown): { ok: true; feedback: FeedbackInput } | { ok: false; error: string } {
+  const body = raw as Partial<Record<keyof FeedbackInput, unknown>> | null;
+
+  if (typeof body?.resetId !== "string" || !resetIdPattern.test(body.resetId)) {
+    return { ok: false, error: "Invalid resetId" };
+  }
+
+  if (!FEEDBACK_RATINGS.includes(body.rating as FeedbackRating)) {
+    return { ok: false, error: `rating must be one of ${FEEDBACK_RATINGS.join(", ")}` };
+  }
+
+  const tags = body.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every((tag) => Object.hasOwn(FEEDBACK_TAGS, tag))) {
+    return { ok: false, error: "Unknown feedback tag" };
+  }
+
+  return {
+    ok: true,
+    feedback: {
+      resetId: body.resetId,
+      rating: body.rating as FeedbackRating,
+      tags: Array.from(new Set(tags as FeedbackTag[])),
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { readEventStream, type StreamEvent } from "./eventStream";
+import { readLocalRows } from "./events/store";
+import { handleGenerate, type GenerateSurface } from "./generate";
+import { ProviderError, type LLMProvider } from "./llm";
+
+vi.stubEnv("APP_MODE", "local");
+vi.stubEnv("MOCK_STREAM_DELAY_MS", "0");
+vi.stubEnv("EVENT_STORE_DIR", mkdtempSync(path.join(tmpdir(), "mindeazy-generate-")));
+
+const jar = new Map<string, string>();
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (jar.has(name) ? { name, value: jar.get(name) } : undefined),
+    set: (name: string, value: string) => jar.set(name, value),
+  }),
+}));
+
+// Lets a test swap the provider chain for one that misbehaves.
+const providers = vi.hoisted(() => ({ override: null as LLMProvider[] | null }));
+
+vi.mock("@/lib/llm", async (importOriginal) => {
+  const llm = await importOriginal<typeof import("@/lib/llm")>();
+  return {
+    ...llm,
+    getProviderChain: (...args: Parameters<typeof llm.getProviderChain>) =>
+      providers.override ?? llm.getProviderChain(...args),
+  };
+});
+
+function surface(overrides: Partial<GenerateSurface> = {}): GenerateSurface {
+  return {
+    route: "generate",
+    visitorId: async () => crypto.randomUUID(),
+    rateLimits: () => [],
+    eventProperties: {},
+    internal: true,
+    ...overrides,
+  };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/generate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const INPUT = "I keep replaying the meeting where I froze in front of everyone.";
+
+beforeEach(() => {
+  jar.clear();
+  providers.override = null;
+  // The request logger writes a JSON line per decision.
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("input validation", () => {
+  it.each([
+    ["no input", {}],
+    ["a too-short input", { input: "  hi " }],
+    ["an unknown mode", { input: INPUT, mode: "turbo" }],
+    ["history that isn't a list", { input: INPUT, history: "earlier" }],
+    ["history that doesn't alternate", { input: INPUT, history: [{ role: "assistant", content: "Hello there" }] }],
+  ])("rejects %s with a 400", async (_, body) => {
+    const res = await handleGenerate(post(body), surface());
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toHaveProperty("error");
+  });
+});
+
+describe("safety", () => {
+  it("answers with crisis resources before any limit or model", async () => {
+    const rateLimits = vi.fn(() => []);
+    const res = await handleGenerate(post({ input: "I want to end my life" }), surface({ rateLimits }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ kind: "crisis", resources: expect.any(Object) });
+    expect(rateLimits).not.toHaveBeenCalled();
+  });
+});
+
+describe("rate limits", () => {
+  it("answers 429 with Retry-After once a limit is spent", async () => {
+    const rule = { name: "generate:ip", key: `test:${crypto.randomUUID()}`, limit: 0, windowMs: 60_000 };
+    const res = await handleGenerate(post({ input: INPUT }), surface({ rateLimits: () => [rule] }));
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toMatch(/^\d+$/);
+  });
+
+  it("uses the surface's own message for its limits", async () => {
+    const rule = { name: "partner:quota", key: `test:${crypto.randomUUID()}`, limit: 0, windowMs: 60_000 };
+    const res = await handleGenerate(
+      post({ input: INPUT }),
+      surface({ rateLimits: () => [rule], limitMessage: () => "Daily quota used up." })
+    );
+
+    expect(await res.json()).toMatchObject({ error: "Daily quota used up." });
+  });
+});
+
+describe("JSON responses", () => {
+  it("returns the reset with the model and prompt that wrote it", async () => {
+    const res = await handleGenerate(post({ input: INPUT, stream: false }), surface());
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      kind: "reset",
+      text: expect.any(String),
+      provider: "mock",
+      promptVersion: expect.any(String),
+      mode: "standard",
+      resetId: expect.any(String),
+    });
+    expect(body.text.split(/\n\s*\n/).length).toBeGreaterThanOrEqual(3);
+  });
+
+  it("gives partners a stable shape without the model or prompt", async () => {
+    const res = await handleGenerate(
+      post({ input: INPUT, stream: true }),
+      surface({ route: "v1-resets", internal: false, eventProperties: { source: "api" } })
+    );
+    const body = await res.json();
+
+    expect(Object.keys(body).sort()).toEqual(
+      ["id", "intensity", "kind", "language", "mode", "nextAction", "pattern", "text"].sort()
+    );
+  });
+
+  it("pins the prompt version in a cookie for the app only", async () => {
+    await handleGenerate(post({ input: INPUT, stream: false }), surface({ internal: false }));
+    expect(jar.has("mz_pv")).toBe(false);
+
+    await handleGenerate(post({ input: INPUT, stream: false }), surface());
+    expect(jar.get("mz_pv")).toBe("reset-v1");
+  });
+});
+
+describe("streaming", () => {
+  it("sends meta, then deltas, then done with the full reset", async () => {
+    const res = await handleGenerate(
+      post({ input: INPUT }, { Accept: "text/event-stream" }),
+      surface()
+    );
+    const events: StreamEvent[] = [];
+    await readEventStream(res, (event) => events.push(event));
+
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const names = events.map((event) => event.event);
+    expect(names[0]).toBe("meta");
+    expect(names.at(-1)).toBe("done");
+    expect(names.slice(1, -1).every((name) => name === "delta")).toBe(true);
+    expect(names.length).toBeGreaterThan(2);
+
+    const meta = events[0].data as { resetId: string };
+    const done = events.at(-1)?.data as { resetId: string; text: string };
+    expect(done.resetId).toBe(meta.resetId);
+    expect(done.text.length).toBeGreaterThan(0);
+  });
+
+  it("counts the tokens of a stream the provider drops halfway", async () => {
+    const partial = "You froze for a moment in the meeting. ";
+    providers.override = [
+      {
+        name: "openai",
+        model: "test-model",
+        generate: () => Promise.reject(new Error("not used")),
+        ping: () => Promise.resolve(),
+        async *stream() {
+          yield partial;
+          throw new ProviderError("Connection reset", "openai", "server");
+        },
+      },
+    ];
+
+    const res = await handleGenerate(post({ input: INPUT }, { Accept: "text/event-stream" }), surface());
+    const events: StreamEvent[] = [];
+    await readEventStream(res, (event) => events.push(event));
+
+    expect(events.map((event) => event.event)).toEqual(["meta", "delta", "error"]);
+
+    const meta = events[0].data as { resetId: string };
+    const usage = (await readLocalRows("llm_usage")).find((row) => row.reset_id === meta.resetId);
+    expect(usage).toMatchObject({ model: "test-model", purpose: "reset", output_tokens: Math.ceil(partial.length / 4) });
+    expect(usage?.input_tokens).toBeGreaterThan(0);
+  });
+});
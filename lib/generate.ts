@@ -0,0 +1,550 @@
+import { NextResponse } from "next/server";
+import {
+  estimateTokens,
+  HISTORY_LIMITS,
+  MAX_BODY_BYTES,
+  MAX_INPUT_CHARS,
+  parseHistory,
+} from "@/lib/conversation";
+import { classifyError, errorBody, errorResponse, type ErrorCategory } from "@/lib/errors";
+import { encodeEvent } from "@/lib/eventStream";
+import { detectLanguage, type DetectedLanguage } from "@/lib/i18n/detect";
+import { format, getMessages, requestLocale, type Locale } from "@/lib/i18n";
+import {
+  generateWithFailover,
+  getProviderChain,
+  streamWithFailover,
+  type GenerateRequest,
+  type GenerateResult,
+  type LLMProvider,
+  type ProviderName,
+  type TokenUsage,
+} from "@/lib/llm";
+import { requestLogger, type Logger } from "@/lib/logger";
+import { getEventStore } from "@/lib/events/store";
+import { getFeedbackStore } from "@/lib/feedback/store";
+import {
+  buildResetMessages,
+  DEFAULT_RESET_MODE,
+  isResetMode,
+  modeParams,
+  modeShape,
+  RESET_MODES,
+  resolvePromptVersion,
+  type ResetMode,
+} from "@/lib/prompts";
+import {
+  checkRateLimits,
+  getClientIp,
+  rateLimitResponse,
+  type RateLimitRule,
+} from "@/lib/rateLimit";
+import { assessSafety, resolveRegion } from "@/lib/safety";
+import { checkResetQuality, repairReset, type QualityReport } from "@/lib/quality";
+import { generateCheckedReset, type QualityAction } from "@/lib/resetPipeline";
+import {
+  createRestoreFilter,
+  redact,
+  restore,
+  scrubError,
+  type PlaceholderMap,
+} from "@/lib/redaction";
+import { createMetaFilter, type StructuredReset } from "@/lib/structuredReset";
+import {
+  budgetExhaustedResponse,
+  checkBudget,
+  recordUsage,
+  type UsagePurpose,
+} from "@/lib/usage";
+
+export type GenerateBody = {
+  input?: unknown;
+  history?: unknown;
+  stream?: unknown;
+  mode?: unknown;
+  // Public API only: the partner's own id for the person writing.
+  user?: unknown;
+};
+
+// Where a generate request came from: the app itself or the public API.
+export type GenerateSurface = {
+  route: string;
+  visitorId(body: GenerateBody): Promise<string>;
+  rateLimits(ids: { ip: string; visitorId: string }): RateLimitRule[];
+  // A message for limits the surface adds, such as a partner's daily quota.
+  limitMessage?(rule: string): string | undefined;
+  // Added to every event so partner traffic can be told apart.
+  eventProperties: Record<string, unknown>;
+  // The app streams and sees which model and prompt answered; partners get a
+  // stable JSON shape without either.
+  internal: boolean;
+};
+
+type ResetContext = {
+  log: Logger;
+  surface: GenerateSurface;
+  resetId: string;
+  visitorId: string;
+  promptVersion: string;
+  mode: ResetMode;
+  locale: Locale;
+  // What the reset should be written in; null when the input was too short to tell.
+  language: DetectedLanguage | null;
+  // Over a budget cap and running on the cheaper model.
+  budgetModel: boolean;
+  // Already redacted; this is exactly what the model sees.
+  input: string;
+  placeholders: PlaceholderMap;
+  turn: number;
+};
+
+type ResetSource = { provider: ProviderName; model: string } | null;
+
+type FailureReason = "empty" | ErrorCategory;
+
+async function recordEvent(
+  ctx: ResetContext,
+  eventName: string,
+  properties: Record<string, unknown>
+) {
+  try {
+    await getEventStore().insert("events", {
+      event_name: eventName,
+      visitor_id: ctx.visitorId,
+      prompt_version: ctx.promptVersion,
+      properties: { ...properties, ...ctx.surface.eventProperties, mode: ctx.mode.id },
+    });
+  } catch (e) {
+    ctx.log.error("Event log error", e, { event_name: eventName, category: classifyError(e) });
+  }
+}
+
+function recordQuality(
+  ctx: ResetContext,
+  initial: QualityReport,
+  final: QualityReport,
+  action: QualityAction,
+  source: ResetSource
+) {
+  return recordEvent(ctx, "reset_quality", {
+    action,
+    initial_passed: initial.passed,
+    initial_score: initial.score,
+    initial_rules: initial.violations.map((violation) => violation.rule),
+    final_passed: final.passed,
+    final_score: final.score,
+    final_rules: final.violations.map((violation) => violation.rule),
+    paragraphs: final.paragraphs,
+    provider: source?.provider,
+    model: source?.model,
+  });
+}
+
+async function recordReset(ctx: ResetContext, reset: StructuredReset, source: ResetSource) {
+  try {
+    // Stored as the model saw it, with placeholders rather than personal details,
+    // and deleted after a week unless it was rated not helpful or shared.
+    await getFeedbackStore().saveReset({
+      id: ctx.resetId,
+      visitorId: ctx.visitorId,
+      promptVersion: ctx.promptVersion,
+      provider: source?.provider ?? null,
+      model: source?.model ?? null,
+      pattern: reset.pattern,
+      turn: ctx.turn,
+      input: ctx.input,
+      output: reset.text,
+    });
+  } catch (e) {
+    ctx.log.error("Reset log error", e, {
+      category: classifyError(e),
+      error: scrubError(e, [ctx.input]),
+    });
+  }
+
+  await recordEvent(ctx, "reset_generated", {
+    reset_id: ctx.resetId,
+    pattern: reset.pattern,
+    intensity: reset.intensity,
+    structured: reset.pattern !== null,
+    language: ctx.language?.code,
+    provider: source?.provider,
+    model: source?.model,
+  });
+}
+
+async function recordModelUsage(
+  ctx: ResetContext,
+  source: NonNullable<ResetSource>,
+  usage: TokenUsage | undefined,
+  purpose: UsagePurpose,
+  latencyMs: number
+) {
+  try {
+    await recordUsage({
+      requestId: ctx.log.requestId,
+      resetId: ctx.resetId,
+      visitorId: ctx.visitorId,
+      provider: source.provider,
+      model: source.model,
+      mode: ctx.mode.id,
+      purpose,
+      budgetModel: ctx.budgetModel,
+      usage,
+      latencyMs,
+    });
+  } catch (e) {
+    ctx.log.error("Usage log error", e, { category: classifyError(e) });
+  }
+}
+
+// For a stream that ended before the provider reported its usage.
+function estimateUsage(request: GenerateRequest, output: string): TokenUsage {
+  return {
+    inputTokens: estimateTokens(request.messages.map((message) => message.content).join("\n")),
+    outputTokens: estimateTokens(output),
+  };
+}
+
+async function generateMetered(
+  ctx: ResetContext,
+  providers: LLMProvider[],
+  request: GenerateRequest,
+  purpose: UsagePurpose
+): Promise<GenerateResult & { fallbackFrom?: ProviderName }> {
+  const started = Date.now();
+  const result = await generateWithFailover(providers, request, ctx.log);
+  await recordModelUsage(ctx, result, result.usage, purpose, Date.now() - started);
+  return result;
+}
+
+function recordFailure(ctx: ResetContext, reason: FailureReason, stream: boolean) {
+  return recordEvent(ctx, "generate_failed", {
+    reset_id: ctx.resetId,
+    reason,
+    stream,
+    request_id: ctx.log.requestId,
+  });
+}
+
+// Puts names back and swaps other placeholders for neutral wording.
+function restoreReset(reset: StructuredReset, placeholders: PlaceholderMap): StructuredReset {
+  return {
+    ...reset,
+    text: restore(reset.text, placeholders),
+    nextAction: reset.nextAction && restore(reset.nextAction, placeholders),
+  };
+}
+
+async function generateChecked(
+  ctx: ResetContext,
+  providers: LLMProvider[],
+  request: GenerateRequest
+) {
+  const checked = await generateCheckedReset(
+    (next, purpose) => generateMetered(ctx, providers, next, purpose),
+    request,
+    ctx.mode.paragraphs,
+    (e) =>
+      ctx.log.warn("Quality retry error", {
+        category: classifyError(e),
+        error: scrubError(e, [ctx.input]),
+      })
+  );
+
+  if (!checked) return null;
+
+  const { reset, result, initial, quality, action } = checked;
+  await recordQuality(ctx, initial, quality, action, result);
+
+  return { reset, result };
+}
+
+function streamReset(
+  ctx: ResetContext,
+  providers: LLMProvider[],
+  request: GenerateRequest,
+  signal: AbortSignal
+) {
+  const upstream = new AbortController();
+  signal.addEventListener("abort", () => upstream.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encodeEvent(event, data));
+      };
+
+      const filter = createMetaFilter();
+      const restorer = createRestoreFilter(ctx.placeholders);
+      let source: ResetSource = null;
+      let usage: TokenUsage | undefined;
+      let written = "";
+      const started = Date.now();
+
+      try {
+        const chunks = streamWithFailover(
+          providers,
+          { ...request, signal: upstream.signal },
+          ctx.log
+        );
+
+        for await (const chunk of chunks) {
+          if (chunk.type === "usage") {
+            usage = chunk.usage;
+          } else if (chunk.type === "start") {
+            source = { provider: chunk.provider, model: chunk.model };
+            send("meta", {
+              ...source,
+              fallbackFrom: chunk.fallbackFrom,
+              promptVersion: ctx.promptVersion,
+              mode: ctx.mode.id,
+              language: ctx.language?.code,
+              resetId: ctx.resetId,
+            });
+          } else {
+            written += chunk.text;
+            const visible = restorer.push(filter.push(chunk.text));
+            if (visible) send("delta", { text: visible });
+          }
+        }
+
+        let reset = filter.result();
+
+        if (!reset.text) {
+          send("error", {
+            error: getMessages(ctx.locale).api.emptyReset,
+            requestId: ctx.log.requestId,
+          });
+          await recordFailure(ctx, "empty", true);
+        } else {
+          // The draft is already on screen, so a failing reset is repaired in
+          // place rather than regenerated; "done" replaces the streamed text.
+          const { paragraphs } = ctx.mode;
+          const initial = checkResetQuality(reset.text, paragraphs);
+          let quality = initial;
+
+          if (!initial.passed) {
+            reset = { ...reset, text: repairReset(reset.text, paragraphs) };
+            quality = checkResetQuality(reset.text, paragraphs);
+          }
+
+          // Record before "done" so feedback on this reset id can't race the insert.
+          await recordReset(ctx, reset, source);
+          send("done", {
+            ...restoreReset(reset, ctx.placeholders),
+            ...source,
+            promptVersion: ctx.promptVersion,
+            mode: ctx.mode.id,
+            language: ctx.language?.code,
+            resetId: ctx.resetId,
+          });
+          await recordQuality(ctx, initial, quality, initial.passed ? "none" : "repaired", source);
+        }
+      } catch (e) {
+        if (!upstream.signal.aborted) {
+          const category = classifyError(e);
+          ctx.log.error("Generate stream error", e, {
+            category,
+            error: scrubError(e, [ctx.input]),
+          });
+          send("error", errorBody(category, ctx.log.requestId, ctx.locale));
+          await recordFailure(ctx, category, true);
+        }
+      } finally {
+        // Tokens are billed even when the client leaves or the provider fails
+        // mid-stream, so they count toward the budget either way.
+        if (source) {
+          const billed = usage ?? estimateUsage(request, written);
+          await recordModelUsage(ctx, source, billed, "reset", Date.now() - started);
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a client disconnect.
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export async function handleGenerate(req: Request, surface: GenerateSurface) {
+  const log = requestLogger(req, surface.route);
+  const locale = requestLocale(req.headers);
+  const t = getMessages(locale).api;
+  let ctx: ResetContext | null = null;
+  let userTexts: string[] = [];
+
+  try {
+    if (Number(req.headers.get("content-length") || 0) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: t.tooLarge }, { status: 413 });
+    }
+
+    const body: GenerateBody = await req.json();
+    const { input, history: rawHistory, stream, mode: rawMode } = body;
+
+    if (!input || String(input).trim().length < 3) {
+      return NextResponse.json({ error: t.emptyInput }, { status: 400 });
+    }
+
+    if (String(input).trim().length > MAX_INPUT_CHARS) {
+      return NextResponse.json(
+        { error: format(t.tooLong, { max: MAX_INPUT_CHARS.toLocaleString(locale) }) },
+        { status: 413 }
+      );
+    }
+
+    const modeId = rawMode ?? DEFAULT_RESET_MODE;
+
+    if (!isResetMode(modeId)) {
+      return NextResponse.json({ error: t.unknownMode }, { status: 400 });
+    }
+
+    const mode = RESET_MODES[modeId];
+    const history = parseHistory(rawHistory);
+
+    if (!history) {
+      return NextResponse.json({ error: t.badHistory }, { status: 400 });
+    }
+
+    if (history.length / 2 > HISTORY_LIMITS.maxFollowUps) {
+      return NextResponse.json({ error: t.threadTooLong }, { status: 400 });
+    }
+
+    userTexts = [String(input).trim(), ...history.map((turn) => turn.content)];
+
+    // Personal details become placeholders before anything leaves the server.
+    // Earlier turns share the map so a name keeps the same placeholder.
+    const placeholders: PlaceholderMap = {};
+    const safeHistory = history.map((turn) => ({
+      ...turn,
+      content: redact(turn.content, placeholders).text,
+    }));
+    const safeInput = redact(String(input).trim(), placeholders).text;
+
+    const visitorId = await surface.visitorId(body);
+
+    const safety = await assessSafety(safeInput, resolveRegion(req.headers), log);
+
+    if (safety.resources) {
+      return NextResponse.json({
+        kind: "crisis",
+        resources: safety.resources,
+      });
+    }
+
+    // Limits apply after the safety stage so crisis resources are never withheld.
+    const limited = await checkRateLimits(
+      surface.rateLimits({ ip: getClientIp(req.headers), visitorId }),
+      log
+    );
+
+    if (!limited.ok) {
+      return rateLimitResponse(limited, surface.limitMessage?.(limited.rule) ?? t.rateLimited);
+    }
+
+    const budget = await checkBudget(log);
+    const prompt = await resolvePromptVersion(visitorId, log, { pin: surface.internal });
+    ctx = {
+      log,
+      surface,
+      resetId: crypto.randomUUID(),
+      visitorId,
+      promptVersion: prompt.id,
+      mode,
+      locale,
+      // A short follow-up like "ok but why" says little, so the whole thread decides.
+      language: detectLanguage(safeInput) ?? detectLanguage(userTexts.join("\n")),
+      budgetModel: budget.state === "degraded",
+      input: safeInput,
+      placeholders,
+      turn: history.length / 2,
+    };
+
+    if (budget.state === "exhausted") {
+      log.warn("Budget cap reached", { period: budget.period });
+      await recordFailure(ctx, "over_budget", false);
+      return budgetExhaustedResponse(budget, log.requestId, locale);
+    }
+
+    const providers = getProviderChain({ budget: ctx.budgetModel });
+
+    const request: GenerateRequest = {
+      messages: buildResetMessages(prompt, safeInput, safeHistory, mode, ctx.language),
+      params: modeParams(prompt.params, mode),
+      shape: modeShape(mode),
+    };
+
+    const wantsStream =
+      surface.internal &&
+      (stream === true || (req.headers.get("accept") || "").includes("text/event-stream"));
+
+    if (wantsStream) {
+      return streamReset(ctx, providers, request, req.signal);
+    }
+
+    const generated = await generateChecked(ctx, providers, {
+      ...request,
+      signal: req.signal,
+    });
+
+    if (!generated) {
+      await recordFailure(ctx, "empty", false);
+      log.warn("Empty reset", { reset_id: ctx.resetId });
+      return NextResponse.json(
+        { error: t.emptyReset, requestId: log.requestId },
+        { status: 500 }
+      );
+    }
+
+    const { reset, result } = generated;
+
+    await recordReset(ctx, reset, result);
+
+    const restored = restoreReset(reset, ctx.placeholders);
+
+    if (!surface.internal) {
+      return NextResponse.json({
+        kind: "reset",
+        id: ctx.resetId,
+        text: restored.text,
+        pattern: restored.pattern,
+        intensity: restored.intensity,
+        nextAction: restored.nextAction,
+        mode: mode.id,
+        language: ctx.language?.code ?? null,
+      });
+    }
+
+    return NextResponse.json({
+      kind: "reset",
+      ...restored,
+      provider: result.provider,
+      model: result.model,
+      fallbackFrom: result.fallbackFrom,
+      promptVersion: prompt.id,
+      mode: mode.id,
+      language: ctx.language?.code,
+      resetId: ctx.resetId,
+    });
+  } catch (e) {
+    if (ctx && !req.signal.aborted) await recordFailure(ctx, classifyError(e), false);
+
+    return errorResponse(e, log, "Generate error", {
+      detail: scrubError(e, userTexts),
+      locale,
+    });
+  }
+}
\ No newline at end of file
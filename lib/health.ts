@@ -0,0 +1,98 @@
+import { getConfig } from "@/lib/config";
+import { classifyError } from "@/lib/errors";
+import { getProviderChain, type LLMProvider } from "@/lib/llm";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type CheckStatus = "ok" | "skipped" | "failed";
+
+export type HealthCheck = {
+  status: CheckStatus;
+  latencyMs?: number;
+  detail?: string;
+};
+
+export type HealthStatus = "ok" | "degraded" | "down";
+
+export type HealthReport = {
+  status: HealthStatus;
+  mode: "local" | "live";
+  checkedAt: string;
+  checks: Record<string, HealthCheck>;
+};
+
+const CHECK_TIMEOUT_MS = 5000;
+// Uptime monitors poll often; this keeps them from spending provider quota.
+const CACHE_MS = 15_000;
+
+let cached: { report: HealthReport; expiresAt: number } | null = null;
+
+async function timed(check: (signal: AbortSignal) => Promise<unknown>): Promise<HealthCheck> {
+  const started = Date.now();
+
+  try {
+    await check(AbortSignal.timeout(CHECK_TIMEOUT_MS));
+    return { status: "ok", latencyMs: Date.now() - started };
+  } catch (e) {
+    // Only the category goes out; raw upstream messages stay in the logs.
+    return { status: "failed", latencyMs: Date.now() - started, detail: classifyError(e) };
+  }
+}
+
+function checkProvider(provider: LLMProvider) {
+  return timed((signal) => provider.ping(signal));
+}
+
+function checkSupabase() {
+  return timed(async (signal) => {
+    const { error } = await getSupabaseAdmin()
+      .from("events")
+      .select("id")
+      .limit(1)
+      .abortSignal(signal);
+    if (error) throw new Error(error.message);
+  });
+}
+
+async function runChecks(): Promise<HealthReport> {
+  const checkedAt = new Date().toISOString();
+  let config;
+
+  try {
+    config = getConfig();
+  } catch (e) {
+    return {
+      status: "down",
+      mode: "live",
+      checkedAt,
+      checks: { config: { status: "failed", detail: classifyError(e) } },
+    };
+  }
+
+  const providers = getProviderChain();
+  const [providerChecks, supabase] = await Promise.all([
+    Promise.all(providers.map(checkProvider)),
+    config.supabase ? checkSupabase() : Promise.resolve<HealthCheck>({ status: "skipped" }),
+  ]);
+
+  const checks: Record<string, HealthCheck> = { config: { status: "ok" } };
+  providers.forEach((provider, index) => {
+    checks[`llm_${index === 0 ? "primary" : "fallback"}_${provider.name}`] = providerChecks[index];
+  });
+  checks.supabase = supabase;
+
+  const reachable = providerChecks.filter((check) => check.status === "ok").length;
+  let status: HealthStatus = "ok";
+
+  if (reachable === 0) status = "down";
+  else if (reachable < providerChecks.length || supabase.status === "failed") status = "degraded";
+
+  return { status, mode: config.localMode ? "local" : "live", checkedAt, checks };
+}
+
+export async function getHealth(): Promise<HealthReport> {
+  if (cached && cached.expiresAt > Date.now()) return cached.report;
+
+  const report = await runChecks();
+  cached = { report, expiresAt: Date.now() + CACHE_MS };
+  return report;
+}
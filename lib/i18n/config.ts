@@ -0,0 +1,50 @@
+export const LOCALES = ["en", "es", "fr", "de"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the last locale a visitor chose, ahead of Accept-Language.
+export const LOCALE_COOKIE = "mz_locale";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+// Picks the best supported locale from an Accept-Language header, honouring q-values.
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranked = (acceptLanguage ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return { tag: tag.toLowerCase(), q: q ? Number(q.trim().slice(2)) || 0 : 1 };
+    })
+    .filter((entry) => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const base = tag.split("-")[0];
+    if (isLocale(base)) return base;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+// API routes answer in the locale the visitor last chose in the app, falling
+// back to the browser's languages.
+export function requestLocale(headers: Headers): Locale {
+  const chosen = (headers.get("cookie") ?? "")
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === LOCALE_COOKIE)?.[1];
+
+  return isLocale(chosen) ? chosen : matchLocale(headers.get("accept-language"));
+}
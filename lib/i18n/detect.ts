@@ -0,0 +1,92 @@
+export type DetectedLanguage = { code: string; name: string };
+
+// Scripts that belong to one language (or one we can name well enough) are
+// decided by counting letters; checked in order, so kana wins over shared Han.
+const SCRIPTS: { code: string; pattern: RegExp; refine?: (text: string) => string | null }[] = [
+  { code: "ja", pattern: /[぀-ヿ]/g },
+  { code: "ko", pattern: /[가-힯ᄀ-ᇿ]/g },
+  { code: "zh", pattern: /[一-鿿]/g },
+  { code: "ru", pattern: /[Ѐ-ӿ]/g, refine: (text) => (/[іїєґ]/i.test(text) ? "uk" : null) },
+  { code: "ar", pattern: /[؀-ۿ]/g, refine: (text) => (/[پچژگ]/.test(text) ? "fa" : null) },
+  { code: "he", pattern: /[֐-׿]/g },
+  { code: "hi", pattern: /[ऀ-ॿ]/g },
+  { code: "el", pattern: /[Ͱ-Ͽ]/g },
+  { code: "th", pattern: /[฀-๿]/g },
+];
+
+// Latin-script languages share letters, so they are scored on common short
+// words plus a few telling diacritics.
+const LATIN: Record<string, { words: string[]; letters?: RegExp }> = {
+  en: {
+    words: ["the", "and", "i", "my", "is", "it", "to", "of", "that", "what", "if", "me", "about", "can't", "don't", "i'm", "feel", "just", "but", "with"],
+  },
+  es: {
+    words: ["el", "la", "que", "de", "y", "no", "me", "mi", "es", "en", "lo", "por", "para", "pero", "estoy", "siento", "qué", "muy", "todo", "con"],
+    letters: /[ñ¿¡]/g,
+  },
+  fr: {
+    words: ["le", "la", "je", "de", "et", "les", "pas", "que", "est", "un", "une", "mon", "ma", "suis", "ne", "j'ai", "c'est", "pour", "avec", "tout"],
+    letters: /[çœèêàù]/g,
+  },
+  de: {
+    words: ["ich", "und", "die", "der", "das", "nicht", "ist", "zu", "mein", "mich", "mir", "es", "ein", "eine", "habe", "dass", "aber", "was", "wenn", "auf"],
+    letters: /[äöüß]/g,
+  },
+  pt: {
+    words: ["o", "a", "que", "de", "e", "não", "eu", "meu", "minha", "é", "em", "um", "uma", "estou", "muito", "com", "para", "mas", "isso", "sinto"],
+    letters: /[ãõ]/g,
+  },
+  it: {
+    words: ["il", "la", "che", "di", "e", "non", "mi", "io", "sono", "un", "una", "per", "ma", "mio", "mia", "ho", "è", "questo", "tutto", "con"],
+  },
+  nl: {
+    words: ["de", "het", "een", "ik", "en", "niet", "is", "dat", "van", "mijn", "me", "ben", "maar", "wat", "als", "heb", "voor", "met", "zo", "ook"],
+  },
+};
+
+const MIN_LETTERS = 3;
+const MIN_LATIN_WORDS = 3;
+
+function languageName(code: string) {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function detected(code: string): DetectedLanguage {
+  return { code, name: languageName(code) };
+}
+
+function detectLatin(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  if (words.length < MIN_LATIN_WORDS) return null;
+
+  const scores = Object.entries(LATIN).map(([code, { words: common, letters }]) => {
+    const vocabulary = new Set(common);
+    const hits = words.filter((word) => vocabulary.has(word)).length;
+    const marks = letters ? (text.toLowerCase().match(letters)?.length ?? 0) : 0;
+    return { code, score: hits + marks * 2 };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+
+  // A tie or a near-empty score is a guess; let the model follow the text itself.
+  if (best.score < 2 || best.score === runnerUp.score) return null;
+  return best.code;
+}
+
+// Best-effort guess at the language someone is writing in, or null when the
+// text is too short or too mixed to call.
+export function detectLanguage(text: string): DetectedLanguage | null {
+  for (const { code, pattern, refine } of SCRIPTS) {
+    if ((text.match(pattern)?.length ?? 0) >= MIN_LETTERS) {
+      return detected(refine?.(text) ?? code);
+    }
+  }
+
+  const latin = detectLatin(text);
+  return latin ? detected(latin) : null;
+}
@@ -0,0 +1,15 @@
+import type { Locale } from "./config";
+
+// Fills {name} placeholders; unknown names are left as written.
+export function format(template: string, vars: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
+
+export type PluralForms = { one: string; other: string };
+
+export function plural(locale: Locale, forms: PluralForms, count: number) {
+  const form = new Intl.PluralRules(locale).select(count) === "one" ? forms.one : forms.other;
+  return format(form, { count });
+}
@@ -0,0 +1,24 @@
+import { DEFAULT_LOCALE, type Locale } from "./config";
+import { de } from "./messages/de";
+import { en, type Messages } from "./messages/en";
+import { es } from "./messages/es";
+import { fr } from "./messages/fr";
+
+export {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  LOCALES,
+  matchLocale,
+  requestLocale,
+  type Locale,
+} from "./config";
+export { format, plural, type PluralForms } from "./format";
+export type { Messages } from "./messages/en";
+
+const catalogues: Record<Locale, Messages> = { en, es, fr, de };
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return catalogues[locale] ?? catalogues[DEFAULT_LOCALE];
+}
@@ -0,0 +1,263 @@
+import type { Messages } from "./en";
+
+export const de: Messages = {
+  header: {
+    logoAlt: "Mindeazy-Logo",
+    privacy: "Privat. Sicher. Deins.",
+    journal: "Tagebuch",
+    language: "Sprache",
+  },
+  hero: {
+    badge: "Persönlicher Reset",
+    titleLine1: "Beruhige deinen Kopf.",
+    titleLine2: "Starte deinen Tag neu.",
+    intro: "Schreib auf, was dich beschäftigt, und bekomm in Sekunden einen ruhigen, persönlichen Reset.",
+  },
+  compose: {
+    label: "Was geht dir gerade durch den Kopf?",
+    hint: "Schreib einfach drauflos. Hauptsache, es ist raus aus deinem Kopf.",
+    moodBefore: "Wie stark fühlt es sich gerade an? (optional)",
+    submit: "✦ Mein Reset",
+    submitting: "Dein Reset entsteht...",
+    modeLabel: "Art des Resets",
+    trust: "100 % privat • Ohne Anmeldung • Nur für dich",
+    emptyInput: "Schreib zuerst auf, was dich beschäftigt.",
+    genericError: "Etwas ist schiefgelaufen",
+    rateLimited: {
+      one: "Du hast in kurzer Zeit viele Resets geschrieben. Gönn dir ein paar ruhige Minuten weg vom Bildschirm. In etwa {minutes} Minute kannst du den nächsten schreiben.",
+      other:
+        "Du hast in kurzer Zeit viele Resets geschrieben. Gönn dir ein paar ruhige Minuten weg vom Bildschirm. In etwa {minutes} Minuten kannst du den nächsten schreiben.",
+    },
+  },
+  modes: {
+    standard: { label: "Reset", hint: "Ein ruhiger, persönlicher Reset" },
+    quick: { label: "Kurze Unterbrechung", hint: "In etwa 30 Sekunden gelesen" },
+    deeper: { label: "Tiefer hinschauen", hint: "Nimmt sich etwas mehr Zeit, um es zu entwirren" },
+    bedtime: { label: "Kann nicht schlafen", hint: "Sanfter und langsamer, für mitten in der Nacht" },
+  },
+  reset: {
+    title: "Dein persönlicher Reset",
+    pattern: "Was dein Kopf gerade macht:",
+    nextStep: "Ein kleiner nächster Schritt:",
+    thinking: "Ich denke es mit dir durch...",
+    replyPlaceholder: "Aber was, wenn es wirklich passiert?",
+    reply: "Antworten",
+    moodAfter: "Und wie stark fühlt es sich jetzt an?",
+    saveMood: "Speichern",
+    moodSaved: "Danke fürs Einchecken. Du bist von {before} auf {after} gegangen.",
+    journalSaved: "In deinem privaten Tagebuch gespeichert",
+    journalOffer: "Bewahre deine Resets in einem privaten Tagebuch auf",
+    encouragement: "Du schaffst das. Ein Reset nach dem anderen.",
+    startOver: "Neuen Reset schreiben",
+    footer: "Du musst nicht alles allein tragen. Nehmen wir einen Gedanken nach dem anderen.",
+    placeholders: [
+      "Dein Kopf versucht nur, dich zu schützen, aber ständiges Grübeln hält dich in derselben Schleife fest.",
+      "Du musst heute nicht alles lösen. Du brauchst nur einen kleinen Schritt, der dich weiterbringt.",
+      "Erlaube dir, innezuhalten, durchzuatmen und dich auf das zu konzentrieren, was du gerade beeinflussen kannst.",
+      "Fortschritt heißt nicht, große Sprünge zu machen. Er heißt, für dich da zu sein, auch im ganz Kleinen.",
+    ],
+  },
+  patterns: {
+    worst_case_thinking: "Vom Schlimmsten ausgehen",
+    fear_of_uncertainty: "Angst vor Ungewissheit",
+    spiraling: "Gedankenspirale",
+    mental_replay: "Im Kopf wiederholen",
+    regret: "Reue",
+    self_blame: "Selbstvorwürfe",
+    comparison_pressure: "Vergleichsdruck",
+    shame: "Scham",
+    emotional_overwhelm: "Emotionale Überforderung",
+    fear_of_losing_control: "Angst, die Kontrolle zu verlieren",
+    overthinking_loop: "Ein Gefühl durch mehr Nachdenken lösen wollen",
+    possibility_as_reality: "Eine Möglichkeit für Wirklichkeit halten",
+    moment_as_whole_story: "Einen Moment für die ganze Geschichte halten",
+    uncertainty_as_danger: "Ungewissheit für Gefahr halten",
+    false_urgency: "Alles muss sofort gelöst werden",
+  },
+  feedback: {
+    question: "Hat dir das geholfen?",
+    thanks: "Danke. Was ist dir aufgefallen?",
+    helpful: "Hilfreich",
+    notHelpful: "Nicht hilfreich",
+    tags: {
+      understood_me: "Hat mich verstanden",
+      useful_next_step: "Hilfreicher nächster Schritt",
+      felt_generic: "Zu allgemein",
+      too_long: "Zu lang",
+      wrong_situation: "Passt nicht zu meiner Lage",
+    },
+  },
+  mood: {
+    low: "Kaum spürbar",
+    high: "Überwältigend",
+  },
+  email: {
+    prompt: "Möchtest du ab und zu eine behutsame Nachfrage per E-Mail?",
+    placeholder: "du@beispiel.de",
+    submit: "Auf dem Laufenden halten",
+    sent: "Schau in dein Postfach und bestätige. Bis dahin schicken wir nichts.",
+    invalid: "Bitte gib eine gültige E-Mail-Adresse ein.",
+    failed: "Wir konnten deine E-Mail-Adresse gerade nicht speichern.",
+  },
+  crisis: {
+    heavy:
+      "Es klingt, als würdest du gerade etwas wirklich Schweres tragen. Dafür hast du mehr verdient als einen geschriebenen Reset.",
+    notAlone:
+      "Du musst das nicht allein aushalten. Ein echter Mensch kann jetzt sofort und kostenlos mit dir darüber sprechen.",
+    text: "SMS an {number}",
+    website: "Website",
+    emergency:
+      "Wenn du in unmittelbarer Gefahr bist, ruf bitte sofort die {number} oder deine örtliche Notrufnummer an.",
+  },
+  journal: {
+    title: "Dein Tagebuch",
+    close: "Tagebuch schließen",
+    intro:
+      "Nur in diesem Browser gespeichert und mit deiner Passphrase verschlüsselt. Niemand sonst kann es lesen, auch wir nicht.",
+    storageBlocked: "Dein Browser hat den lokalen Speicher blockiert, deshalb lässt sich das Tagebuch hier nicht öffnen.",
+    genericError: "Etwas ist schiefgelaufen",
+    passphraseTooShort: "Verwende mindestens {min} Zeichen.",
+    passphraseMismatch: "Die beiden Passphrasen stimmen nicht überein.",
+    wrongPassphrase: "Mit dieser Passphrase lässt sich das Tagebuch nicht öffnen.",
+    restoreFailed: "Zu diesem Sync-Code und dieser Passphrase gibt es kein Tagebuch.",
+    confirmDelete: "Dein Tagebuch aus diesem Browser löschen? Das lässt sich nicht rückgängig machen.",
+    imported: { one: "{count} Eintrag importiert.", other: "{count} Einträge importiert." },
+    importFailed: {
+      not_export: "Diese Datei ist kein Mindeazy-Tagebuchexport.",
+      other_passphrase: "Diese Datei wurde mit einer anderen Passphrase gespeichert.",
+    },
+    syncOff: "Die Synchronisierung ist aus und die Kopie auf dem Server wurde gelöscht.",
+    setupIntro: "Wähle eine Passphrase. Wenn du sie vergisst, lässt sich das Tagebuch nicht wiederherstellen.",
+    passphrase: "Passphrase",
+    passphraseAgain: "Noch einmal eingeben",
+    start: "Mein Tagebuch beginnen",
+    haveSyncCode: "Ich habe einen Sync-Code",
+    unlock: "Entsperren",
+    forgot: "Vergessen? Tagebuch löschen",
+    syncCode: "Sync-Code",
+    restore: "Tagebuch wiederherstellen",
+    back: "Zurück",
+    search: "Deine Resets durchsuchen",
+    empty: "Deine Resets erscheinen hier, sobald du sie schreibst.",
+    noMatches: "Nichts passt zu dieser Suche.",
+    deleteEntry: "Diesen Eintrag löschen",
+    export: "Exportieren",
+    import: "Importieren",
+    lock: "Sperren",
+    syncOn:
+      "Die verschlüsselte Sicherung ist aktiv. Um dieses Tagebuch auf einem anderen Gerät zu öffnen, nutze diesen Sync-Code zusammen mit deiner Passphrase:",
+    syncOffer:
+      "Sichere eine verschlüsselte Kopie, damit du es auf einem anderen Gerät öffnen kannst. Der Server sieht immer nur unlesbaren Text.",
+    disableSync: "Sicherung ausschalten",
+    enableSync: "Verschlüsselte Sicherung einschalten",
+  },
+  share: {
+    action: "Diesen Reset teilen",
+    creating: "Link wird erstellt...",
+    ready: "Alle mit diesem Link können diesen Reset lesen, aber nicht, was du geschrieben hast. Er funktioniert bis {date}.",
+    copy: "Link kopieren",
+    copied: "Link kopiert",
+    deleteHint: "Bewahre diesen privaten Link auf, um das Teilen früher zu beenden:",
+    failed: "Wir konnten gerade keinen Link erstellen.",
+    badge: "Ein geteilter Reset",
+    expires: "Geteilt bis {date}",
+    cta: "Schreib deinen eigenen Reset",
+    gone: "Dieser Reset wird nicht mehr geteilt.",
+    goneBody: "Geteilte Resets laufen nach einiger Zeit ab, und wer einen geteilt hat, kann ihn jederzeit entfernen.",
+    deleteTitle: "Diesen geteilten Reset entfernen?",
+    deleteBody: "Der Link funktioniert dann für niemanden mehr.",
+    deleteConfirm: "Entfernen",
+    deleted: "Entfernt. Der Link funktioniert nicht mehr.",
+    deleteFailed: "Dieser Löschlink hat nicht funktioniert. Vielleicht wurde der Reset schon entfernt.",
+  },
+  offline: {
+    queued: "Du bist offline. Was du geschrieben hast, ist verschlüsselt und bleibt nur auf diesem Gerät, bis dein Reset geschrieben ist – sobald du wieder online bist.",
+    notifyTitle: "Dein Reset ist fertig",
+    notifyBody: "Öffne Mindeazy, um die Antwort auf den Gedanken zu lesen, den du offline gespeichert hast.",
+    waiting: {
+      one: "{count} Reset wurde geschrieben, während du offline warst.",
+      other: "{count} Resets wurden geschrieben, während du offline warst.",
+    },
+    open: "Lesen",
+    delivered: "Hier ist der Reset für den Gedanken, den du offline gespeichert hast.",
+    failed: "Für den Gedanken, den du offline gespeichert hast, konnten wir keinen Reset schreiben. Er steht wieder im Textfeld, damit du es noch einmal versuchen kannst.",
+  },
+  subscribe: {
+    back: "Zurück zu deinem Reset",
+    confirm: {
+      title: "Noch ein Schritt.",
+      body: "Bestätige, dass du ab und zu E-Mails von Mindeazy an diese Adresse bekommen möchtest.",
+      confirm: "E-Mail bestätigen",
+    },
+    unsubscribe: {
+      title: "Mindeazy-E-Mails abbestellen?",
+      body: "Du bekommst dann keine E-Mails mehr von uns. Deine Resets bleiben, wo sie sind.",
+      confirm: "Abbestellen",
+    },
+    statuses: {
+      confirmed: {
+        title: "Du bist dabei.",
+        body: "Deine E-Mail-Adresse ist bestätigt. Wir schreiben nur, wenn es etwas gibt, das eine ruhige Minute deiner Zeit wert ist.",
+      },
+      expired: {
+        title: "Dieser Link ist abgelaufen.",
+        body: "Bestätigungslinks gelten 48 Stunden. Gib deine E-Mail-Adresse nach deinem nächsten Reset noch einmal ein, dann schicken wir dir einen neuen.",
+      },
+      unsubscribed: {
+        title: "Du bist abgemeldet.",
+        body: "Wir schreiben dir nicht mehr. Deine Resets sind weiterhin hier, wann immer du sie brauchst.",
+      },
+      invalid: {
+        title: "Dieser Link funktioniert nicht.",
+        body: "Vielleicht wurde er schon benutzt oder nur teilweise kopiert. Versuch es mit der neuesten E-Mail, die wir dir geschickt haben.",
+      },
+      error: {
+        title: "Bei uns ist etwas schiefgelaufen.",
+        body: "Bitte versuch den Link in ein paar Minuten noch einmal.",
+      },
+    },
+  },
+  api: {
+    emptyInput: "Schreib zuerst auf, was dich beschäftigt.",
+    tooLarge: "Das ist viel auf einmal. Versuch es mit einer kürzeren Fassung.",
+    tooLong: "Das ist viel auf einmal. Versuch, unter {max} Zeichen zu bleiben.",
+    unknownMode: "Diese Art von Reset gibt es nicht. Bitte wähle eine andere.",
+    badHistory: "Dieses Gespräch ließ sich nicht fortsetzen. Bitte starte einen neuen Reset.",
+    threadTooLong: "Dieses Gespräch wird lang. Starte einen neuen Reset, damit es übersichtlich bleibt.",
+    emptyReset: "Es wurde kein Reset erstellt. Bitte versuch es noch einmal.",
+    rateLimited:
+      "Du hast in kurzer Zeit viele Resets geschrieben. Geh eine Weile weg vom Bildschirm und komm dann wieder.",
+    invalidEvent: "Dieses Ereignis kennen wir nicht.",
+    invalidBatch: "Diese Ereignisse ließen sich nicht lesen.",
+    batchTooLarge: "Ein Stapel darf höchstens {max} Ereignisse enthalten.",
+    tooManyEvents: "Zu viele Ereignisse. Bitte etwas langsamer.",
+    invalidEmail: "Bitte gib eine gültige E-Mail-Adresse ein.",
+    tooManySignups: "Zu viele Anmeldeversuche. Bitte versuch es gleich noch einmal.",
+    invalidFeedback: "Dieses Feedback konnte nicht gelesen werden.",
+    tooMuchFeedback: "Das ist viel Feedback auf einmal. Bitte etwas langsamer.",
+    unknownReset: "Dieser Reset wurde nicht gefunden.",
+    invalidShare: "Dieser Teilen-Link ist ungültig.",
+    unknownShare: "Dieser geteilte Reset existiert nicht mehr.",
+    tooManyShares: "Zu viele geteilte Resets in kurzer Zeit. Bitte versuch es gleich noch einmal.",
+    syncDisabled: "Die Tagebuch-Sicherung ist hier nicht verfügbar.",
+    invalidSyncCode: "Dieser Sync-Code ist ungültig.",
+    tooManySyncs: "Zu viele Sync-Anfragen. Bitte versuch es gleich noch einmal.",
+    noSyncedJournal: "Zu diesem Sync-Code gibt es kein gesichertes Tagebuch.",
+    syncTooLarge: "Dieses Tagebuch ist zu groß, um es auf einmal zu sichern.",
+    invalidSync: "Diese Tagebuch-Sicherung konnte nicht gelesen werden.",
+  },
+  errors: {
+    validation: "Mit dieser Anfrage stimmte etwas nicht. Bitte prüf sie und versuch es noch einmal.",
+    upstream_timeout: "Dein Reset dauert länger als gedacht. Bitte versuch es gleich noch einmal.",
+    upstream_rate_limit:
+      "Gerade suchen sehr viele Menschen einen Reset. Bitte versuch es in einer Minute noch einmal.",
+    upstream_unavailable:
+      "Wir konnten den Schreibdienst gerade nicht erreichen. Bitte versuch es in ein paar Sekunden noch einmal.",
+    refusal: "Dazu konnten wir keinen Reset schreiben. Versuch, es ein wenig anders auszudrücken.",
+    config_missing: "Mindeazy ist hier noch nicht vollständig eingerichtet. Bitte versuch es später noch einmal.",
+    storage: "Wir konnten das gerade nicht speichern. Bitte versuch es gleich noch einmal.",
+    over_budget:
+      "Gerade machen so viele Menschen einen Reset, dass neue für eine Weile pausieren. Bitte komm später wieder.",
+    internal: "Etwas ist schiefgelaufen. Bitte versuch es in ein paar Sekunden noch einmal.",
+  },
+};
@@ -0,0 +1,264 @@
+// The source catalogue: every other locale must provide the same keys.
+// Placeholders like {minutes} are filled in with format().
+export const en = {
+  header: {
+    logoAlt: "Mindeazy logo",
+    privacy: "Private. Safe. Yours.",
+    journal: "Journal",
+    language: "Language",
+  },
+  hero: {
+    badge: "Personal Reset",
+    titleLine1: "Calm your mind.",
+    titleLine2: "Reset your day.",
+    intro: "Write what's on your mind and get a calm, personalized reset in seconds.",
+  },
+  compose: {
+    label: "What's on your mind right now?",
+    hint: "Write freely. Just get it out of your head.",
+    moodBefore: "How intense does this feel right now? (optional)",
+    submit: "✦ Get My Reset",
+    submitting: "Creating your reset...",
+    modeLabel: "Reset mode",
+    trust: "100% private • No login required • Just for you",
+    emptyInput: "Please write what’s on your mind first.",
+    genericError: "Something went wrong",
+    rateLimited: {
+      one: "You’ve written a lot of resets in a short time. Give yourself a few quiet minutes away from the screen. You can write another in about {minutes} minute.",
+      other:
+        "You’ve written a lot of resets in a short time. Give yourself a few quiet minutes away from the screen. You can write another in about {minutes} minutes.",
+    },
+  },
+  modes: {
+    standard: { label: "Reset", hint: "A calm, personal reset" },
+    quick: { label: "Quick interrupt", hint: "Readable in about 30 seconds" },
+    deeper: { label: "Deeper reframe", hint: "Takes a little longer to untangle it" },
+    bedtime: { label: "Can’t sleep", hint: "Softer and slower, for the middle of the night" },
+  },
+  reset: {
+    title: "Your Personal Reset",
+    pattern: "What your mind is doing:",
+    nextStep: "One small next step:",
+    thinking: "Thinking it through with you...",
+    replyPlaceholder: "But what if it actually happens?",
+    reply: "Reply",
+    moodAfter: "And how intense does it feel now?",
+    saveMood: "Save check-in",
+    moodSaved: "Thanks for checking in. You went from {before} to {after}.",
+    journalSaved: "Saved to your private journal",
+    journalOffer: "Keep your resets in a private journal",
+    encouragement: "You've got this. One reset at a time.",
+    startOver: "Write a new reset",
+    footer: "You don't have to carry it all. Let's take it one thought at a time.",
+    placeholders: [
+      "Your mind is doing its best to protect you, but constant overthinking only keeps you stuck in the same loop.",
+      "You don’t need to solve everything today. You just need a small step that moves you forward.",
+      "Give yourself permission to pause, breathe, and focus on what you can control right now.",
+      "Progress isn’t about big leaps. It’s about showing up for yourself, even in the smallest ways.",
+    ],
+  },
+  patterns: {
+    worst_case_thinking: "Worst-case thinking",
+    fear_of_uncertainty: "Fear of uncertainty",
+    spiraling: "Spiraling",
+    mental_replay: "Mental replay",
+    regret: "Regret",
+    self_blame: "Self-blame",
+    comparison_pressure: "Comparison pressure",
+    shame: "Shame",
+    emotional_overwhelm: "Emotional overwhelm",
+    fear_of_losing_control: "Fear of losing control",
+    overthinking_loop: "Solving a feeling by thinking more",
+    possibility_as_reality: "Treating possibility like reality",
+    moment_as_whole_story: "Treating one moment like the whole story",
+    uncertainty_as_danger: "Treating uncertainty like danger",
+    false_urgency: "Everything must be solved now",
+  },
+  feedback: {
+    question: "Did this help?",
+    thanks: "Thanks. What stood out?",
+    helpful: "Helpful",
+    notHelpful: "Not helpful",
+    tags: {
+      understood_me: "Understood me",
+      useful_next_step: "Useful next step",
+      felt_generic: "Felt generic",
+      too_long: "Too long",
+      wrong_situation: "Wrong situation",
+    },
+  },
+  mood: {
+    low: "Barely there",
+    high: "Overwhelming",
+  },
+  email: {
+    prompt: "Want a gentle check-in by email?",
+    placeholder: "you@example.com",
+    submit: "Keep me posted",
+    sent: "Check your inbox to confirm. Nothing will be sent until you do.",
+    invalid: "Please enter a valid email.",
+    failed: "We couldn't save your email right now.",
+  },
+  crisis: {
+    heavy:
+      "It sounds like you are carrying something really heavy right now. You deserve more than a written reset for this.",
+    notAlone:
+      "You don't have to hold it on your own. A real person can talk it through with you, right now, for free.",
+    text: "Text {number}",
+    website: "Website",
+    emergency: "If you are in immediate danger, please call {number} or your local emergency number now.",
+  },
+  journal: {
+    title: "Your journal",
+    close: "Close journal",
+    intro:
+      "Saved only in this browser and locked with your passphrase. Nobody else can read it, including us.",
+    storageBlocked: "Your browser blocked local storage, so the journal can't open here.",
+    genericError: "Something went wrong",
+    passphraseTooShort: "Use at least {min} characters.",
+    passphraseMismatch: "The two passphrases don't match.",
+    wrongPassphrase: "That passphrase didn't open the journal.",
+    restoreFailed: "That sync code and passphrase didn't match a journal.",
+    confirmDelete: "Delete your journal from this browser? This can't be undone.",
+    imported: { one: "Imported {count} entry.", other: "Imported {count} entries." },
+    importFailed: {
+      not_export: "That file isn’t a Mindeazy journal export.",
+      other_passphrase: "That file was saved with a different passphrase.",
+    },
+    syncOff: "Sync is off and the server copy has been deleted.",
+    setupIntro: "Choose a passphrase. If you forget it, the journal can't be recovered.",
+    passphrase: "Passphrase",
+    passphraseAgain: "Type it again",
+    start: "Start my journal",
+    haveSyncCode: "I have a sync code",
+    unlock: "Unlock",
+    forgot: "Forgot it? Delete journal",
+    syncCode: "Sync code",
+    restore: "Restore journal",
+    back: "Back",
+    search: "Search your resets",
+    empty: "Your resets will appear here as you write them.",
+    noMatches: "Nothing matches that search.",
+    deleteEntry: "Delete this entry",
+    export: "Export",
+    import: "Import",
+    lock: "Lock",
+    syncOn:
+      "Encrypted backup is on. To open this journal on another device, use this sync code with your passphrase:",
+    syncOffer:
+      "Back up an encrypted copy so you can open it on another device. The server only ever sees scrambled text.",
+    disableSync: "Turn off backup",
+    enableSync: "Turn on encrypted backup",
+  },
+  share: {
+    action: "Share this reset",
+    creating: "Creating a link...",
+    ready: "Anyone with this link can read this reset, but not what you wrote. It works until {date}.",
+    copy: "Copy link",
+    copied: "Link copied",
+    deleteHint: "Keep this private link to remove the share sooner:",
+    failed: "We couldn't create a link right now.",
+    badge: "A shared reset",
+    expires: "Shared until {date}",
+    cta: "Write your own reset",
+    gone: "This reset isn't shared any more.",
+    goneBody: "Shared resets expire after a while, and whoever shared one can remove it at any time.",
+    deleteTitle: "Remove this shared reset?",
+    deleteBody: "The link will stop working for everyone who has it.",
+    deleteConfirm: "Remove it",
+    deleted: "Removed. The link no longer works.",
+    deleteFailed: "That delete link didn't work. The share may already be gone.",
+  },
+  offline: {
+    queued: "You're offline. What you wrote is encrypted and kept only on this device until your reset is written, as soon as you're back online.",
+    notifyTitle: "Your reset is ready",
+    notifyBody: "Open Mindeazy to read what came back for the thought you saved offline.",
+    waiting: {
+      one: "{count} reset was written while you were offline.",
+      other: "{count} resets were written while you were offline.",
+    },
+    open: "Read it",
+    delivered: "Here's the reset for the thought you saved while offline.",
+    failed: "We couldn't write a reset for the thought you saved offline. It's back in the box so you can try again.",
+  },
+  subscribe: {
+    back: "Back to your reset",
+    confirm: {
+      title: "One more step.",
+      body: "Confirm that you want occasional emails from Mindeazy at this address.",
+      confirm: "Confirm my email",
+    },
+    unsubscribe: {
+      title: "Unsubscribe from Mindeazy emails?",
+      body: "You won’t get any more emails from us. Your resets stay right where they are.",
+      confirm: "Unsubscribe",
+    },
+    statuses: {
+      confirmed: {
+        title: "You're in.",
+        body: "Your email is confirmed. We'll only write when there's something worth a calm minute of your time.",
+      },
+      expired: {
+        title: "That link has expired.",
+        body: "Confirmation links last 48 hours. Enter your email again after your next reset and we'll send a fresh one.",
+      },
+      unsubscribed: {
+        title: "You're unsubscribed.",
+        body: "We won't email you again. Your resets are still here whenever you need them.",
+      },
+      invalid: {
+        title: "That link doesn't work.",
+        body: "It may have been used already, or copied only in part. Try the newest email we sent you.",
+      },
+      error: {
+        title: "Something went wrong on our side.",
+        body: "Please try the link again in a few minutes.",
+      },
+    },
+  },
+  api: {
+    emptyInput: "Please write what’s on your mind first.",
+    tooLarge: "That’s a lot to hold at once. Try writing a shorter version.",
+    tooLong: "That’s a lot to hold at once. Try keeping it under {max} characters.",
+    unknownMode: "That reset mode isn’t available. Please pick another one.",
+    badHistory: "This conversation couldn’t be continued. Please start a new reset.",
+    threadTooLong: "This thread is getting long. Start a new reset to keep things clear.",
+    emptyReset: "No reset was generated. Please try again.",
+    rateLimited:
+      "You’ve written a lot of resets in a short time. Step away from the screen for a little while, then come back.",
+    invalidEvent: "That event wasn’t recognised.",
+    invalidBatch: "That batch of events couldn’t be read.",
+    batchTooLarge: "A batch can hold at most {max} events.",
+    tooManyEvents: "Too many events. Please slow down.",
+    invalidEmail: "Please enter a valid email.",
+    tooManySignups: "Too many signup attempts. Please try again in a little while.",
+    invalidFeedback: "That feedback couldn’t be read.",
+    tooMuchFeedback: "That’s a lot of feedback at once. Please slow down.",
+    unknownReset: "That reset couldn’t be found.",
+    invalidShare: "That share link isn’t valid.",
+    unknownShare: "That share doesn’t exist any more.",
+    tooManyShares: "Too many shares in a short time. Please try again in a little while.",
+    syncDisabled: "Journal backup isn’t available here.",
+    invalidSyncCode: "That sync code isn’t valid.",
+    tooManySyncs: "Too many sync requests. Please try again in a little while.",
+    noSyncedJournal: "There’s no backed-up journal for this sync code.",
+    syncTooLarge: "This journal is too large to back up in one go.",
+    invalidSync: "That journal backup couldn’t be read.",
+  },
+  errors: {
+    validation: "Something in that request didn’t look right. Please check it and try again.",
+    upstream_timeout: "Your reset is taking longer than it should. Please try again in a moment.",
+    upstream_rate_limit:
+      "A lot of people are reaching for a reset right now. Please try again in a minute.",
+    upstream_unavailable:
+      "We couldn’t reach the writing service just now. Please try again in a few seconds.",
+    refusal: "We couldn’t write a reset for that. Try putting it a little differently.",
+    config_missing: "Mindeazy isn’t fully set up here yet. Please try again later.",
+    storage: "We couldn’t save that right now. Please try again shortly.",
+    over_budget:
+      "So many people are resetting right now that new resets are paused for a little while. Please come back later.",
+    internal: "Something went wrong. Please try again in a few seconds.",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,263 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  header: {
+    logoAlt: "Logotipo de Mindeazy",
+    privacy: "Privado. Seguro. Tuyo.",
+    journal: "Diario",
+    language: "Idioma",
+  },
+  hero: {
+    badge: "Reinicio personal",
+    titleLine1: "Calma tu mente.",
+    titleLine2: "Reinicia tu día.",
+    intro: "Escribe lo que tienes en la cabeza y recibe un reinicio sereno y personal en segundos.",
+  },
+  compose: {
+    label: "¿Qué tienes en la cabeza ahora mismo?",
+    hint: "Escribe con libertad. Solo sácalo de tu cabeza.",
+    moodBefore: "¿Con qué intensidad lo sientes ahora mismo? (opcional)",
+    submit: "✦ Quiero mi reinicio",
+    submitting: "Preparando tu reinicio...",
+    modeLabel: "Tipo de reinicio",
+    trust: "100 % privado • Sin registro • Solo para ti",
+    emptyInput: "Primero escribe lo que tienes en la cabeza.",
+    genericError: "Algo salió mal",
+    rateLimited: {
+      one: "Has escrito muchos reinicios en poco tiempo. Regálate unos minutos de calma lejos de la pantalla. Podrás escribir otro en aproximadamente {minutes} minuto.",
+      other:
+        "Has escrito muchos reinicios en poco tiempo. Regálate unos minutos de calma lejos de la pantalla. Podrás escribir otro en aproximadamente {minutes} minutos.",
+    },
+  },
+  modes: {
+    standard: { label: "Reinicio", hint: "Un reinicio sereno y personal" },
+    quick: { label: "Pausa rápida", hint: "Se lee en unos 30 segundos" },
+    deeper: { label: "Replanteamiento profundo", hint: "Se toma un poco más de tiempo para desenredarlo" },
+    bedtime: { label: "No puedo dormir", hint: "Más suave y pausado, para mitad de la noche" },
+  },
+  reset: {
+    title: "Tu reinicio personal",
+    pattern: "Lo que está haciendo tu mente:",
+    nextStep: "Un pequeño siguiente paso:",
+    thinking: "Pensándolo contigo...",
+    replyPlaceholder: "¿Y si de verdad pasa?",
+    reply: "Responder",
+    moodAfter: "¿Y con qué intensidad lo sientes ahora?",
+    saveMood: "Guardar",
+    moodSaved: "Gracias por contarlo. Pasaste de {before} a {after}.",
+    journalSaved: "Guardado en tu diario privado",
+    journalOffer: "Guarda tus reinicios en un diario privado",
+    encouragement: "Puedes con esto. Un reinicio cada vez.",
+    startOver: "Escribir un reinicio nuevo",
+    footer: "No tienes que cargar con todo. Vamos pensamiento a pensamiento.",
+    placeholders: [
+      "Tu mente hace lo posible por protegerte, pero darle vueltas a todo sin parar solo te deja atrapado en el mismo bucle.",
+      "No tienes que resolverlo todo hoy. Solo necesitas un pequeño paso que te haga avanzar.",
+      "Date permiso para parar, respirar y centrarte en lo que sí puedes controlar ahora mismo.",
+      "Avanzar no va de grandes saltos. Va de estar ahí para ti, incluso en los gestos más pequeños.",
+    ],
+  },
+  patterns: {
+    worst_case_thinking: "Pensar en lo peor",
+    fear_of_uncertainty: "Miedo a la incertidumbre",
+    spiraling: "Espiral de pensamientos",
+    mental_replay: "Repetición mental",
+    regret: "Arrepentimiento",
+    self_blame: "Culparte a ti mismo",
+    comparison_pressure: "Presión por compararte",
+    shame: "Vergüenza",
+    emotional_overwhelm: "Desborde emocional",
+    fear_of_losing_control: "Miedo a perder el control",
+    overthinking_loop: "Intentar resolver un sentimiento pensando más",
+    possibility_as_reality: "Tratar una posibilidad como un hecho",
+    moment_as_whole_story: "Tratar un momento como toda la historia",
+    uncertainty_as_danger: "Tratar la incertidumbre como un peligro",
+    false_urgency: "Sentir que todo hay que resolverlo ya",
+  },
+  feedback: {
+    question: "¿Te ha ayudado?",
+    thanks: "Gracias. ¿Qué destacarías?",
+    helpful: "Me ha ayudado",
+    notHelpful: "No me ha ayudado",
+    tags: {
+      understood_me: "Me entendió",
+      useful_next_step: "Paso siguiente útil",
+      felt_generic: "Demasiado genérico",
+      too_long: "Demasiado largo",
+      wrong_situation: "No era mi situación",
+    },
+  },
+  mood: {
+    low: "Apenas",
+    high: "Me desborda",
+  },
+  email: {
+    prompt: "¿Quieres que te escribamos de vez en cuando para ver cómo estás?",
+    placeholder: "tu@ejemplo.com",
+    submit: "Avísame",
+    sent: "Revisa tu bandeja de entrada para confirmar. No enviaremos nada hasta que lo hagas.",
+    invalid: "Escribe un correo electrónico válido.",
+    failed: "No hemos podido guardar tu correo ahora mismo.",
+  },
+  crisis: {
+    heavy:
+      "Parece que ahora mismo estás cargando con algo muy pesado. Para esto mereces algo más que un reinicio escrito.",
+    notAlone:
+      "No tienes que sostenerlo tú solo. Una persona real puede hablarlo contigo ahora mismo, gratis.",
+    text: "SMS al {number}",
+    website: "Sitio web",
+    emergency:
+      "Si estás en peligro inmediato, llama ahora al {number} o al número de emergencias de tu zona.",
+  },
+  journal: {
+    title: "Tu diario",
+    close: "Cerrar el diario",
+    intro:
+      "Se guarda solo en este navegador, protegido con tu frase de acceso. Nadie más puede leerlo, ni siquiera nosotros.",
+    storageBlocked: "Tu navegador bloqueó el almacenamiento local, así que el diario no puede abrirse aquí.",
+    genericError: "Algo salió mal",
+    passphraseTooShort: "Usa al menos {min} caracteres.",
+    passphraseMismatch: "Las dos frases de acceso no coinciden.",
+    wrongPassphrase: "Esa frase de acceso no abre el diario.",
+    restoreFailed: "Ese código de sincronización y esa frase de acceso no corresponden a ningún diario.",
+    confirmDelete: "¿Borrar tu diario de este navegador? No se puede deshacer.",
+    imported: { one: "Se importó {count} entrada.", other: "Se importaron {count} entradas." },
+    importFailed: {
+      not_export: "Ese archivo no es una exportación del diario de Mindeazy.",
+      other_passphrase: "Ese archivo se guardó con otra frase de acceso.",
+    },
+    syncOff: "La sincronización está desactivada y la copia del servidor se ha borrado.",
+    setupIntro: "Elige una frase de acceso. Si la olvidas, el diario no se podrá recuperar.",
+    passphrase: "Frase de acceso",
+    passphraseAgain: "Escríbela otra vez",
+    start: "Empezar mi diario",
+    haveSyncCode: "Tengo un código de sincronización",
+    unlock: "Desbloquear",
+    forgot: "¿La olvidaste? Borrar el diario",
+    syncCode: "Código de sincronización",
+    restore: "Recuperar el diario",
+    back: "Volver",
+    search: "Busca en tus reinicios",
+    empty: "Tus reinicios aparecerán aquí a medida que los escribas.",
+    noMatches: "Nada coincide con esa búsqueda.",
+    deleteEntry: "Borrar esta entrada",
+    export: "Exportar",
+    import: "Importar",
+    lock: "Bloquear",
+    syncOn:
+      "La copia cifrada está activada. Para abrir este diario en otro dispositivo, usa este código de sincronización con tu frase de acceso:",
+    syncOffer:
+      "Guarda una copia cifrada para poder abrirlo en otro dispositivo. El servidor solo ve texto ilegible.",
+    disableSync: "Desactivar la copia",
+    enableSync: "Activar la copia cifrada",
+  },
+  share: {
+    action: "Compartir este reinicio",
+    creating: "Creando un enlace...",
+    ready: "Cualquiera con este enlace puede leer este reinicio, pero no lo que escribiste tú. Funciona hasta el {date}.",
+    copy: "Copiar enlace",
+    copied: "Enlace copiado",
+    deleteHint: "Guarda este enlace privado para dejar de compartirlo antes:",
+    failed: "No hemos podido crear un enlace ahora mismo.",
+    badge: "Un reinicio compartido",
+    expires: "Compartido hasta el {date}",
+    cta: "Escribe tu propio reinicio",
+    gone: "Este reinicio ya no se comparte.",
+    goneBody: "Los reinicios compartidos caducan pasado un tiempo, y quien lo compartió puede retirarlo cuando quiera.",
+    deleteTitle: "¿Dejar de compartir este reinicio?",
+    deleteBody: "El enlace dejará de funcionar para todas las personas que lo tengan.",
+    deleteConfirm: "Dejar de compartir",
+    deleted: "Hecho. El enlace ya no funciona.",
+    deleteFailed: "Ese enlace para borrar no ha funcionado. Puede que ya no se comparta.",
+  },
+  offline: {
+    queued: "Estás sin conexión. Lo que escribiste se ha cifrado y se guarda solo en este dispositivo hasta que se escriba tu reinicio, en cuanto vuelvas a tener conexión.",
+    notifyTitle: "Tu reinicio está listo",
+    notifyBody: "Abre Mindeazy para leer la respuesta al pensamiento que guardaste sin conexión.",
+    waiting: {
+      one: "Se escribió {count} reinicio mientras estabas sin conexión.",
+      other: "Se escribieron {count} reinicios mientras estabas sin conexión.",
+    },
+    open: "Leerlo",
+    delivered: "Aquí tienes el reinicio para el pensamiento que guardaste sin conexión.",
+    failed: "No hemos podido escribir un reinicio para el pensamiento que guardaste sin conexión. Lo hemos devuelto al cuadro para que vuelvas a intentarlo.",
+  },
+  subscribe: {
+    back: "Volver a tu reinicio",
+    confirm: {
+      title: "Un paso más.",
+      body: "Confirma que quieres recibir de vez en cuando correos de Mindeazy en esta dirección.",
+      confirm: "Confirmar mi correo",
+    },
+    unsubscribe: {
+      title: "¿Dejar de recibir los correos de Mindeazy?",
+      body: "No te enviaremos más correos. Tus resets siguen aquí igual que siempre.",
+      confirm: "Darme de baja",
+    },
+    statuses: {
+      confirmed: {
+        title: "Ya estás dentro.",
+        body: "Tu correo está confirmado. Solo te escribiremos cuando haya algo que merezca un minuto tranquilo de tu tiempo.",
+      },
+      expired: {
+        title: "Ese enlace ha caducado.",
+        body: "Los enlaces de confirmación duran 48 horas. Vuelve a escribir tu correo después de tu próximo reinicio y te enviaremos uno nuevo.",
+      },
+      unsubscribed: {
+        title: "Te has dado de baja.",
+        body: "No volveremos a escribirte. Tus reinicios siguen aquí siempre que los necesites.",
+      },
+      invalid: {
+        title: "Ese enlace no funciona.",
+        body: "Puede que ya se haya usado o que solo se copiara en parte. Prueba con el correo más reciente que te enviamos.",
+      },
+      error: {
+        title: "Algo falló por nuestra parte.",
+        body: "Vuelve a probar el enlace dentro de unos minutos.",
+      },
+    },
+  },
+  api: {
+    emptyInput: "Primero escribe lo que tienes en la cabeza.",
+    tooLarge: "Es mucho para sostener de una vez. Prueba a escribir una versión más corta.",
+    tooLong: "Es mucho para sostener de una vez. Intenta no pasar de {max} caracteres.",
+    unknownMode: "Ese tipo de reinicio no está disponible. Elige otro.",
+    badHistory: "No se ha podido continuar esta conversación. Empieza un reinicio nuevo.",
+    threadTooLong: "Esta conversación se está alargando. Empieza un reinicio nuevo para verlo con claridad.",
+    emptyReset: "No se ha generado ningún reinicio. Vuelve a intentarlo.",
+    rateLimited:
+      "Has escrito muchos reinicios en poco tiempo. Aléjate un rato de la pantalla y luego vuelve.",
+    invalidEvent: "No hemos reconocido ese evento.",
+    invalidBatch: "No hemos podido leer ese lote de eventos.",
+    batchTooLarge: "Un lote admite como máximo {max} eventos.",
+    tooManyEvents: "Demasiados eventos. Ve un poco más despacio.",
+    invalidEmail: "Escribe un correo electrónico válido.",
+    tooManySignups: "Demasiados intentos de suscripción. Vuelve a intentarlo dentro de un rato.",
+    invalidFeedback: "No se pudo leer esa valoración.",
+    tooMuchFeedback: "Son muchas valoraciones a la vez. Ve un poco más despacio.",
+    unknownReset: "No se encontró ese reset.",
+    invalidShare: "Ese enlace para compartir no es válido.",
+    unknownShare: "Ese reset compartido ya no existe.",
+    tooManyShares: "Has compartido demasiado en poco tiempo. Vuelve a intentarlo dentro de un rato.",
+    syncDisabled: "La copia de seguridad del diario no está disponible aquí.",
+    invalidSyncCode: "Ese código de sincronización no es válido.",
+    tooManySyncs: "Demasiadas sincronizaciones. Vuelve a intentarlo dentro de un rato.",
+    noSyncedJournal: "No hay ningún diario guardado con este código de sincronización.",
+    syncTooLarge: "Este diario es demasiado grande para guardarlo de una vez.",
+    invalidSync: "No se pudo leer esa copia del diario.",
+  },
+  errors: {
+    validation: "Algo en esa solicitud no parecía correcto. Revísalo y vuelve a intentarlo.",
+    upstream_timeout: "Tu reinicio está tardando más de lo normal. Vuelve a intentarlo en un momento.",
+    upstream_rate_limit:
+      "Mucha gente está buscando un reinicio ahora mismo. Vuelve a intentarlo dentro de un minuto.",
+    upstream_unavailable:
+      "No hemos podido conectar con el servicio de escritura. Vuelve a intentarlo en unos segundos.",
+    refusal: "No hemos podido escribir un reinicio para eso. Prueba a contarlo de otra manera.",
+    config_missing: "Mindeazy todavía no está del todo configurado aquí. Vuelve a intentarlo más tarde.",
+    storage: "No hemos podido guardarlo ahora mismo. Vuelve a intentarlo en breve.",
+    over_budget:
+      "Hay tanta gente haciendo reinicios que los nuevos están en pausa un rato. Vuelve más tarde.",
+    internal: "Algo salió mal. Vuelve a intentarlo en unos segundos.",
+  },
+};
@@ -0,0 +1,263 @@
+import type { Messages } from "./en";
+
+export const fr: Messages = {
+  header: {
+    logoAlt: "Logo Mindeazy",
+    privacy: "Privé. Sûr. À vous.",
+    journal: "Journal",
+    language: "Langue",
+  },
+  hero: {
+    badge: "Pause personnelle",
+    titleLine1: "Apaisez votre esprit.",
+    titleLine2: "Réinitialisez votre journée.",
+    intro: "Écrivez ce qui vous occupe l’esprit et recevez en quelques secondes une pause apaisante et personnelle.",
+  },
+  compose: {
+    label: "Qu’est-ce qui vous occupe l’esprit en ce moment ?",
+    hint: "Écrivez librement. Sortez-le simplement de votre tête.",
+    moodBefore: "Avec quelle intensité le ressentez-vous en ce moment ? (facultatif)",
+    submit: "✦ Ma pause",
+    submitting: "Création de votre pause...",
+    modeLabel: "Type de pause",
+    trust: "100 % privé • Sans inscription • Rien que pour vous",
+    emptyInput: "Écrivez d’abord ce qui vous occupe l’esprit.",
+    genericError: "Une erreur s’est produite",
+    rateLimited: {
+      one: "Vous avez écrit beaucoup de pauses en peu de temps. Accordez-vous quelques minutes de calme loin de l’écran. Vous pourrez en écrire une autre dans environ {minutes} minute.",
+      other:
+        "Vous avez écrit beaucoup de pauses en peu de temps. Accordez-vous quelques minutes de calme loin de l’écran. Vous pourrez en écrire une autre dans environ {minutes} minutes.",
+    },
+  },
+  modes: {
+    standard: { label: "Pause", hint: "Une pause apaisante et personnelle" },
+    quick: { label: "Interruption rapide", hint: "Se lit en 30 secondes environ" },
+    deeper: { label: "Recadrage approfondi", hint: "Prend un peu plus de temps pour démêler les choses" },
+    bedtime: { label: "Pas sommeil", hint: "Plus doux et plus lent, pour le milieu de la nuit" },
+  },
+  reset: {
+    title: "Votre pause personnelle",
+    pattern: "Ce que fait votre esprit :",
+    nextStep: "Un petit pas suivant :",
+    thinking: "J’y réfléchis avec vous...",
+    replyPlaceholder: "Et si ça arrivait vraiment ?",
+    reply: "Répondre",
+    moodAfter: "Et avec quelle intensité le ressentez-vous maintenant ?",
+    saveMood: "Enregistrer",
+    moodSaved: "Merci d’avoir fait le point. Vous êtes passé de {before} à {after}.",
+    journalSaved: "Enregistré dans votre journal privé",
+    journalOffer: "Gardez vos pauses dans un journal privé",
+    encouragement: "Vous pouvez y arriver. Une pause à la fois.",
+    startOver: "Écrire une nouvelle pause",
+    footer: "Vous n’avez pas à tout porter. Avançons une pensée à la fois.",
+    placeholders: [
+      "Votre esprit fait de son mieux pour vous protéger, mais ruminer sans cesse vous garde enfermé dans la même boucle.",
+      "Vous n’avez pas besoin de tout résoudre aujourd’hui. Il vous faut juste un petit pas qui vous fait avancer.",
+      "Autorisez-vous à faire une pause, à respirer et à vous concentrer sur ce que vous pouvez contrôler maintenant.",
+      "Avancer, ce n’est pas faire de grands bonds. C’est être là pour vous-même, même dans les plus petits gestes.",
+    ],
+  },
+  patterns: {
+    worst_case_thinking: "Imaginer le pire",
+    fear_of_uncertainty: "Peur de l’incertitude",
+    spiraling: "Spirale de pensées",
+    mental_replay: "Rejouer la scène",
+    regret: "Regret",
+    self_blame: "Se faire des reproches",
+    comparison_pressure: "Pression de la comparaison",
+    shame: "Honte",
+    emotional_overwhelm: "Débordement émotionnel",
+    fear_of_losing_control: "Peur de perdre le contrôle",
+    overthinking_loop: "Vouloir résoudre une émotion en réfléchissant davantage",
+    possibility_as_reality: "Prendre une possibilité pour une réalité",
+    moment_as_whole_story: "Prendre un moment pour toute l’histoire",
+    uncertainty_as_danger: "Voir l’incertitude comme un danger",
+    false_urgency: "Tout doit être réglé tout de suite",
+  },
+  feedback: {
+    question: "Cela vous a-t-il aidé ?",
+    thanks: "Merci. Qu’est-ce qui vous a marqué ?",
+    helpful: "Utile",
+    notHelpful: "Pas utile",
+    tags: {
+      understood_me: "Je me suis senti compris",
+      useful_next_step: "Prochaine étape utile",
+      felt_generic: "Trop générique",
+      too_long: "Trop long",
+      wrong_situation: "Pas ma situation",
+    },
+  },
+  mood: {
+    low: "À peine",
+    high: "Écrasant",
+  },
+  email: {
+    prompt: "Envie d’un petit message de suivi par e-mail ?",
+    placeholder: "vous@exemple.com",
+    submit: "Tenez-moi au courant",
+    sent: "Consultez votre boîte de réception pour confirmer. Rien ne sera envoyé avant.",
+    invalid: "Saisissez une adresse e-mail valide.",
+    failed: "Nous n’avons pas pu enregistrer votre e-mail pour le moment.",
+  },
+  crisis: {
+    heavy:
+      "On dirait que vous portez quelque chose de vraiment lourd en ce moment. Vous méritez plus qu’une pause écrite pour cela.",
+    notAlone:
+      "Vous n’avez pas à porter cela seul. Une vraie personne peut en parler avec vous, maintenant, gratuitement.",
+    text: "SMS au {number}",
+    website: "Site web",
+    emergency:
+      "Si vous êtes en danger immédiat, appelez maintenant le {number} ou le numéro d’urgence local.",
+  },
+  journal: {
+    title: "Votre journal",
+    close: "Fermer le journal",
+    intro:
+      "Enregistré uniquement dans ce navigateur et verrouillé par votre phrase secrète. Personne d’autre ne peut le lire, pas même nous.",
+    storageBlocked: "Votre navigateur a bloqué le stockage local, le journal ne peut donc pas s’ouvrir ici.",
+    genericError: "Une erreur s’est produite",
+    passphraseTooShort: "Utilisez au moins {min} caractères.",
+    passphraseMismatch: "Les deux phrases secrètes ne correspondent pas.",
+    wrongPassphrase: "Cette phrase secrète n’ouvre pas le journal.",
+    restoreFailed: "Ce code de synchronisation et cette phrase secrète ne correspondent à aucun journal.",
+    confirmDelete: "Supprimer votre journal de ce navigateur ? Cette action est irréversible.",
+    imported: { one: "{count} entrée importée.", other: "{count} entrées importées." },
+    importFailed: {
+      not_export: "Ce fichier n’est pas un export de journal Mindeazy.",
+      other_passphrase: "Ce fichier a été enregistré avec une autre phrase secrète.",
+    },
+    syncOff: "La synchronisation est désactivée et la copie sur le serveur a été supprimée.",
+    setupIntro: "Choisissez une phrase secrète. Si vous l’oubliez, le journal ne pourra pas être récupéré.",
+    passphrase: "Phrase secrète",
+    passphraseAgain: "Saisissez-la à nouveau",
+    start: "Commencer mon journal",
+    haveSyncCode: "J’ai un code de synchronisation",
+    unlock: "Déverrouiller",
+    forgot: "Oubliée ? Supprimer le journal",
+    syncCode: "Code de synchronisation",
+    restore: "Restaurer le journal",
+    back: "Retour",
+    search: "Rechercher dans vos pauses",
+    empty: "Vos pauses apparaîtront ici au fur et à mesure.",
+    noMatches: "Aucun résultat pour cette recherche.",
+    deleteEntry: "Supprimer cette entrée",
+    export: "Exporter",
+    import: "Importer",
+    lock: "Verrouiller",
+    syncOn:
+      "La sauvegarde chiffrée est activée. Pour ouvrir ce journal sur un autre appareil, utilisez ce code de synchronisation avec votre phrase secrète :",
+    syncOffer:
+      "Sauvegardez une copie chiffrée pour l’ouvrir sur un autre appareil. Le serveur ne voit jamais que du texte brouillé.",
+    disableSync: "Désactiver la sauvegarde",
+    enableSync: "Activer la sauvegarde chiffrée",
+  },
+  share: {
+    action: "Partager cette pause",
+    creating: "Création du lien...",
+    ready: "Toute personne ayant ce lien peut lire cette pause, mais pas ce que vous avez écrit. Il fonctionne jusqu’au {date}.",
+    copy: "Copier le lien",
+    copied: "Lien copié",
+    deleteHint: "Gardez ce lien privé pour retirer le partage plus tôt :",
+    failed: "Nous n’avons pas pu créer de lien pour le moment.",
+    badge: "Une pause partagée",
+    expires: "Partagée jusqu’au {date}",
+    cta: "Écrire votre propre pause",
+    gone: "Cette pause n’est plus partagée.",
+    goneBody: "Les pauses partagées expirent au bout d’un moment, et la personne qui l’a partagée peut la retirer à tout moment.",
+    deleteTitle: "Retirer cette pause partagée ?",
+    deleteBody: "Le lien cessera de fonctionner pour toutes les personnes qui l’ont.",
+    deleteConfirm: "La retirer",
+    deleted: "C’est fait. Le lien ne fonctionne plus.",
+    deleteFailed: "Ce lien de suppression n’a pas fonctionné. Le partage a peut-être déjà été retiré.",
+  },
+  offline: {
+    queued: "Vous êtes hors ligne. Ce que vous avez écrit est chiffré et gardé uniquement sur cet appareil jusqu’à ce que votre pause soit écrite, dès que la connexion reviendra.",
+    notifyTitle: "Votre pause est prête",
+    notifyBody: "Ouvrez Mindeazy pour lire la réponse à la pensée enregistrée hors ligne.",
+    waiting: {
+      one: "{count} pause a été écrite pendant que vous étiez hors ligne.",
+      other: "{count} pauses ont été écrites pendant que vous étiez hors ligne.",
+    },
+    open: "La lire",
+    delivered: "Voici la pause pour la pensée que vous avez enregistrée hors ligne.",
+    failed: "Nous n’avons pas pu écrire de pause pour la pensée enregistrée hors ligne. Elle est de retour dans le champ pour que vous puissiez réessayer.",
+  },
+  subscribe: {
+    back: "Retour à votre pause",
+    confirm: {
+      title: "Encore une étape.",
+      body: "Confirmez que vous souhaitez recevoir de temps en temps des e-mails de Mindeazy à cette adresse.",
+      confirm: "Confirmer mon e-mail",
+    },
+    unsubscribe: {
+      title: "Se désabonner des e-mails de Mindeazy ?",
+      body: "Vous ne recevrez plus d’e-mails de notre part. Vos resets restent là où ils sont.",
+      confirm: "Me désabonner",
+    },
+    statuses: {
+      confirmed: {
+        title: "C’est fait.",
+        body: "Votre e-mail est confirmé. Nous n’écrirons que lorsqu’il y aura quelque chose qui mérite une minute de calme.",
+      },
+      expired: {
+        title: "Ce lien a expiré.",
+        body: "Les liens de confirmation sont valables 48 heures. Saisissez à nouveau votre e-mail après votre prochaine pause et nous vous en enverrons un nouveau.",
+      },
+      unsubscribed: {
+        title: "Vous êtes désinscrit.",
+        body: "Nous ne vous écrirons plus. Vos pauses sont toujours là quand vous en avez besoin.",
+      },
+      invalid: {
+        title: "Ce lien ne fonctionne pas.",
+        body: "Il a peut-être déjà été utilisé, ou n’a été copié qu’en partie. Essayez le dernier e-mail que nous vous avons envoyé.",
+      },
+      error: {
+        title: "Un problème est survenu de notre côté.",
+        body: "Réessayez le lien dans quelques minutes.",
+      },
+    },
+  },
+  api: {
+    emptyInput: "Écrivez d’abord ce qui vous occupe l’esprit.",
+    tooLarge: "C’est beaucoup à porter d’un coup. Essayez d’écrire une version plus courte.",
+    tooLong: "C’est beaucoup à porter d’un coup. Essayez de rester sous les {max} caractères.",
+    unknownMode: "Ce type de pause n’est pas disponible. Choisissez-en un autre.",
+    badHistory: "Cette conversation n’a pas pu continuer. Commencez une nouvelle pause.",
+    threadTooLong: "Cette conversation devient longue. Commencez une nouvelle pause pour y voir clair.",
+    emptyReset: "Aucune pause n’a été générée. Veuillez réessayer.",
+    rateLimited:
+      "Vous avez écrit beaucoup de pauses en peu de temps. Éloignez-vous un moment de l’écran, puis revenez.",
+    invalidEvent: "Cet événement n’a pas été reconnu.",
+    invalidBatch: "Ce lot d’événements n’a pas pu être lu.",
+    batchTooLarge: "Un lot peut contenir au plus {max} événements.",
+    tooManyEvents: "Trop d’événements. Ralentissez un peu.",
+    invalidEmail: "Saisissez une adresse e-mail valide.",
+    tooManySignups: "Trop de tentatives d’inscription. Réessayez dans un moment.",
+    invalidFeedback: "Cet avis n’a pas pu être lu.",
+    tooMuchFeedback: "Cela fait beaucoup d’avis d’un coup. Ralentissez un peu.",
+    unknownReset: "Ce reset est introuvable.",
+    invalidShare: "Ce lien de partage n’est pas valide.",
+    unknownShare: "Ce reset partagé n’existe plus.",
+    tooManyShares: "Trop de partages en peu de temps. Réessayez dans un moment.",
+    syncDisabled: "La sauvegarde du journal n’est pas disponible ici.",
+    invalidSyncCode: "Ce code de synchronisation n’est pas valide.",
+    tooManySyncs: "Trop de synchronisations. Réessayez dans un moment.",
+    noSyncedJournal: "Aucun journal sauvegardé ne correspond à ce code de synchronisation.",
+    syncTooLarge: "Ce journal est trop volumineux pour être sauvegardé en une fois.",
+    invalidSync: "Cette sauvegarde du journal n’a pas pu être lue.",
+  },
+  errors: {
+    validation: "Quelque chose dans cette requête semblait incorrect. Vérifiez-la et réessayez.",
+    upstream_timeout: "Votre pause prend plus de temps que prévu. Réessayez dans un instant.",
+    upstream_rate_limit:
+      "Beaucoup de personnes cherchent une pause en ce moment. Réessayez dans une minute.",
+    upstream_unavailable:
+      "Nous n’avons pas pu joindre le service d’écriture. Réessayez dans quelques secondes.",
+    refusal: "Nous n’avons pas pu écrire de pause pour cela. Essayez de le formuler un peu autrement.",
+    config_missing: "Mindeazy n’est pas encore entièrement configuré ici. Réessayez plus tard.",
+    storage: "Nous n’avons pas pu enregistrer cela pour le moment. Réessayez bientôt.",
+    over_budget:
+      "Tant de personnes font une pause en ce moment que les nouvelles sont suspendues un petit moment. Revenez plus tard.",
+    internal: "Une erreur s’est produite. Réessayez dans quelques secondes.",
+  },
+};
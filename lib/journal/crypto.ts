@@ -0,0 +1,70 @@
+import type { Sealed } from "./types";
+
+const PBKDF2_ITERATIONS = 310_000;
+const VERIFIER_TEXT = "mindeazy-journal";
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+export function createSalt() {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function deriveKey(passphrase: string, salt: string) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function seal(key: CryptoKey, value: unknown): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+export async function unseal<T>(key: CryptoKey, sealed: Sealed): Promise<T> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data)
+  );
+
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+export function createVerifier(key: CryptoKey) {
+  return seal(key, VERIFIER_TEXT);
+}
+
+// AES-GCM fails to decrypt with the wrong key, so a sealed constant tells us the passphrase is right.
+export async function checkVerifier(key: CryptoKey, verifier: Sealed) {
+  try {
+    return (await unseal<string>(key, verifier)) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
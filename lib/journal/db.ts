@@ -0,0 +1,79 @@
+import type { EncryptedRecord, Vault } from "./types";
+
+const DB_NAME = "mindeazy-journal";
+const DB_VERSION = 1;
+const VAULT_STORE = "vault";
+const ENTRY_STORE = "entries";
+const VAULT_KEY = "vault";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(VAULT_STORE);
+      req.result.createObjectStore(ENTRY_STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+) {
+  const db = await openDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const req = run(tx.objectStore(name));
+
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function getVault() {
+  return withStore<Vault | undefined>(VAULT_STORE, "readonly", (store) => store.get(VAULT_KEY));
+}
+
+export function putVault(vault: Vault) {
+  return withStore(VAULT_STORE, "readwrite", (store) => {
+    store.put(vault, VAULT_KEY);
+  });
+}
+
+export function getRecords() {
+  return withStore<EncryptedRecord[]>(ENTRY_STORE, "readonly", (store) => store.getAll());
+}
+
+export function putRecords(records: EncryptedRecord[]) {
+  return withStore(ENTRY_STORE, "readwrite", (store) => {
+    for (const record of records) store.put(record);
+  });
+}
+
+export function deleteRecord(id: string) {
+  return withStore(ENTRY_STORE, "readwrite", (store) => {
+    store.delete(id);
+  });
+}
+
+export async function clearAll() {
+  await withStore(ENTRY_STORE, "readwrite", (store) => {
+    store.clear();
+  });
+  await withStore(VAULT_STORE, "readwrite", (store) => {
+    store.clear();
+  });
+}
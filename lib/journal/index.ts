@@ -0,0 +1,242 @@
+import { THINKING_PATTERNS } from "@/lib/structuredReset";
+import { checkVerifier, createSalt, createVerifier, deriveKey, seal, unseal } from "./crypto";
+import { clearAll, deleteRecord, getRecords, getVault, putRecords, putVault } from "./db";
+import { isJournalExport, MAX_SYNC_RECORDS } from "./protocol";
+import { createSyncId, deleteRemote, pullRecords, pushRecords } from "./sync";
+import type { EncryptedRecord, JournalEntry, JournalExport, Vault } from "./types";
+
+export type { JournalEntry, JournalTurn } from "./types";
+export { JOURNAL_SYNC_ENABLED } from "./sync";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// The panel shows these in the reader's language, keyed by reason.
+export type JournalImportFailure = "not_export" | "other_passphrase";
+
+export class JournalImportError extends Error {
+  constructor(readonly reason: JournalImportFailure) {
+    super(`Journal import failed: ${reason}`);
+    this.name = "JournalImportError";
+  }
+}
+
+export type Journal = {
+  readonly syncId: string | null;
+  list(): Promise<JournalEntry[]>;
+  save(entry: JournalEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  exportFile(): Promise<string>;
+  importFile(text: string): Promise<number>;
+  enableSync(): Promise<string>;
+  disableSync(): Promise<void>;
+  syncNow(): Promise<void>;
+};
+
+export async function hasJournal() {
+  return Boolean(await getVault());
+}
+
+export async function createJournal(passphrase: string) {
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  const vault: Vault = {
+    salt,
+    verifier: await createVerifier(key),
+    createdAt: new Date().toISOString(),
+    syncId: null,
+  };
+
+  await putVault(vault);
+  return bindJournal(vault, key, passphrase);
+}
+
+export async function unlockJournal(passphrase: string) {
+  const vault = await getVault();
+  if (!vault) return null;
+
+  const key = await deriveKey(passphrase, vault.salt);
+  if (!(await checkVerifier(key, vault.verifier))) return null;
+
+  return bindJournal(vault, key, passphrase);
+}
+
+// Pulls a synced journal onto a new browser. The server only hands back ciphertext,
+// so the passphrase is still what opens it.
+export async function restoreJournal(syncId: string, passphrase: string) {
+  const remote = await pullRecords(syncId);
+  if (!remote) return null;
+
+  const key = await deriveKey(passphrase, remote.vault.salt);
+  if (!(await checkVerifier(key, remote.vault.verifier))) return null;
+
+  const vault: Vault = { ...remote.vault, createdAt: new Date().toISOString(), syncId };
+  await clearAll();
+  await putVault(vault);
+  await putRecords(remote.entries);
+
+  return bindJournal(vault, key, passphrase);
+}
+
+export async function deleteJournal() {
+  const vault = await getVault();
+  if (vault?.syncId) await deleteRemote(vault.syncId);
+  await clearAll();
+}
+
+export function searchEntries(entries: JournalEntry[], query: string) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter((entry) => {
+    const haystack = entry.turns
+      .flatMap((turn) => [
+        turn.input,
+        turn.text,
+        turn.nextAction ?? "",
+        turn.pattern ? THINKING_PATTERNS[turn.pattern] : "",
+      ])
+      .join("\n")
+      .toLowerCase();
+
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+function newerThanLocal(incoming: EncryptedRecord[], local: EncryptedRecord[]) {
+  const updatedAt = new Map(local.map((record) => [record.id, record.updatedAt]));
+  return incoming.filter((record) => {
+    const existing = updatedAt.get(record.id);
+    return !existing || existing < record.updatedAt;
+  });
+}
+
+function chunk<T>(items: T[], size: number) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function bindJournal(initial: Vault, key: CryptoKey, passphrase: string): Journal {
+  let vault = initial;
+  const keyInfo = () => ({ salt: vault.salt, verifier: vault.verifier });
+
+  async function push(records: EncryptedRecord[], deleted: string[] = []) {
+    if (!vault.syncId) return;
+    try {
+      await pushRecords(vault.syncId, keyInfo(), records, deleted);
+    } catch (e) {
+      // The local copy is the source of truth; the next syncNow() catches up.
+      console.log("Journal sync error:", e instanceof Error ? e.message : e);
+    }
+  }
+
+  async function encrypt(entry: JournalEntry): Promise<EncryptedRecord> {
+    return { id: entry.id, updatedAt: new Date().toISOString(), ...(await seal(key, entry)) };
+  }
+
+  return {
+    get syncId() {
+      return vault.syncId;
+    },
+
+    async list() {
+      const entries: JournalEntry[] = [];
+
+      for (const record of await getRecords()) {
+        try {
+          entries.push(await unseal<JournalEntry>(key, record));
+        } catch {
+          console.log("Skipping journal entry that could not be decrypted:", record.id);
+        }
+      }
+
+      return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async save(entry) {
+      const record = await encrypt(entry);
+      await putRecords([record]);
+      await push([record]);
+    },
+
+    async remove(id) {
+      await deleteRecord(id);
+      await push([], [id]);
+    },
+
+    async exportFile() {
+      const file: JournalExport = {
+        format: "mindeazy-journal",
+        version: 1,
+        vault: keyInfo(),
+        entries: await getRecords(),
+      };
+      return JSON.stringify(file, null, 2);
+    },
+
+    async importFile(text) {
+      let file: unknown;
+      try {
+        file = JSON.parse(text);
+      } catch {
+        throw new JournalImportError("not_export");
+      }
+      if (!isJournalExport(file)) {
+        throw new JournalImportError("not_export");
+      }
+
+      const fileKey =
+        file.vault.salt === vault.salt ? key : await deriveKey(passphrase, file.vault.salt);
+      if (!(await checkVerifier(fileKey, file.vault.verifier))) {
+        throw new JournalImportError("other_passphrase");
+      }
+
+      const incoming = newerThanLocal(file.entries, await getRecords());
+      const records: EncryptedRecord[] = [];
+
+      for (const record of incoming) {
+        const entry = await unseal<JournalEntry>(fileKey, record);
+        records.push({ ...(await encrypt(entry)), updatedAt: record.updatedAt });
+      }
+
+      await putRecords(records);
+      for (const batch of chunk(records, MAX_SYNC_RECORDS)) await push(batch);
+
+      return records.length;
+    },
+
+    async enableSync() {
+      if (vault.syncId) return vault.syncId;
+
+      vault = { ...vault, syncId: createSyncId() };
+      await putVault(vault);
+
+      const records = await getRecords();
+      if (records.length === 0) await push([]);
+      for (const batch of chunk(records, MAX_SYNC_RECORDS)) await push(batch);
+
+      return vault.syncId as string;
+    },
+
+    async disableSync() {
+      if (!vault.syncId) return;
+
+      await deleteRemote(vault.syncId);
+      vault = { ...vault, syncId: null };
+      await putVault(vault);
+    },
+
+    async syncNow() {
+      if (!vault.syncId) return;
+
+      const remote = await pullRecords(vault.syncId);
+      const local = await getRecords();
+      const pulled = newerThanLocal(remote?.entries ?? [], local);
+      const toPush = newerThanLocal(local, remote?.entries ?? []);
+
+      await putRecords(pulled);
+      if (!remote && toPush.length === 0) await push([]);
+      for (const batch of chunk(toPush, MAX_SYNC_RECORDS)) await push(batch);
+    },
+  };
+}
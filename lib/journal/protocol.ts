@@ -0,0 +1,85 @@
+import type { EncryptedRecord, JournalExport, Sealed, VaultKeyInfo } from "./types";
+
+export const SYNC_ID_HEADER = "x-journal-sync-id";
+export const MAX_SYNC_RECORDS = 500;
+
+const MAX_SEALED_CHARS = 64 * 1024;
+const base64Pattern = /^[A-Za-z0-9+/]+={0,2}$/;
+const syncIdPattern = /^[0-9a-f]{32}$/;
+
+export type SyncPush = {
+  vault: VaultKeyInfo;
+  entries: EncryptedRecord[];
+  deleted: string[];
+};
+
+export function isSyncId(value: unknown): value is string {
+  return typeof value === "string" && syncIdPattern.test(value);
+}
+
+function isSealed(value: unknown): value is Sealed {
+  const sealed = value as Partial<Sealed> | null;
+  return (
+    typeof sealed?.iv === "string" &&
+    typeof sealed.data === "string" &&
+    sealed.iv.length === 16 &&
+    sealed.data.length <= MAX_SEALED_CHARS &&
+    base64Pattern.test(sealed.iv) &&
+    base64Pattern.test(sealed.data)
+  );
+}
+
+function isEntryId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= 64;
+}
+
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  const record = value as Partial<EncryptedRecord> | null;
+  return (
+    isEntryId(record?.id) &&
+    typeof record?.updatedAt === "string" &&
+    Number.isFinite(Date.parse(record.updatedAt)) &&
+    isSealed(record)
+  );
+}
+
+export function isVaultKeyInfo(value: unknown): value is VaultKeyInfo {
+  const vault = value as Partial<VaultKeyInfo> | null;
+  return (
+    typeof vault?.salt === "string" &&
+    base64Pattern.test(vault.salt) &&
+    vault.salt.length <= 64 &&
+    isSealed(vault.verifier)
+  );
+}
+
+export function isJournalExport(value: unknown): value is JournalExport {
+  const file = value as Partial<JournalExport> | null;
+  return (
+    file?.format === "mindeazy-journal" &&
+    file.version === 1 &&
+    isVaultKeyInfo(file.vault) &&
+    Array.isArray(file.entries) &&
+    file.entries.every(isEncryptedRecord)
+  );
+}
+
+export function parseSyncPush(raw: unknown): { ok: true; push: SyncPush } | { ok: false; error: string } {
+  const body = raw as Partial<SyncPush> | null;
+
+  if (!isVaultKeyInfo(body?.vault)) return { ok: false, error: "Invalid vault" };
+
+  const entries = body.entries ?? [];
+  const deleted = body.deleted ?? [];
+
+  if (!Array.isArray(entries) || !Array.isArray(deleted)) {
+    return { ok: false, error: "entries and deleted must be arrays" };
+  }
+  if (entries.length + deleted.length > MAX_SYNC_RECORDS) {
+    return { ok: false, error: `At most ${MAX_SYNC_RECORDS} records per sync` };
+  }
+  if (!entries.every(isEncryptedRecord)) return { ok: false, error: "Invalid entry" };
+  if (!deleted.every(isEntryId)) return { ok: false, error: "Invalid deleted id" };
+
+  return { ok: true, push: { vault: body.vault, entries, deleted } };
+}
@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { getConfig } from "@/lib/config";
+import { StorageError } from "@/lib/errors";
+import { isLocalMode } from "@/lib/mode";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import type { SyncPush } from "./protocol";
+import type { EncryptedRecord, VaultKeyInfo } from "./types";
+
+export type SyncSnapshot = {
+  vault: VaultKeyInfo;
+  entries: EncryptedRecord[];
+};
+
+export interface JournalSyncStore {
+  load(syncId: string): Promise<SyncSnapshot | null>;
+  apply(syncId: string, push: SyncPush): Promise<void>;
+  remove(syncId: string): Promise<void>;
+}
+
+// The sync id is a bearer secret, so only its hash is used as a key.
+function keyFor(syncId: string) {
+  return createHash("sha256").update(syncId).digest("hex");
+}
+
+const supabaseJournalSyncStore: JournalSyncStore = {
+  async load(syncId) {
+    const supabase = getSupabaseAdmin();
+    const key = keyFor(syncId);
+
+    const { data: vault, error } = await supabase
+      .from("journal_vaults")
+      .select("salt, verifier")
+      .eq("sync_key", key)
+      .maybeSingle<VaultKeyInfo>();
+    if (error) throw new StorageError(`Journal vault lookup failed: ${error.message}`);
+    if (!vault) return null;
+
+    const { data: rows, error: entriesError } = await supabase
+      .from("journal_entries")
+      .select("entry_id, iv, data, updated_at")
+      .eq("sync_key", key);
+    if (entriesError) throw new StorageError(`Journal entries lookup failed: ${entriesError.message}`);
+
+    return {
+      vault,
+      entries: (rows ?? []).map((row) => ({
+        id: row.entry_id,
+        iv: row.iv,
+        data: row.data,
+        updatedAt: row.updated_at,
+      })),
+    };
+  },
+
+  async apply(syncId, { vault, entries, deleted }) {
+    const supabase = getSupabaseAdmin();
+    const key = keyFor(syncId);
+
+    const { error } = await supabase
+      .from("journal_vaults")
+      .upsert({
+        sync_key: key,
+        salt: vault.salt,
+        verifier: vault.verifier,
+        updated_at: new Date().toISOString(),
+      });
+    if (error) throw new StorageError(`Journal vault upsert failed: ${error.message}`);
+
+    if (entries.length > 0) {
+      const { error: upsertError } = await supabase.from("journal_entries").upsert(
+        entries.map((entry) => ({
+          sync_key: key,
+          entry_id: entry.id,
+          iv: entry.iv,
+          data: entry.data,
+          updated_at: entry.updatedAt,
+        }))
+      );
+      if (upsertError) throw new StorageError(`Journal entries upsert failed: ${upsertError.message}`);
+    }
+
+    if (deleted.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("journal_entries")
+        .delete()
+        .eq("sync_key", key)
+        .in("entry_id", deleted);
+      if (deleteError) throw new StorageError(`Journal entries delete failed: ${deleteError.message}`);
+    }
+  },
+
+  async remove(syncId) {
+    const { error } = await getSupabaseAdmin()
+      .from("journal_vaults")
+      .delete()
+      .eq("sync_key", keyFor(syncId));
+    if (error) throw new StorageError(`Journal vault delete failed: ${error.message}`);
+  },
+};
+
+const memoryJournals = new Map<string, { vault: VaultKeyInfo; entries: Map<string, EncryptedRecord> }>();
+
+const memoryJournalSyncStore: JournalSyncStore = {
+  async load(syncId) {
+    const journal = memoryJournals.get(keyFor(syncId));
+    return journal ? { vault: journal.vault, entries: [...journal.entries.values()] } : null;
+  },
+  async apply(syncId, { vault, entries, deleted }) {
+    const key = keyFor(syncId);
+    const journal = memoryJournals.get(key) ?? { vault, entries: new Map() };
+    journal.vault = vault;
+    for (const entry of entries) journal.entries.set(entry.id, entry);
+    for (const id of deleted) journal.entries.delete(id);
+    memoryJournals.set(key, journal);
+  },
+  async remove(syncId) {
+    memoryJournals.delete(keyFor(syncId));
+  },
+};
+
+export function isJournalSyncEnabled() {
+  return getConfig().journalSync;
+}
+
+export function getJournalSyncStore(): JournalSyncStore {
+  return isLocalMode() ? memoryJournalSyncStore : supabaseJournalSyncStore;
+}
@@ -0,0 +1,47 @@
+import { SYNC_ID_HEADER } from "./protocol";
+import type { EncryptedRecord, VaultKeyInfo } from "./types";
+
+const SYNC_ENDPOINT = "/api/journal/sync";
+
+export const JOURNAL_SYNC_ENABLED = process.env.NEXT_PUBLIC_JOURNAL_SYNC === "true";
+
+export function createSyncId() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function request(syncId: string, init: RequestInit = {}) {
+  const res = await fetch(SYNC_ENDPOINT, {
+    ...init,
+    headers: { ...init.headers, [SYNC_ID_HEADER]: syncId },
+  });
+
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`Journal sync failed with ${res.status}`);
+  }
+  return res;
+}
+
+export async function pullRecords(syncId: string) {
+  const res = await request(syncId);
+  if (res.status === 404) return null;
+  return (await res.json()) as { vault: VaultKeyInfo; entries: EncryptedRecord[] };
+}
+
+export async function pushRecords(
+  syncId: string,
+  vault: VaultKeyInfo,
+  entries: EncryptedRecord[],
+  deleted: string[] = []
+) {
+  await request(syncId, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ vault, entries, deleted }),
+  });
+}
+
+export async function deleteRemote(syncId: string) {
+  await request(syncId, { method: "DELETE" });
+}
@@ -0,0 +1,41 @@
+import type { StructuredReset } from "@/lib/structuredReset";
+
+export type JournalTurn = Partial<Omit<StructuredReset, "text">> & {
+  input: string;
+  text: string;
+  promptVersion?: string;
+};
+
+export type JournalEntry = {
+  id: string;
+  createdAt: string;
+  turns: JournalTurn[];
+};
+
+export type Sealed = {
+  iv: string;
+  data: string;
+};
+
+// Only the id and update time stay readable; everything else is inside `data`.
+export type EncryptedRecord = Sealed & {
+  id: string;
+  updatedAt: string;
+};
+
+export type VaultKeyInfo = {
+  salt: string;
+  verifier: Sealed;
+};
+
+export type Vault = VaultKeyInfo & {
+  createdAt: string;
+  syncId: string | null;
+};
+
+export type JournalExport = {
+  format: "mindeazy-journal";
+  version: 1;
+  vault: VaultKeyInfo;
+  entries: EncryptedRecord[];
+};
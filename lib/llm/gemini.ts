@@ -0,0 +1,139 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  type Content,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import {
+  ProviderError,
+  reasonForStatus,
+  type GenerateRequest,
+  type LLMProvider,
+  type ProviderSettings,
+  type TokenUsage,
+} from "./types";
+
+function toProviderError(e: unknown, signal?: AbortSignal) {
+  if (e instanceof ProviderError) return e;
+
+  const message = e instanceof Error ? e.message : String(e);
+
+  if (signal?.aborted) {
+    return new ProviderError(message, "gemini", "aborted");
+  }
+  if (e instanceof GoogleGenerativeAIAbortError) {
+    return new ProviderError(message, "gemini", "timeout");
+  }
+  if (e instanceof GoogleGenerativeAIFetchError) {
+    return new ProviderError(message, "gemini", reasonForStatus(e.status), e.status);
+  }
+  // Raised when a prompt or candidate is blocked by Gemini's safety filters.
+  if (e instanceof GoogleGenerativeAIResponseError) {
+    return new ProviderError(message, "gemini", "refusal");
+  }
+  if (e instanceof TypeError) {
+    return new ProviderError(message, "gemini", "server");
+  }
+
+  return new ProviderError(message, "gemini", "other");
+}
+
+function toUsage(metadata?: UsageMetadata): TokenUsage | undefined {
+  return (
+    metadata && {
+      inputTokens: metadata.promptTokenCount,
+      outputTokens: metadata.candidatesTokenCount,
+    }
+  );
+}
+
+function toGeminiRequest({ messages }: GenerateRequest) {
+  const systemInstruction = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  const contents: Content[] = messages
+    .filter((message) => message.role !== "system")
+    .map((message) => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [{ text: message.content }],
+    }));
+
+  return { systemInstruction, contents };
+}
+
+export function createGeminiProvider(
+  apiKey: string,
+  settings: ProviderSettings
+): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  const modelFor = (request: GenerateRequest) => {
+    const { systemInstruction } = toGeminiRequest(request);
+
+    return genAI.getGenerativeModel({
+      model: settings.model,
+      systemInstruction: systemInstruction || undefined,
+      generationConfig: {
+        temperature: request.params?.temperature ?? settings.temperature,
+        maxOutputTokens: request.params?.maxOutputTokens ?? settings.maxOutputTokens,
+      },
+    });
+  };
+
+  return {
+    name: "gemini",
+    model: settings.model,
+
+    async generate(request) {
+      try {
+        const result = await modelFor(request).generateContent(
+          { contents: toGeminiRequest(request).contents },
+          { timeout: settings.timeoutMs, signal: request.signal }
+        );
+
+        return {
+          text: result.response.text().trim(),
+          provider: "gemini",
+          model: settings.model,
+          usage: toUsage(result.response.usageMetadata),
+        };
+      } catch (e) {
+        throw toProviderError(e, request.signal);
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const result = await modelFor(request).generateContentStream(
+          { contents: toGeminiRequest(request).contents },
+          { timeout: settings.timeoutMs, signal: request.signal }
+        );
+
+        for await (const chunk of result.stream) {
+          const text = chunk.text();
+          if (text) yield text;
+        }
+
+        const usage = toUsage((await result.response).usageMetadata);
+        if (usage) yield { usage };
+      } catch (e) {
+        throw toProviderError(e, request.signal);
+      }
+    },
+
+    async ping(signal) {
+      try {
+        await modelFor({ messages: [] }).countTokens("ping", {
+          timeout: settings.timeoutMs,
+          signal,
+        });
+      } catch (e) {
+        throw toProviderError(e, signal);
+      }
+    },
+  };
+}
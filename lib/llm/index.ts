@@ -0,0 +1,181 @@
+import { getConfig } from "@/lib/config";
+import { ConfigError } from "@/lib/errors";
+import type { Logger } from "@/lib/logger";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import {
+  ProviderError,
+  type GenerateRequest,
+  type GenerateResult,
+  type LLMProvider,
+  type ProviderName,
+  type ProviderSettings,
+  type TokenUsage,
+} from "./types";
+
+export * from "./types";
+
+// 400 rather than 350: the reset is followed by a metadata line (pattern,
+// intensity, next action) that a tighter cap cuts off.
+const providerDefaults: Record<ProviderName, ProviderSettings> = {
+  openai: {
+    model: "gpt-4.1-mini",
+    temperature: 0.7,
+    maxOutputTokens: 400,
+    timeoutMs: 60000,
+  },
+  gemini: {
+    model: "gemini-2.5-flash-lite",
+    temperature: 0.7,
+    maxOutputTokens: 400,
+    timeoutMs: 60000,
+  },
+  mock: {
+    model: "mock-reset-v1",
+    temperature: 0,
+    maxOutputTokens: 350,
+    timeoutMs: 1000,
+  },
+};
+
+export class MissingProviderKeyError extends ConfigError {
+  constructor(readonly envName: string) {
+    super(`Missing ${envName} in .env.local`);
+    this.name = "MissingProviderKeyError";
+  }
+}
+
+export function getProviderSettings(name: ProviderName): ProviderSettings {
+  return { ...providerDefaults[name], ...getConfig().llm.overrides[name] };
+}
+
+export type ChainOptions = {
+  // Swap each provider to its cheaper *_BUDGET_MODEL, skipping any without one.
+  budget?: boolean;
+};
+
+export type ProviderOptions = ChainOptions & {
+  // Pins a model regardless of *_MODEL, e.g. when comparing models offline.
+  model?: string;
+};
+
+// Null when the provider's key (or, in budget mode, its budget model) is missing.
+export function createProvider(
+  name: ProviderName,
+  { budget = false, model }: ProviderOptions = {}
+): LLMProvider | null {
+  const settings = getProviderSettings(name);
+
+  if (model) {
+    settings.model = model;
+  } else if (budget) {
+    const budgetModel = getConfig().llm.budgetModels[name];
+    if (!budgetModel) return null;
+    settings.model = budgetModel;
+  }
+
+  if (name === "mock") return createMockProvider(settings);
+
+  const apiKey = getConfig().llm.apiKeys[name];
+  if (!apiKey) return null;
+
+  return name === "openai"
+    ? createOpenAIProvider(apiKey, settings)
+    : createGeminiProvider(apiKey, settings);
+}
+
+// A missing fallback key is reported as a config warning at startup.
+export function getProviderChain(options: ChainOptions = {}): LLMProvider[] {
+  const { localMode, llm } = getConfig();
+
+  if (localMode) {
+    const mock = createProvider("mock", options);
+    return mock ? [mock] : [];
+  }
+
+  const primary = createProvider(llm.primary, options);
+
+  if (!primary) {
+    if (options.budget) return [];
+    throw new MissingProviderKeyError(`${llm.primary.toUpperCase()}_API_KEY`);
+  }
+
+  const fallback = llm.fallback && createProvider(llm.fallback, options);
+  return fallback ? [primary, fallback] : [primary];
+}
+
+export type FailoverResult = GenerateResult & {
+  fallbackFrom?: ProviderName;
+};
+
+export async function generateWithFailover(
+  providers: LLMProvider[],
+  request: GenerateRequest,
+  log: Logger
+): Promise<FailoverResult> {
+  let lastError: unknown;
+
+  for (const [index, provider] of providers.entries()) {
+    try {
+      const result = await provider.generate(request);
+      return index > 0 ? { ...result, fallbackFrom: providers[0].name } : result;
+    } catch (e) {
+      lastError = e;
+      if (!(e instanceof ProviderError) || !e.retryable) throw e;
+      log.warn("Provider failed, trying the next one", {
+        provider: provider.name,
+        reason: e.reason,
+      });
+    }
+  }
+
+  throw lastError;
+}
+
+export type StreamChunk =
+  | { type: "start"; provider: ProviderName; model: string; fallbackFrom?: ProviderName }
+  | { type: "delta"; text: string }
+  | { type: "usage"; usage: TokenUsage };
+
+export async function* streamWithFailover(
+  providers: LLMProvider[],
+  request: GenerateRequest,
+  log: Logger
+): AsyncGenerator<StreamChunk> {
+  let lastError: unknown;
+
+  for (const [index, provider] of providers.entries()) {
+    let started = false;
+
+    try {
+      for await (const part of provider.stream(request)) {
+        if (typeof part !== "string") {
+          yield { type: "usage", usage: part.usage };
+          continue;
+        }
+        if (!started) {
+          started = true;
+          yield {
+            type: "start",
+            provider: provider.name,
+            model: provider.model,
+            fallbackFrom: index > 0 ? providers[0].name : undefined,
+          };
+        }
+        yield { type: "delta", text: part };
+      }
+      return;
+    } catch (e) {
+      lastError = e;
+      // Once tokens reach the client we can't swap providers mid-reset.
+      if (started || !(e instanceof ProviderError) || !e.retryable) throw e;
+      log.warn("Provider failed, trying the next one", {
+        provider: provider.name,
+        reason: e.reason,
+      });
+    }
+  }
+
+  throw lastError;
+}
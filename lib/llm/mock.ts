@@ -0,0 +1,195 @@
+import { getConfig } from "@/lib/config";
+import { fnv1a } from "@/lib/hash";
+import { formatMetaLine, type ThinkingPattern } from "@/lib/structuredReset";
+import type {
+  ChatMessage,
+  LLMProvider,
+  OutputShape,
+  ProviderSettings,
+  TokenUsage,
+} from "./types";
+
+type MockTheme = "fear" | "overwhelm" | "regret" | "shame" | "analysis";
+
+const themeKeywords: Record<MockTheme, RegExp> = {
+  fear: /\b(what if|scared|afraid|worst|terrified|panic|anxious|fail|lose)\b/gi,
+  overwhelm:
+    /\b(too much|overwhelm\w*|so many|can'?t keep up|drowning|deadline|on fire|what to do first)\b/gi,
+  regret: /\b(should have|shouldn'?t have|regret\w*|mistake|replay\w*|wish i|wishing)\b/gi,
+  shame: /\b(behind|not enough|everyone else|embarrass\w*|ashamed|failure|compare|everyone saw)\b/gi,
+  analysis:
+    /\b(overthink\w*|can'?t stop thinking|figure (it|this) out|why do i|keep (thinking|going over)|reread\w*|what it means)\b/gi,
+};
+
+const themePatterns: Record<MockTheme, ThinkingPattern> = {
+  fear: "worst_case_thinking",
+  overwhelm: "emotional_overwhelm",
+  regret: "regret",
+  shame: "shame",
+  analysis: "overthinking_loop",
+};
+
+const openings: Record<MockTheme, string[]> = {
+  fear: [
+    "Your mind has already run ahead to the ending and is treating it like it happened.",
+    "Right now a possibility is wearing the clothes of a certainty.",
+  ],
+  overwhelm: [
+    "Everything on your mind is shouting at the same volume right now.",
+    "Your mind has put every task in the same urgent pile.",
+  ],
+  regret: [
+    "Your mind keeps replaying that moment because it is still trying to fix it.",
+    "You are going back to the same scene, hoping it ends differently this time.",
+  ],
+  shame: [
+    "Part of you is measuring yourself against a picture that was never fair.",
+    "The pressure you feel is loud, but it is not a verdict on who you are.",
+  ],
+  analysis: [
+    "You are trying to think your way out of a feeling, and the feeling keeps winning.",
+    "More thinking feels like progress right now, but it is keeping the loop alive.",
+  ],
+};
+
+const reframes = [
+  "A strong feeling is real information about how tired or stretched you are. It is not proof about what comes next.",
+  "The thought feels convincing because it arrived with so much emotion, not because it is more accurate.",
+  "One hard moment is a single frame. Your mind is trying to turn it into the whole film.",
+  "Nothing about this needs to be decided in the next hour.",
+];
+
+const actions = [
+  "For now, pick one small thing you can actually touch today, and let the rest wait its turn.",
+  "Put the question down for ten minutes. It will still be there, and you will meet it steadier.",
+  "Write down the one thing that is truly yours to do next. Only that one.",
+];
+
+const closings = [
+  "You are not behind on your own life. You are in the middle of it.",
+  "You have come through heavy moments before, and you are still here.",
+  "The loop is loud, but you are the one noticing it. That is already a step out.",
+];
+
+// Added to the middle paragraphs until a reset reaches the shape's minimum length.
+const details = [
+  "Notice how quickly the feeling filled in the parts you do not know yet.",
+  "Your body is reacting to a story, and the story is not finished.",
+  "It makes sense that this is loud. It matters to you.",
+  "You can hold the worry without letting it set the pace.",
+  "Try saying the facts out loud, without the forecast attached.",
+  "There is a difference between caring about this and carrying all of it tonight.",
+  "The next step only has to be small enough to start.",
+  "You are allowed to come back to this when you have more in the tank.",
+];
+
+const DEFAULT_SHAPE: OutputShape = {
+  paragraphs: { min: 3, max: 5 },
+  words: { min: 60, max: 300 },
+};
+
+function pick<T>(items: T[], seed: number, salt: number) {
+  return items[(seed + salt * 7919) % items.length];
+}
+
+function lastUserMessage(messages: ChatMessage[]) {
+  return [...messages].reverse().find((message) => message.role === "user")?.content || "";
+}
+
+// The theme with the most keyword hits wins; ties go to the earlier theme.
+function detectTheme(input: string): MockTheme {
+  let best: MockTheme = "analysis";
+  let bestHits = 0;
+
+  for (const theme of Object.keys(themeKeywords) as MockTheme[]) {
+    const hits = input.match(themeKeywords[theme])?.length ?? 0;
+    if (hits > bestHits) {
+      best = theme;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function mockReset(input: string, shape: OutputShape = DEFAULT_SHAPE) {
+  const seed = fnv1a(input.trim().toLowerCase());
+  const theme = detectTheme(input);
+
+  // Vary across the requested range so clients see every paragraph count.
+  const { paragraphs: range, words } = shape;
+  const count = range.min + (seed % (range.max - range.min + 1));
+  const action = pick(actions, seed, 3);
+  const reframe = pick(reframes, seed, 2);
+  const middle = [reframe, action, ...reframes.filter((r) => r !== reframe)].slice(
+    0,
+    Math.max(0, count - 2)
+  );
+
+  const paragraphs = [pick(openings[theme], seed, 1), ...middle, pick(closings, seed, 5)];
+
+  // Lengthen the middle (or the opening, when there is none) without going past the maximum.
+  const body = middle.length > 0 ? middle.map((_, i) => i + 1) : [0];
+  let total = countWords(paragraphs.join(" "));
+  for (let i = 0; i < details.length && total < words.min; i++) {
+    const detail = pick(details, seed, 6 + i);
+    if (total + countWords(detail) > words.max) break;
+    const index = body[i % body.length];
+    paragraphs[index] = `${paragraphs[index]} ${detail}`;
+    total += countWords(detail);
+  }
+
+  const meta = formatMetaLine({
+    pattern: themePatterns[theme],
+    intensity: 3 + (seed % 6),
+    nextAction: action,
+  });
+
+  return `${paragraphs.join("\n\n")}\n\n${meta}`;
+}
+
+// Roughly four characters per token, so local usage rows look plausible.
+function estimateUsage(messages: ChatMessage[], output: string): TokenUsage {
+  const input = messages.reduce((sum, message) => sum + message.content.length, 0);
+  return { inputTokens: Math.ceil(input / 4), outputTokens: Math.ceil(output.length / 4) };
+}
+
+export function createMockProvider(settings: ProviderSettings): LLMProvider {
+  const delayMs = getConfig().llm.mockDelayMs;
+
+  return {
+    name: "mock",
+    model: settings.model,
+
+    async generate({ messages, shape }) {
+      const text = mockReset(lastUserMessage(messages), shape);
+      return {
+        text,
+        provider: "mock",
+        model: settings.model,
+        usage: estimateUsage(messages, text),
+      };
+    },
+
+    async *stream({ messages, shape, signal }) {
+      const text = mockReset(lastUserMessage(messages), shape);
+      const words = text.split(/(?<= )/);
+
+      for (const word of words) {
+        if (signal?.aborted) return;
+        if (delayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+        yield word;
+      }
+
+      yield { usage: estimateUsage(messages, text) };
+    },
+
+    async ping() {},
+  };
+}
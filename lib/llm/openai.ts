@@ -0,0 +1,116 @@
+import OpenAI from "openai";
+import {
+  ProviderError,
+  reasonForStatus,
+  type GenerateRequest,
+  type LLMProvider,
+  type ProviderSettings,
+} from "./types";
+
+function toProviderError(e: unknown, signal?: AbortSignal) {
+  if (e instanceof ProviderError) return e;
+
+  const message = e instanceof Error ? e.message : String(e);
+
+  if (signal?.aborted) {
+    return new ProviderError(message, "openai", "aborted");
+  }
+  if (e instanceof OpenAI.APIConnectionTimeoutError) {
+    return new ProviderError(message, "openai", "timeout");
+  }
+  if (e instanceof OpenAI.APIConnectionError) {
+    return new ProviderError(message, "openai", "server");
+  }
+  if (e instanceof OpenAI.APIError) {
+    return new ProviderError(message, "openai", reasonForStatus(e.status), e.status);
+  }
+
+  return new ProviderError(message, "openai", "other");
+}
+
+export function createOpenAIProvider(
+  apiKey: string,
+  settings: ProviderSettings
+): LLMProvider {
+  const openai = new OpenAI({
+    apiKey,
+    timeout: settings.timeoutMs,
+    maxRetries: 2,
+  });
+
+  const params = ({ messages, params }: GenerateRequest) => ({
+    model: settings.model,
+    input: messages,
+    temperature: params?.temperature ?? settings.temperature,
+    max_output_tokens: params?.maxOutputTokens ?? settings.maxOutputTokens,
+  });
+
+  return {
+    name: "openai",
+    model: settings.model,
+
+    async generate(request) {
+      try {
+        const response = await openai.responses.create(params(request), {
+          signal: request.signal,
+        });
+
+        const refused = response.output.some(
+          (item) =>
+            item.type === "message" && item.content.some((part) => part.type === "refusal")
+        );
+        if (refused && !response.output_text) {
+          throw new ProviderError("Model refused the request", "openai", "refusal");
+        }
+
+        return {
+          text: (response.output_text || "").trim(),
+          provider: "openai",
+          model: settings.model,
+          usage: response.usage && {
+            inputTokens: response.usage.input_tokens,
+            outputTokens: response.usage.output_tokens,
+          },
+        };
+      } catch (e) {
+        throw toProviderError(e, request.signal);
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const events = await openai.responses.create(
+          { ...params(request), stream: true },
+          { signal: request.signal }
+        );
+
+        for await (const event of events) {
+          if (event.type === "response.output_text.delta") {
+            yield event.delta;
+          } else if (event.type === "response.completed" && event.response.usage) {
+            yield {
+              usage: {
+                inputTokens: event.response.usage.input_tokens,
+                outputTokens: event.response.usage.output_tokens,
+              },
+            };
+          } else if (event.type === "response.refusal.done") {
+            throw new ProviderError("Model refused the request", "openai", "refusal");
+          } else if (event.type === "error") {
+            throw new ProviderError(event.message, "openai", "server");
+          }
+        }
+      } catch (e) {
+        throw toProviderError(e, request.signal);
+      }
+    },
+
+    async ping(signal) {
+      try {
+        await openai.models.retrieve(settings.model, { signal, maxRetries: 0 });
+      } catch (e) {
+        throw toProviderError(e, signal);
+      }
+    },
+  };
+}
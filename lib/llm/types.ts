@@ -0,0 +1,85 @@
+export type ProviderName = "openai" | "gemini" | "mock";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ProviderSettings = {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  timeoutMs: number;
+};
+
+export type Range = { min: number; max: number };
+
+// The length the prompt asks for. Real models read it from the prompt; only the
+// mock, which never reads the prompt, follows it from here.
+export type OutputShape = { paragraphs: Range; words: Range };
+
+export type GenerateRequest = {
+  messages: ChatMessage[];
+  params?: Partial<Pick<ProviderSettings, "temperature" | "maxOutputTokens">>;
+  shape?: OutputShape;
+  signal?: AbortSignal;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type GenerateResult = {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  usage?: TokenUsage;
+};
+
+// Streams yield text deltas, then at most one usage report once the model is done.
+export type ProviderStreamPart = string | { usage: TokenUsage };
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  stream(request: GenerateRequest): AsyncIterable<ProviderStreamPart>;
+  // Cheap reachability check for /api/health; never generates text.
+  ping(signal?: AbortSignal): Promise<void>;
+}
+
+export type ProviderErrorReason =
+  | "timeout"
+  | "rate_limit"
+  | "server"
+  | "refusal"
+  | "aborted"
+  | "other";
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ProviderName,
+    readonly reason: ProviderErrorReason,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  get retryable() {
+    return (
+      this.reason === "timeout" ||
+      this.reason === "rate_limit" ||
+      this.reason === "server"
+    );
+  }
+}
+
+export function reasonForStatus(status?: number): ProviderErrorReason {
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limit";
+  if (status && status >= 500) return "server";
+  return "other";
+}
@@ -0,0 +1,52 @@
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const requestIdPattern = /^[\w-]{8,64}$/;
+
+type LogLevel = "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  requestId: string;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, error: unknown, fields?: LogFields): void;
+};
+
+// Reuses an id set by the proxy (or a load balancer) so one complaint maps to one trail.
+export function resolveRequestId(headers: Headers) {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return incoming && requestIdPattern.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+export function describeError(error: unknown) {
+  if (error instanceof Error) return `${error.name}: ${error.message}`.slice(0, 300);
+  return String(error).slice(0, 300);
+}
+
+export function createLogger(requestId: string, context: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields: LogFields) => {
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level,
+        request_id: requestId,
+        ...context,
+        message,
+        ...fields,
+      })
+    );
+  };
+
+  return {
+    requestId,
+    info: (message, fields = {}) => write("info", message, fields),
+    warn: (message, fields = {}) => write("warn", message, fields),
+    error: (message, error, fields = {}) =>
+      write("error", message, { error: describeError(error), ...fields }),
+  };
+}
+
+export function requestLogger(req: Request, route: string) {
+  return createLogger(resolveRequestId(req.headers), { route });
+}
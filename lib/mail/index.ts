@@ -0,0 +1,75 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { getConfig } from "@/lib/config";
+import { ConfigError } from "@/lib/errors";
+import type { MailMessage, MailTransport } from "./types";
+
+export type { MailMessage, MailTransport } from "./types";
+
+const consoleTransport: MailTransport = {
+  kind: "console",
+  async send(message) {
+    console.log(
+      JSON.stringify({ event: "mail", to: message.to, subject: message.subject, text: message.text })
+    );
+  },
+};
+
+function createFileTransport(dir: string): MailTransport {
+  return {
+    kind: "file",
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+      await appendFile(path.join(dir, "outbox.jsonl"), `${line}\n`);
+    },
+  };
+}
+
+function createResendTransport(apiKey: string, from: string): MailTransport {
+  return {
+    kind: "resend",
+    async send(message) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          headers: message.headers,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Mail send failed with ${res.status}`);
+      }
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  const { mail } = getConfig();
+
+  if (mail.transport === "file") {
+    return createFileTransport(mail.outboxDir);
+  }
+
+  if (mail.transport === "resend") {
+    if (!mail.resend) {
+      throw new ConfigError("Missing RESEND_API_KEY or MAIL_FROM in .env.local");
+    }
+    return createResendTransport(mail.resend.apiKey, mail.resend.from);
+  }
+
+  return consoleTransport;
+}
+
+export function sendMail(message: MailMessage) {
+  return getMailTransport().send(message);
+}
@@ -0,0 +1,12 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+};
+
+export interface MailTransport {
+  kind: "console" | "file" | "resend";
+  send(message: MailMessage): Promise<void>;
+}
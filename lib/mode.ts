@@ -0,0 +1,5 @@
+import { getConfig } from "@/lib/config";
+
+export function isLocalMode() {
+  return getConfig().localMode;
+}
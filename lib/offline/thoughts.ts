@@ -0,0 +1,174 @@
+import type { Locale } from "@/lib/i18n/config";
+import { seal, unseal } from "@/lib/journal/crypto";
+import type { Sealed } from "@/lib/journal/types";
+import type { ResetModeId } from "@/lib/prompts/modes";
+
+// Shared with public/sw.js, which sends queued thoughts to /api/generate once
+// the connection is back. Keep the names and record shape in step with it.
+const DB_NAME = "mindeazy-offline";
+const DB_VERSION = 2;
+const STORE = "thoughts";
+const KEY_STORE = "keys";
+const KEY_ID = "thoughts";
+export const THOUGHTS_SYNC_TAG = "mindeazy-thoughts";
+
+export type OfflineThought = {
+  id: string;
+  input: string;
+  mode: ResetModeId;
+  locale: Locale;
+  createdAt: string;
+  // Written when the thought is saved, in the writer's language: the service
+  // worker has no catalogues.
+  notification: { title: string; body: string };
+  status: "queued" | "ready" | "failed";
+  // The /api/generate JSON once sent: a reset or crisis resources.
+  result?: Record<string, unknown>;
+  error?: string;
+};
+
+type SealedContent = Pick<OfflineThought, "input" | "result" | "error">;
+
+// What the thought says and what came back are sealed with a device key that
+// can't be exported; only the fields the worker needs to schedule stay readable.
+type StoredThought = Omit<OfflineThought, keyof SealedContent> & { sealed: Sealed };
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      } else if (event.oldVersion < 2) {
+        // Version 1 kept thoughts in plain text; drop them rather than leave them readable.
+        request.transaction?.objectStore(STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(KEY_STORE)) db.createObjectStore(KEY_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Created by the page the first time a thought is queued; the worker only reads it.
+async function thoughtKey(): Promise<CryptoKey> {
+  const existing = await withStore<CryptoKey | undefined>(KEY_STORE, "readonly", (store) =>
+    store.get(KEY_ID)
+  );
+  if (existing) return existing;
+
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  await withStore(KEY_STORE, "readwrite", (store) => store.put(key, KEY_ID));
+  return key;
+}
+
+// Thoughts are only kept when a service worker is in control to send them later.
+export function canQueueThoughts() {
+  return (
+    typeof indexedDB !== "undefined" &&
+    "serviceWorker" in navigator &&
+    navigator.serviceWorker.controller !== null
+  );
+}
+
+// Background Sync wakes the worker even with the tab closed where it's
+// supported; elsewhere the page asks for a flush when it sees the connection return.
+export async function requestThoughtFlush() {
+  if (!("serviceWorker" in navigator)) return;
+  const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+
+  try {
+    await registration.sync?.register(THOUGHTS_SYNC_TAG);
+  } catch {
+    // Background Sync can be refused; the message below still covers an open page.
+  }
+  if (navigator.onLine) registration.active?.postMessage({ type: "flush-thoughts" });
+}
+
+export async function queueThought(
+  thought: Omit<OfflineThought, "id" | "createdAt" | "status">
+): Promise<boolean> {
+  if (!canQueueThoughts()) return false;
+
+  const { input, ...details } = thought;
+
+  try {
+    const sealed = await seal(await thoughtKey(), { input } satisfies SealedContent);
+    await withStore(STORE, "readwrite", (store) =>
+      store.put({
+        ...details,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        status: "queued",
+        sealed,
+      } satisfies StoredThought)
+    );
+  } catch {
+    return false;
+  }
+
+  await requestThoughtFlush();
+  return true;
+}
+
+export async function finishedThoughts(): Promise<OfflineThought[]> {
+  if (typeof indexedDB === "undefined") return [];
+
+  try {
+    const key = await thoughtKey();
+    const all = await withStore<StoredThought[]>(STORE, "readonly", (store) => store.getAll());
+    const finished = all
+      .filter((thought) => thought.status !== "queued")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const opened = await Promise.all(finished.map((thought) => openThought(key, thought)));
+    return opened.filter((thought) => thought !== null);
+  } catch {
+    return [];
+  }
+}
+
+async function openThought(key: CryptoKey, stored: StoredThought): Promise<OfflineThought | null> {
+  const { sealed, ...thought } = stored;
+
+  try {
+    return { ...thought, ...(await unseal<SealedContent>(key, sealed)) };
+  } catch {
+    // Sealed with a key this device no longer has, so nobody can read it.
+    await removeThought(thought.id);
+    return null;
+  }
+}
+
+export async function removeThought(id: string) {
+  try {
+    await withStore(STORE, "readwrite", (store) => store.delete(id));
+  } catch {
+    // Worst case it's offered again next time.
+  }
+}
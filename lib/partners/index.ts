@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { isLocalMode } from "@/lib/mode";
+import { RATE_LIMITS, type RateLimitRule } from "@/lib/rateLimit";
+import { getPartnerStore, type Partner, type PartnerKeyKind } from "./store";
+
+export type { Partner, PartnerKeyKind, PartnerKeyRecord } from "./store";
+export { getPartnerStore } from "./store";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Keys issued before publishable and secret keys were split have no kind segment.
+const KEY_PATTERN = /^mzk_(?:pub_|sec_)?[\w-]{43}$/;
+
+const KEY_PREFIXES: Record<PartnerKeyKind, string> = {
+  publishable: "mzk_pub_",
+  secret: "mzk_sec_",
+};
+
+// Local mode accepts these so the widget and the API can be tried without
+// Supabase: the publishable key from any origin, the secret key from a server.
+export const LOCAL_PARTNER_KEYS: Record<PartnerKeyKind, string> = {
+  publishable: "mzk_pub_local_development_key",
+  secret: "mzk_sec_local_development_key",
+};
+
+function localPartner(keyKind: PartnerKeyKind): Partner {
+  return {
+    id: "00000000-0000-4000-8000-000000000000",
+    name: "Local development",
+    keyKind,
+    allowedOrigins: ["*"],
+    dailyQuota: 100,
+  };
+}
+
+export function hashPartnerKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// The key is shown once; only its hash and a short prefix are stored.
+export function generatePartnerKey(kind: PartnerKeyKind) {
+  const key = `${KEY_PREFIXES[kind]}${randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, 16), keyHash: hashPartnerKey(key) };
+}
+
+function readKey(headers: Headers) {
+  const authorization = headers.get("authorization") || "";
+  if (authorization.startsWith("Bearer ")) return authorization.slice("Bearer ".length).trim();
+  return headers.get("x-api-key")?.trim() || null;
+}
+
+export async function authenticatePartner(headers: Headers): Promise<Partner | null> {
+  const key = readKey(headers);
+  if (!key) return null;
+  if (isLocalMode()) {
+    if (key === LOCAL_PARTNER_KEYS.publishable) return localPartner("publishable");
+    if (key === LOCAL_PARTNER_KEYS.secret) return localPartner("secret");
+  }
+  if (!KEY_PATTERN.test(key)) return null;
+
+  return getPartnerStore().findByKeyHash(hashPartnerKey(key));
+}
+
+// A publishable key is public in the page's source, so a call without an Origin
+// (from anyone's server) can't be tied to the partner and is refused. Secret
+// keys are the server-side credential and are refused when a browser sends one.
+export function originError(partner: Partner, origin: string | null) {
+  if (partner.keyKind === "secret") {
+    return origin === null ? null : "Secret API keys can't be used from a browser";
+  }
+  if (origin === null) return "Publishable API keys only work from an allowed Origin";
+  if (partner.allowedOrigins.includes("*") || partner.allowedOrigins.includes(origin)) return null;
+  return "Origin not allowed for this API key";
+}
+
+export function normalizeOrigin(value: string) {
+  if (value === "*") return value;
+  const url = new URL(value);
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Origin must be http(s): ${value}`);
+  }
+  return url.origin;
+}
+
+// The same person on a partner's site keeps one visitor id, scoped to that
+// partner so it can never collide with an app visitor or another partner's user.
+export function partnerVisitorId(partner: Partner, user: unknown) {
+  if (typeof user !== "string" || !user.trim() || user.length > 200) return crypto.randomUUID();
+
+  const hex = createHash("sha256").update(`${partner.id}:${user.trim()}`).digest("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+export const PARTNER_QUOTA_RULE = "partner:quota";
+
+export function partnerLimits(partner: Partner, visitorId: string): RateLimitRule[] {
+  return [
+    {
+      name: "partner:visitor",
+      key: `partner:visitor:${visitorId}`,
+      ...RATE_LIMITS.generate.visitor,
+    },
+    {
+      name: PARTNER_QUOTA_RULE,
+      key: `partner:quota:${partner.id}`,
+      limit: partner.dailyQuota,
+      windowMs: DAY,
+    },
+  ];
+}
+
+export function corsHeaders(origin: string | null): Record<string, string> {
+  if (!origin) return {};
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Expose-Headers": "Retry-After, X-Request-Id",
+    Vary: "Origin",
+  };
+}
+
+export function withCors<T extends Response>(response: T, origin: string | null) {
+  for (const [name, value] of Object.entries(corsHeaders(origin))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Browsers don't send the key with a preflight, so the origin is checked
+// against the key's allowlist on the real request instead.
+export function preflightResponse(req: Request) {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(req.headers.get("origin")),
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type, X-Api-Key",
+      "Access-Control-Max-Age": "600",
+    },
+  });
+}
@@ -0,0 +1,157 @@
+import { StorageError } from "@/lib/errors";
+import { isLocalMode } from "@/lib/mode";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Publishable keys are embedded in pages (the widget) and need an allowed Origin;
+// secret keys stay on a partner's server and never come from a browser.
+export type PartnerKeyKind = "publishable" | "secret";
+
+export type Partner = {
+  id: string;
+  name: string;
+  keyKind: PartnerKeyKind;
+  // Exact origins (scheme, host and port) allowed to call from a browser; "*" allows any.
+  allowedOrigins: string[];
+  dailyQuota: number;
+};
+
+export type PartnerKeyRecord = Partner & {
+  // The first characters of the key, kept so a key can be recognised in a list.
+  keyPrefix: string;
+  keyHash: string;
+  createdAt: string;
+  revokedAt: string | null;
+};
+
+export interface PartnerStore {
+  // Revoked keys read as missing.
+  findByKeyHash(keyHash: string): Promise<Partner | null>;
+  create(record: Omit<PartnerKeyRecord, "id" | "createdAt" | "revokedAt">): Promise<PartnerKeyRecord>;
+  list(): Promise<PartnerKeyRecord[]>;
+  revoke(id: string): Promise<boolean>;
+}
+
+type PartnerKeyRow = {
+  id: string;
+  name: string;
+  kind: PartnerKeyKind;
+  key_prefix: string;
+  key_hash: string;
+  allowed_origins: string[];
+  daily_quota: number;
+  created_at: string;
+  revoked_at: string | null;
+};
+
+const columns = "id, name, kind, key_prefix, key_hash, allowed_origins, daily_quota, created_at, revoked_at";
+
+function fromRow(row: PartnerKeyRow): PartnerKeyRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    keyKind: row.kind,
+    allowedOrigins: row.allowed_origins,
+    dailyQuota: row.daily_quota,
+    keyPrefix: row.key_prefix,
+    keyHash: row.key_hash,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function toPartner(record: PartnerKeyRecord): Partner {
+  return {
+    id: record.id,
+    name: record.name,
+    keyKind: record.keyKind,
+    allowedOrigins: record.allowedOrigins,
+    dailyQuota: record.dailyQuota,
+  };
+}
+
+const supabasePartnerStore: PartnerStore = {
+  async findByKeyHash(keyHash) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("partner_keys")
+      .select(columns)
+      .eq("key_hash", keyHash)
+      .is("revoked_at", null)
+      .maybeSingle<PartnerKeyRow>();
+    if (error) throw new StorageError(`Partner key lookup failed: ${error.message}`);
+    return data ? toPartner(fromRow(data)) : null;
+  },
+
+  async create(record) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("partner_keys")
+      .insert({
+        name: record.name,
+        kind: record.keyKind,
+        key_prefix: record.keyPrefix,
+        key_hash: record.keyHash,
+        allowed_origins: record.allowedOrigins,
+        daily_quota: record.dailyQuota,
+      })
+      .select(columns)
+      .single<PartnerKeyRow>();
+    if (error || !data) {
+      throw new StorageError(`Partner key insert failed: ${error?.message || "no data"}`);
+    }
+    return fromRow(data);
+  },
+
+  async list() {
+    const { data, error } = await getSupabaseAdmin()
+      .from("partner_keys")
+      .select(columns)
+      .order("created_at", { ascending: true })
+      .returns<PartnerKeyRow[]>();
+    if (error) throw new StorageError(`Partner key list failed: ${error.message}`);
+    return (data ?? []).map(fromRow);
+  },
+
+  async revoke(id) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("partner_keys")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", id)
+      .is("revoked_at", null)
+      .select("id");
+    if (error) throw new StorageError(`Partner key revoke failed: ${error.message}`);
+    return (data ?? []).length > 0;
+  },
+};
+
+const memoryPartnerKeys = new Map<string, PartnerKeyRecord>();
+
+const memoryPartnerStore: PartnerStore = {
+  async findByKeyHash(keyHash) {
+    const record = [...memoryPartnerKeys.values()].find(
+      (key) => key.keyHash === keyHash && !key.revokedAt
+    );
+    return record ? toPartner(record) : null;
+  },
+  async create(record) {
+    const created = {
+      ...record,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+    memoryPartnerKeys.set(created.id, created);
+    return created;
+  },
+  async list() {
+    return [...memoryPartnerKeys.values()];
+  },
+  async revoke(id) {
+    const record = memoryPartnerKeys.get(id);
+    if (!record || record.revokedAt) return false;
+    record.revokedAt = new Date().toISOString();
+    return true;
+  },
+};
+
+export function getPartnerStore(): PartnerStore {
+  return isLocalMode() ? memoryPartnerStore : supabasePartnerStore;
+}
@@ -0,0 +1,103 @@
+import { cookies } from "next/headers";
+import { getConfig } from "@/lib/config";
+import { fnv1a } from "@/lib/hash";
+import type { Logger } from "@/lib/logger";
+import { resetV1 } from "./resetV1";
+import type { PromptVersion } from "./types";
+
+export type { PromptParams, PromptVersion } from "./types";
+
+export const PROMPT_COOKIE = "mz_pv";
+export const DEFAULT_PROMPT_VERSION = resetV1.id;
+
+const registry: Record<string, PromptVersion> = {
+  [resetV1.id]: resetV1,
+};
+
+export type PromptAllocation = { version: string; weight: number }[];
+
+export function getPromptVersion(id: string): PromptVersion | null {
+  return registry[id] ?? null;
+}
+
+export function listPromptVersions() {
+  return Object.values(registry);
+}
+
+// PROMPT_ALLOCATION looks like "reset-v1=80,reset-v2=20".
+export function getPromptAllocation(log: Logger): PromptAllocation {
+  const fallback = [{ version: DEFAULT_PROMPT_VERSION, weight: 1 }];
+  const raw = getConfig().promptAllocation;
+
+  if (!raw) return fallback;
+
+  const allocation = raw
+    .split(",")
+    .map((part) => {
+      const [version, weight] = part.split("=").map((value) => value.trim());
+      return { version, weight: Number(weight) };
+    })
+    .filter((entry) => {
+      const valid = !!registry[entry.version] && entry.weight > 0;
+      if (!valid) log.warn("Ignoring prompt allocation entry", { version: entry.version });
+      return valid;
+    });
+
+  return allocation.length ? allocation : fallback;
+}
+
+export function assignPromptVersion(
+  visitorId: string,
+  allocation: PromptAllocation
+): PromptVersion {
+  const total = allocation.reduce((sum, entry) => sum + entry.weight, 0);
+  let bucket = ((fnv1a(`prompt:${visitorId}`) % 10000) / 10000) * total;
+
+  for (const entry of allocation) {
+    if (bucket < entry.weight) return registry[entry.version];
+    bucket -= entry.weight;
+  }
+
+  return registry[allocation[allocation.length - 1].version];
+}
+
+// The assigned version is pinned in a cookie so a visitor keeps it even if
+// the weights change, for as long as that version stays in the allocation.
+// Partner calls come from a server whose one cookie jar serves all its users,
+// so they skip the pin and rely on the stable assignment alone.
+export async function resolvePromptVersion(
+  visitorId: string,
+  log: Logger,
+  { pin = true }: { pin?: boolean } = {}
+) {
+  const allocation = getPromptAllocation(log);
+  if (!pin) return assignPromptVersion(visitorId, allocation);
+
+  const store = await cookies();
+  const pinned = store.get(PROMPT_COOKIE)?.value;
+
+  if (pinned && allocation.some((entry) => entry.version === pinned)) {
+    return registry[pinned];
+  }
+
+  const version = assignPromptVersion(visitorId, allocation);
+  store.set(PROMPT_COOKIE, version.id, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: 60 * 60 * 24 * 90,
+    path: "/",
+  });
+
+  return version;
+}
+export { buildResetMessages } from "./messages";
+export {
+  DEFAULT_RESET_MODE,
+  isResetMode,
+  modeParams,
+  modeShape,
+  RESET_MODES,
+  type ResetMode,
+  type ResetModeId,
+} from "./modes";
@@ -0,0 +1,16 @@
+import type { DetectedLanguage } from "@/lib/i18n/detect";
+
+// The prompt itself is English, so without this the model tends to answer in
+// English whatever the person wrote in.
+export function languageInstruction(language: DetectedLanguage | null) {
+  const name = language?.name ?? "the language the person wrote in";
+
+  return `
+LANGUAGE
+
+Write the whole reset in ${name}, the language of the person's message.
+- Do not translate their words into English or comment on the language
+- Follow the same tone and length rules in that language
+- Keep the structured note in the exact format above; write nextAction in ${name} too
+`.trim();
+}
@@ -0,0 +1,51 @@
+import { trimHistory, type ConversationTurn } from "@/lib/conversation";
+import type { DetectedLanguage } from "@/lib/i18n/detect";
+import type { ChatMessage } from "@/lib/llm";
+import { structuredOutputInstruction } from "@/lib/structuredReset";
+import { languageInstruction } from "./language";
+import { RESET_MODES, type ResetMode } from "./modes";
+import type { PromptVersion } from "./types";
+
+export function buildResetMessages(
+  prompt: PromptVersion,
+  input: string,
+  history: ConversationTurn[] = [],
+  mode: ResetMode = RESET_MODES.standard,
+  language: DetectedLanguage | null = null
+): ChatMessage[] {
+  const { turns, dropped } = trimHistory(history);
+  const isFollowUp = history.length > 0;
+
+  return [
+    {
+      role: "system",
+      content: [
+        prompt.systemPrompt,
+        isFollowUp ? prompt.followUpInstruction : "",
+        mode.instruction,
+        structuredOutputInstruction(),
+        // English needs no instruction; an undetected language still gets one.
+        language?.code === "en" ? "" : languageInstruction(language),
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    },
+    ...turns.map((turn, index): ChatMessage =>
+      turn.role === "assistant"
+        ? turn
+        : {
+            role: "user",
+            content:
+              index === 0 && dropped === 0
+                ? prompt.userTemplate(turn.content)
+                : prompt.followUpTemplate(turn.content),
+          }
+    ),
+    {
+      role: "user",
+      content: isFollowUp
+        ? prompt.followUpTemplate(input)
+        : prompt.userTemplate(input),
+    },
+  ];
+}
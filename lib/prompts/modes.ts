@@ -0,0 +1,104 @@
+import type { OutputShape } from "@/lib/llm/types";
+import { DEFAULT_PARAGRAPHS, type ParagraphRange } from "@/lib/quality";
+import type { PromptParams } from "./types";
+
+export type ResetModeId = "standard" | "quick" | "deeper" | "bedtime";
+
+export type ResetMode = {
+  id: ResetModeId;
+  label: string;
+  hint: string;
+  // Appended to the system prompt; overrides its length and pacing rules.
+  instruction: string;
+  params: Partial<PromptParams>;
+  paragraphs: ParagraphRange;
+  // Word counts outside these are too long or too thin even with the right paragraph count.
+  words: { min: number; max: number };
+};
+
+export const DEFAULT_RESET_MODE: ResetModeId = "standard";
+
+export const RESET_MODES: Record<ResetModeId, ResetMode> = {
+  standard: {
+    id: "standard",
+    label: "Reset",
+    hint: "A calm, personal reset",
+    instruction: "",
+    params: {},
+    paragraphs: DEFAULT_PARAGRAPHS,
+    words: { min: 60, max: 300 },
+  },
+  quick: {
+    id: "quick",
+    label: "Quick interrupt",
+    hint: "Readable in about 30 seconds",
+    instruction: `
+RESET MODE: QUICK INTERRUPT
+
+The person wants something they can read in about 30 seconds to break the loop.
+This overrides the length rules above.
+
+- Write 2 to 3 very short paragraphs, no more than 80 words in total
+- Name what their mind is doing in one precise line
+- Give at most one small action they can take right now
+- Skip the longer reframe; end on one steady line
+`.trim(),
+    params: { temperature: 0.6, maxOutputTokens: 220 },
+    paragraphs: { min: 2, max: 3 },
+    words: { min: 20, max: 80 },
+  },
+  deeper: {
+    id: "deeper",
+    label: "Deeper reframe",
+    hint: "Takes a little longer to untangle it",
+    instruction: `
+RESET MODE: DEEPER REFRAME
+
+The person has time and wants to understand the thought, not just quiet it.
+This overrides the length rules above.
+
+- Write 4 to 6 short paragraphs
+- Trace where the thought comes from and what it is trying to protect
+- Separate what is true from what the feeling is adding
+- Offer a more accurate way to hold the situation, in their own terms
+- Still keep each paragraph to one idea and every sentence short
+`.trim(),
+    params: { maxOutputTokens: 700 },
+    paragraphs: { min: 4, max: 6 },
+    words: { min: 120, max: 500 },
+  },
+  bedtime: {
+    id: "bedtime",
+    label: "Can’t sleep",
+    hint: "Softer and slower, for the middle of the night",
+    instruction: `
+RESET MODE: CAN'T SLEEP
+
+The person is in bed and their mind will not switch off.
+This overrides the pacing rules above.
+
+- Write 3 to 4 short paragraphs with a slow, soft rhythm
+- Use gentle, low-energy words; nothing that asks them to get up or solve anything tonight
+- Remind them that this can wait until morning and that night makes thoughts feel bigger
+- If you suggest a next step, make it something restful they can do lying down
+- End quietly, as if lowering your voice
+`.trim(),
+    params: { temperature: 0.5, maxOutputTokens: 400 },
+    paragraphs: { min: 3, max: 4 },
+    words: { min: 50, max: 250 },
+  },
+};
+
+export const RESET_MODE_IDS = Object.keys(RESET_MODES) as ResetModeId[];
+
+export function isResetMode(value: unknown): value is ResetModeId {
+  return typeof value === "string" && Object.hasOwn(RESET_MODES, value);
+}
+
+export function modeParams(base: PromptParams, mode: ResetMode): PromptParams {
+  return { ...base, ...mode.params };
+}
+
+export function modeShape(mode: ResetMode): OutputShape {
+  return { paragraphs: mode.paragraphs, words: mode.words };
+}
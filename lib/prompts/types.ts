@@ -0,0 +1,13 @@
+export type PromptParams = {
+  temperature: number;
+  maxOutputTokens: number;
+};
+
+export type PromptVersion = {
+  id: string;
+  systemPrompt: string;
+  followUpInstruction: string;
+  userTemplate: (input: string) => string;
+  followUpTemplate: (input: string) => string;
+  params: PromptParams;
+};
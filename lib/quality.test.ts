@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { checkResetQuality, repairReset } from "./quality";
+
+const GOOD = [
+  "You froze for a moment in the meeting. That felt huge from the inside.",
+  "Your mind is replaying it to stop it happening again. It means well.",
+  "Try writing one line you could say next time. Then put the meeting down.",
+].join("\n\n");
+
+describe("checkResetQuality", () => {
+  it.each([
+    ["three short paragraphs", GOOD, true, 100, []],
+    ["one paragraph", GOOD.replace(/\n\n/g, " "), false, 70, ["paragraph_count"]],
+    ["six paragraphs", `${GOOD}\n\n${GOOD}`, false, 70, ["paragraph_count"]],
+    ["an English banned phrase", `${GOOD} Just breathe.`, false, 75, ["banned_phrase"]],
+    ["a curly-quoted banned phrase", `${GOOD} You’re doing your best.`, false, 75, ["banned_phrase"]],
+    ["a Spanish banned phrase", `${GOOD} Solo respira.`, false, 75, ["banned_phrase"]],
+    ["a German banned phrase", `${GOOD} Das geht jedem so.`, false, 75, ["banned_phrase"]],
+    ["a heading", `## What happened\n\n${GOOD}`, false, 70, ["heading"]],
+    ["a bullet", GOOD.replace("Try writing", "- Try writing"), false, 80, ["bullet"]],
+    ["one long sentence", `${GOOD} ${"and then it went on ".repeat(8)}.`, true, 95, ["long_sentence"]],
+    [
+      "two paragraphs and a banned phrase",
+      GOOD.split("\n\n").slice(0, 2).join("\n\n") + " This is a common pattern.",
+      false,
+      45,
+      ["paragraph_count", "banned_phrase"],
+    ],
+  ])("%s", (_, text, passed, score, rules) => {
+    const report = checkResetQuality(text);
+
+    expect(report.passed).toBe(passed);
+    expect(report.score).toBe(score);
+    expect(report.violations.map((violation) => violation.rule)).toEqual(rules);
+  });
+
+  it("checks the paragraph count against the mode's range", () => {
+    expect(checkResetQuality(GOOD, { min: 1, max: 2 }).passed).toBe(false);
+    expect(checkResetQuality(GOOD.replace(/\n\n/g, " "), { min: 1, max: 2 }).passed).toBe(true);
+  });
+});
+
+describe("repairReset", () => {
+  it.each([
+    ["one paragraph", GOOD.replace(/\n\n/g, " ")],
+    ["six paragraphs", `${GOOD}\n\n${GOOD}`],
+    ["a banned phrase", `${GOOD} Just breathe.`],
+    ["headings and bullets", `## What happened\n\n${GOOD.replace("Try writing", "- Try writing")}`],
+  ])("fixes %s", (_, text) => {
+    expect(checkResetQuality(repairReset(text)).passed).toBe(true);
+  });
+
+  it("leaves a passing reset as it was", () => {
+    expect(repairReset(GOOD)).toBe(GOOD);
+  });
+});
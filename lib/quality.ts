@@ -0,0 +1,217 @@
+export type QualityRule =
+  | "paragraph_count"
+  | "banned_phrase"
+  | "heading"
+  | "bullet"
+  | "long_sentence";
+
+export type QualityViolation = {
+  rule: QualityRule;
+  detail: string;
+};
+
+export type QualityReport = {
+  passed: boolean;
+  score: number;
+  paragraphs: number;
+  violations: QualityViolation[];
+};
+
+const bannedPhrases: Record<string, string[]> = {
+  en: [
+    "this is a common pattern",
+    "everyone goes through this",
+    "you are doing your best",
+    "you're doing your best",
+    "just breathe",
+    "name 3 things you see",
+    "name three things you see",
+  ],
+  es: [
+    "es un patrón común",
+    "todo el mundo pasa por esto",
+    "estás haciendo lo mejor que puedes",
+    "solo respira",
+    "nombra 3 cosas que ves",
+    "nombra tres cosas que ves",
+  ],
+  fr: [
+    "c'est un schéma courant",
+    "tout le monde passe par là",
+    "tu fais de ton mieux",
+    "vous faites de votre mieux",
+    "respire simplement",
+    "respirez simplement",
+    "nomme 3 choses que tu vois",
+    "nomme trois choses que tu vois",
+  ],
+  de: [
+    "das ist ein häufiges muster",
+    "das geht jedem so",
+    "jeder macht das durch",
+    "du gibst dein bestes",
+    "atme einfach",
+    "nenne 3 dinge, die du siehst",
+    "nenne drei dinge, die du siehst",
+  ],
+};
+
+// Resets are written in the person's language, so every translation is checked.
+export const BANNED_PHRASES = Object.values(bannedPhrases).flat();
+
+export type ParagraphRange = { min: number; max: number };
+
+export const DEFAULT_PARAGRAPHS: ParagraphRange = { min: 3, max: 5 };
+const MAX_SENTENCE_WORDS = 35;
+
+const penalties: Record<QualityRule, number> = {
+  paragraph_count: 30,
+  banned_phrase: 25,
+  heading: 30,
+  bullet: 20,
+  long_sentence: 5,
+};
+
+// Long sentences lower the score but are not worth a regeneration on their own.
+const blockingRules: QualityRule[] = ["paragraph_count", "banned_phrase", "heading", "bullet"];
+
+const headingLine = /^\s*(#{1,6}\s+.+|\*\*[^*]+\*\*:?|[A-Z][A-Z ]{3,}:?)\s*$/;
+const bulletLine = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+function normalise(text: string) {
+  return text.toLowerCase().replace(/[‘’`]/g, "'");
+}
+
+export function splitParagraphs(text: string) {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+function splitSentences(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?…])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+export function checkResetQuality(
+  text: string,
+  range: ParagraphRange = DEFAULT_PARAGRAPHS
+): QualityReport {
+  const violations: QualityViolation[] = [];
+  const paragraphs = splitParagraphs(text);
+  const lines = text.split("\n");
+  const lower = normalise(text);
+
+  if (paragraphs.length < range.min || paragraphs.length > range.max) {
+    violations.push({
+      rule: "paragraph_count",
+      detail: `${paragraphs.length} paragraphs`,
+    });
+  }
+
+  for (const phrase of BANNED_PHRASES) {
+    if (lower.includes(phrase)) {
+      violations.push({ rule: "banned_phrase", detail: phrase });
+    }
+  }
+
+  for (const line of lines) {
+    if (headingLine.test(line)) {
+      violations.push({ rule: "heading", detail: line.trim().slice(0, 60) });
+    } else if (bulletLine.test(line)) {
+      violations.push({ rule: "bullet", detail: line.trim().slice(0, 60) });
+    }
+  }
+
+  for (const sentence of splitSentences(text)) {
+    const words = sentence.split(" ").length;
+    if (words > MAX_SENTENCE_WORDS) {
+      violations.push({ rule: "long_sentence", detail: `${words} words` });
+    }
+  }
+
+  const score = Math.max(
+    0,
+    100 - violations.reduce((sum, violation) => sum + penalties[violation.rule], 0)
+  );
+
+  return {
+    passed: !violations.some((violation) => blockingRules.includes(violation.rule)),
+    score,
+    paragraphs: paragraphs.length,
+    violations,
+  };
+}
+
+export function correctiveInstruction(
+  report: QualityReport,
+  range: ParagraphRange = DEFAULT_PARAGRAPHS
+) {
+  const problems = Array.from(
+    new Set(
+      report.violations.map((violation) => {
+        switch (violation.rule) {
+          case "paragraph_count":
+            return `It had ${report.paragraphs} paragraphs. Use ${range.min} to ${range.max} short paragraphs separated by one empty line.`;
+          case "banned_phrase":
+            return `It used the phrase "${violation.detail}". Do not use it.`;
+          case "heading":
+            return "It used headings or labels. Do not use any.";
+          case "bullet":
+            return "It used bullet points or a numbered list. Write in plain paragraphs.";
+          case "long_sentence":
+            return "Some sentences were too long. Keep sentences short.";
+        }
+      })
+    )
+  );
+
+  return `
+Your last reset broke the writing rules:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Rewrite the reset for the same person and the same moment, keeping what was psychologically accurate and fixing only these problems.
+`.trim();
+}
+
+function removeBannedSentences(paragraph: string) {
+  return splitSentences(paragraph)
+    .filter((sentence) => {
+      const lower = normalise(sentence);
+      return !BANNED_PHRASES.some((phrase) => lower.includes(phrase));
+    })
+    .join(" ");
+}
+
+// Best-effort fix for a reset that still fails after one regeneration.
+export function repairReset(text: string, range: ParagraphRange = DEFAULT_PARAGRAPHS) {
+  const cleaned = text
+    .split("\n")
+    .filter((line) => !/^\s*#{1,6}\s+/.test(line) && !/^\s*\*\*[^*]+\*\*:?\s*$/.test(line))
+    .map((line) => line.replace(bulletLine, "").replace(/\*\*/g, ""))
+    .join("\n");
+
+  let paragraphs = splitParagraphs(cleaned)
+    .map((paragraph) => removeBannedSentences(paragraph.replace(/\n/g, " ")))
+    .filter(Boolean);
+
+  if (paragraphs.length < range.min) {
+    const sentences = splitSentences(paragraphs.join(" "));
+    const size = Math.ceil(sentences.length / range.min);
+    paragraphs = [];
+    for (let i = 0; i < sentences.length; i += size) {
+      paragraphs.push(sentences.slice(i, i + size).join(" "));
+    }
+  }
+
+  while (paragraphs.length > range.max) {
+    const last = paragraphs.pop();
+    paragraphs[paragraphs.length - 1] += ` ${last}`;
+  }
+
+  return paragraphs.join("\n\n");
+}
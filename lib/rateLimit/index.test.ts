@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { getClientIp } from "./index";
+
+describe("getClientIp", () => {
+  it.each([
+    [{ "x-vercel-forwarded-for": "203.0.113.7", "x-forwarded-for": "1.1.1.1, 203.0.113.7" }, "203.0.113.7"],
+    [{ "x-real-ip": "203.0.113.8", "x-forwarded-for": "1.1.1.1, 203.0.113.8" }, "203.0.113.8"],
+    // The first entry is whatever the client sent; the last is the proxy's.
+    [{ "x-forwarded-for": "1.1.1.1, 2.2.2.2, 203.0.113.9" }, "203.0.113.9"],
+    [{ "x-forwarded-for": "203.0.113.10" }, "203.0.113.10"],
+    [{}, "unknown"],
+  ])("%o", (headers, expected) => {
+    expect(getClientIp(new Headers(headers))).toBe(expected);
+  });
+});
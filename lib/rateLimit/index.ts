@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { getConfig } from "@/lib/config";
+import type { Logger } from "@/lib/logger";
+import { memoryRateLimitStore } from "./memory";
+import { supabaseRateLimitStore } from "./supabase";
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from "./types";
+
+export type { RateLimitResult, RateLimitRule, RateLimitStore } from "./types";
+
+const MINUTE = 60_000;
+
+export const RATE_LIMITS = {
+  generate: {
+    ip: { limit: 30, windowMs: 60 * MINUTE },
+    visitor: { limit: 15, windowMs: 60 * MINUTE },
+  },
+  track: {
+    ip: { limit: 120, windowMs: MINUTE },
+    visitor: { limit: 60, windowMs: MINUTE },
+  },
+  trackBatch: {
+    ip: { limit: 30, windowMs: MINUTE },
+    visitor: { limit: 20, windowMs: MINUTE },
+  },
+  subscribe: {
+    ip: { limit: 10, windowMs: 60 * MINUTE },
+    visitor: { limit: 5, windowMs: 60 * MINUTE },
+  },
+  feedback: {
+    ip: { limit: 120, windowMs: 60 * MINUTE },
+    visitor: { limit: 60, windowMs: 60 * MINUTE },
+  },
+  journalSync: {
+    ip: { limit: 120, windowMs: 60 * MINUTE },
+    visitor: { limit: 60, windowMs: 60 * MINUTE },
+  },
+  share: {
+    ip: { limit: 30, windowMs: 60 * MINUTE },
+    visitor: { limit: 20, windowMs: 60 * MINUTE },
+  },
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  return getConfig().rateLimitStore === "memory" ? memoryRateLimitStore : supabaseRateLimitStore;
+}
+
+// The client can send any X-Forwarded-For it likes, so only the platform's own
+// headers are trusted, then the last hop, which the proxy in front of us appended.
+export function getClientIp(headers: Headers) {
+  const forwarded = headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return (
+    headers.get("x-vercel-forwarded-for")?.split(",")[0].trim() ||
+    headers.get("x-real-ip")?.trim() ||
+    forwarded ||
+    "unknown"
+  );
+}
+
+export function limitsFor(
+  route: keyof typeof RATE_LIMITS,
+  ids: { ip: string; visitorId: string }
+): RateLimitRule[] {
+  const policy = RATE_LIMITS[route];
+
+  return [
+    { name: `${route}:ip`, key: `${route}:ip:${ids.ip}`, ...policy.ip },
+    { name: `${route}:visitor`, key: `${route}:visitor:${ids.visitorId}`, ...policy.visitor },
+  ];
+}
+
+export async function checkRateLimits(
+  rules: RateLimitRule[],
+  log: Logger,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  try {
+    for (const rule of rules) {
+      const { count, resetAt } = await store.hit(rule.key, rule.windowMs);
+
+      if (count > rule.limit) {
+        return {
+          ok: false,
+          rule: rule.name,
+          retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+        };
+      }
+    }
+  } catch (e) {
+    // A broken limiter store shouldn't take the product down with it.
+    log.error("Rate limit error", e);
+  }
+
+  return { ok: true };
+}
+
+export function rateLimitResponse(
+  result: Extract<RateLimitResult, { ok: false }>,
+  error: string
+) {
+  return NextResponse.json(
+    { error, retryAfter: result.retryAfterSeconds },
+    {
+      status: 429,
+      headers: { "Retry-After": String(result.retryAfterSeconds) },
+    }
+  );
+}
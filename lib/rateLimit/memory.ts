@@ -0,0 +1,30 @@
+import type { RateLimitStore } from "./types";
+
+const windows = new Map<string, { count: number; resetAt: number }>();
+let lastSweep = 0;
+
+function sweep(now: number) {
+  if (now - lastSweep < 60_000) return;
+  lastSweep = now;
+  for (const [key, entry] of windows) {
+    if (entry.resetAt <= now) windows.delete(key);
+  }
+}
+
+export const memoryRateLimitStore: RateLimitStore = {
+  kind: "memory",
+  async hit(key, windowMs) {
+    const now = Date.now();
+    sweep(now);
+
+    const entry = windows.get(key);
+    if (!entry || entry.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      windows.set(key, fresh);
+      return { ...fresh };
+    }
+
+    entry.count += 1;
+    return { ...entry };
+  },
+};
@@ -0,0 +1,18 @@
+import { StorageError } from "@/lib/errors";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import type { RateLimitStore } from "./types";
+
+export const supabaseRateLimitStore: RateLimitStore = {
+  kind: "supabase",
+  async hit(key, windowMs) {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("rate_limit_hit", { p_key: key, p_window_ms: windowMs })
+      .single<{ hits: number; resets_at: string }>();
+
+    if (error || !data) {
+      throw new StorageError(`Rate limit lookup failed: ${error?.message || "no data"}`);
+    }
+
+    return { count: data.hits, resetAt: new Date(data.resets_at).getTime() };
+  },
+};
@@ -0,0 +1,20 @@
+export type RateLimitHit = {
+  count: number;
+  resetAt: number;
+};
+
+export interface RateLimitStore {
+  kind: "memory" | "supabase";
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export type RateLimitRule = {
+  name: string;
+  key: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; rule: string; retryAfterSeconds: number };
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createRestoreFilter, neutralize, redact, restore, scrubError } from "./index";
+
+describe("placeholder round-trip", () => {
+  it.each([
+    ["my sister Anna said she'd call", "my sister Anna said she'd call"],
+    ["email me at a@b.io", "email me at that email address"],
+    ["call 07700 900123 or 07700 900456", "call that number or that number"],
+    ["card 4111 1111 1111 1111", "card that card number"],
+    ["nothing personal here", "nothing personal here"],
+  ])("%s", (input, expected) => {
+    const { text, placeholders } = redact(input);
+    expect(restore(text, placeholders)).toBe(expected);
+  });
+
+  it("keeps placeholders stable across turns", () => {
+    const first = redact("my boss Sarah ignored me");
+    const second = redact("Sarah texted my friend Jo", first.placeholders);
+
+    expect(second.text).toBe("[NAME_1] texted my friend [NAME_2]");
+    expect(second.placeholders).toEqual({ "[NAME_1]": "Sarah", "[NAME_2]": "Jo" });
+  });
+
+  it("leaves unknown placeholders in place", () => {
+    expect(restore("ask [NAME_3]", { "[NAME_1]": "Sarah" })).toBe("ask [NAME_3]");
+  });
+
+  it("hides names when text leaves the person's screen", () => {
+    expect(neutralize("[NAME_1] emailed [EMAIL_1]")).toBe("someone emailed that email address");
+  });
+
+  it.each([
+    [["Tell [NA", "ME_1] it's ok"]],
+    [["Tell [NAME_1", "] it's ok"]],
+    [["Tell ", "[", "NAME_1]", " it's ok"]],
+    [["Tell [NAME_1] it's ok"]],
+  ])("restores a placeholder split across stream chunks %j", (chunks) => {
+    const filter = createRestoreFilter({ "[NAME_1]": "Sarah" });
+    const out = chunks.map((chunk) => filter.push(chunk)).join("") + filter.flush();
+    expect(out).toBe("Tell Sarah it's ok");
+  });
+
+  it("doesn't hold back a bracket that can't be a placeholder", () => {
+    const filter = createRestoreFilter({});
+    expect(filter.push("[this is just a long aside")).toBe("[this is just a long aside");
+    expect(filter.flush()).toBe("");
+  });
+});
+
+describe("scrubError", () => {
+  const withStatus = Object.assign(new Error("Rate limited for a@b.io"), { status: 429 });
+
+  it.each([
+    [new Error("boom"), [], "Error: boom"],
+    [new SyntaxError("Unexpected token in 'my secret'"), [], "SyntaxError: invalid JSON"],
+    [new Error("Failed on: I hate my job"), ["I hate my job"], "Error: Failed on: [user text]"],
+    [new Error("Bad input: hi"), ["hi"], "Error: Bad input: hi"],
+    [withStatus, [], "Error (429): Rate limited for [EMAIL_1]"],
+    ["plain string from sam@example.com", [], "string: plain string from [EMAIL_1]"],
+  ])("%s", (error, userTexts, expected) => {
+    expect(scrubError(error, userTexts)).toBe(expected);
+  });
+
+  it("caps the message length", () => {
+    expect(scrubError(new Error("x".repeat(1000))).length).toBeLessThanOrEqual(307);
+  });
+});
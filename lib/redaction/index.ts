@@ -0,0 +1,151 @@
+import { REDACTION_RULES, type PiiKind, type RedactionRule } from "./rules";
+
+export { REDACTION_RULES, type PiiKind, type RedactionRule } from "./rules";
+
+// Placeholder → original value, e.g. { "[NAME_1]": "Sarah" }.
+export type PlaceholderMap = Record<string, string>;
+
+export type Redaction = {
+  text: string;
+  placeholders: PlaceholderMap;
+  counts: Partial<Record<PiiKind, number>>;
+};
+
+const placeholderPattern = /\[(EMAIL|PHONE|URL|CARD|ID_NUMBER|NAME)_\d+\]/g;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+// Names read naturally when put back. The rest is replaced with a neutral phrase
+// so the reset never repeats contact or account details back to the person.
+const restoredAs: Record<PiiKind, string | null> = {
+  name: null,
+  email: "that email address",
+  phone: "that number",
+  url: "that link",
+  card: "that card number",
+  id_number: "that number",
+};
+
+function kindOf(placeholder: string) {
+  return placeholder.slice(1, placeholder.lastIndexOf("_")).toLowerCase() as PiiKind;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function placeholderFor(kind: PiiKind, value: string, map: PlaceholderMap) {
+  const existing = Object.keys(map).find(
+    (placeholder) => map[placeholder] === value && kindOf(placeholder) === kind
+  );
+  if (existing) return existing;
+
+  const prefix = `[${kind.toUpperCase()}_`;
+  const next = Object.keys(map).filter((placeholder) => placeholder.startsWith(prefix)).length + 1;
+  const placeholder = `${prefix}${next}]`;
+  map[placeholder] = value;
+  return placeholder;
+}
+
+function applyRule(text: string, rule: RedactionRule, map: PlaceholderMap, found: string[]) {
+  return text.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+    const value = rule.group ? String(groups[rule.group - 1] ?? "") : match;
+    if (!value || (rule.validate && !rule.validate(value))) return match;
+
+    found.push(value);
+    const placeholder = placeholderFor(rule.kind, value, map);
+    if (!rule.group) return placeholder;
+
+    const at = match.indexOf(value);
+    return match.slice(0, at) + placeholder + match.slice(at + value.length);
+  });
+}
+
+// Pass the map from earlier turns so the same person keeps the same placeholder.
+export function redact(text: string, placeholders: PlaceholderMap = {}): Redaction {
+  const map = placeholders;
+  const counts: Redaction["counts"] = {};
+  let result = text;
+
+  for (const rule of REDACTION_RULES) {
+    const found: string[] = [];
+    result = applyRule(result, rule, map, found);
+    if (found.length > 0) counts[rule.kind] = (counts[rule.kind] ?? 0) + found.length;
+  }
+
+  // A name spotted once ("my boss Sarah") is replaced wherever else it appears.
+  for (const [placeholder, value] of Object.entries(map)) {
+    if (kindOf(placeholder) !== "name") continue;
+    result = result.replace(new RegExp(`\\b${escapeRegExp(value)}\\b`, "g"), placeholder);
+  }
+
+  return { text: result, placeholders: map, counts };
+}
+
+export function redactText(text: string) {
+  return redact(text).text;
+}
+
+export function restore(text: string, placeholders: PlaceholderMap) {
+  return text.replace(placeholderPattern, (placeholder) => {
+    const original = placeholders[placeholder];
+    if (original === undefined) return placeholder;
+    return restoredAs[kindOf(placeholder)] ?? original;
+  });
+}
+
+// For text that leaves the person's screen, names are hidden like everything else.
+export function neutralize(text: string) {
+  return text.replace(placeholderPattern, (placeholder) => restoredAs[kindOf(placeholder)] ?? "someone");
+}
+
+// Restores placeholders in streamed text, holding back a trailing "[..." until
+// it is clear whether it is a placeholder split across chunks.
+export function createRestoreFilter(placeholders: PlaceholderMap) {
+  let pending = "";
+
+  return {
+    push(chunk: string) {
+      pending += chunk;
+      const open = pending.lastIndexOf("[");
+      let ready = pending;
+
+      if (
+        open !== -1 &&
+        !pending.includes("]", open) &&
+        pending.length - open <= MAX_PLACEHOLDER_LENGTH
+      ) {
+        ready = pending.slice(0, open);
+        pending = pending.slice(open);
+      } else {
+        pending = "";
+      }
+
+      return restore(ready, placeholders);
+    },
+    flush() {
+      const rest = restore(pending, placeholders);
+      pending = "";
+      return rest;
+    },
+  };
+}
+
+// Error messages can quote the request that failed. Log only the error's name,
+// status and a message with the user's own text and any PII taken out.
+export function scrubError(error: unknown, userTexts: string[] = []) {
+  const name = error instanceof Error ? error.name : typeof error;
+  // JSON.parse quotes the body it choked on, which is the user's text.
+  if (error instanceof SyntaxError) return `${name}: invalid JSON`;
+
+  const status =
+    error && typeof error === "object" && "status" in error ? String(error.status) : undefined;
+  let message = error instanceof Error ? error.message : String(error);
+
+  for (const text of userTexts) {
+    if (text.length >= 3) message = message.split(text).join("[user text]");
+  }
+
+  message = redact(message).text.slice(0, 300);
+
+  return status ? `${name} (${status}): ${message}` : `${name}: ${message}`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { redact } from "./index";
+
+describe("emails", () => {
+  it.each([
+    ["mail me at sam.jones+work@example.co.uk today", "mail me at [EMAIL_1] today"],
+    ["two: a@b.io and c_d@e-f.org", "two: [EMAIL_1] and [EMAIL_2]"],
+    ["the same one twice: a@b.io, a@b.io", "the same one twice: [EMAIL_1], [EMAIL_1]"],
+    ["not an email: @handle or name@localhost", "not an email: @handle or name@localhost"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+});
+
+describe("phones", () => {
+  it.each([
+    ["call me on +44 7700 900123", "call me on [PHONE_1]"],
+    ["my number is (415) 555-0132.", "my number is [PHONE_1]."],
+    ["ring 020-7946-0958 after six", "ring [PHONE_1] after six"],
+    ["the deadline is 2024-03-15", "the deadline is 2024-03-15"],
+    ["I slept 7 hours", "I slept 7 hours"],
+    ["room 1204, floor 12", "room 1204, floor 12"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+});
+
+describe("card numbers", () => {
+  it.each([
+    ["card 4111 1111 1111 1111 was declined", "card [CARD_1] was declined"],
+    ["card 4111-1111-1111-1111", "card [CARD_1]"],
+    ["amex 378282246310005", "amex [CARD_1]"],
+    // Fails the Luhn check, so it is left as an ordinary long number.
+    ["ref 4111 1111 1111 1112", "ref 4111 1111 1111 1112"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+
+  it("counts only numbers that pass the Luhn check", () => {
+    expect(redact("4111111111111111 and 4111111111111112").counts).toEqual({
+      card: 1,
+      id_number: 1,
+    });
+  });
+});
+
+describe("id numbers and links", () => {
+  it.each([
+    ["ssn 123-45-6789", "ssn [ID_NUMBER_1]"],
+    ["NI number AB 12 34 56 C", "NI number [ID_NUMBER_1]"],
+    ["pay to GB82 WEST 1234 5698 7654 32", "pay to [ID_NUMBER_1]"],
+    // Too long for a phone number and fails the Luhn check.
+    ["account 12345678901234567890", "account [ID_NUMBER_1]"],
+    ["see https://example.com/a?b=c and www.example.org", "see [URL_1] and [URL_2]"],
+    ["https://example.com/?mail=a@b.io", "[URL_1]"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+});
+
+describe("addresses", () => {
+  it.each([
+    ["email sam@example.com or visit https://sam.example.com", "email [EMAIL_1] or visit [URL_1]"],
+    ["write to jo@mail.example.org", "write to [EMAIL_1]"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+});
+
+describe("names", () => {
+  it.each([
+    ["my boss Sarah keeps moving the deadline", "my boss [NAME_1] keeps moving the deadline"],
+    ["Our landlord, Tom Price, won't reply", "Our landlord, [NAME_1], won't reply"],
+    ["a guy named Dev asked me out", "a guy named [NAME_1] asked me out"],
+    ["Dr. Okafor wants more tests", "Dr. [NAME_1] wants more tests"],
+    ["Priya said I was too quiet", "[NAME_1] said I was too quiet"],
+    ["my friend Sarah said Sarah would call", "my friend [NAME_1] said [NAME_1] would call"],
+  ])("%s", (input, expected) => {
+    expect(redact(input).text).toBe(expected);
+  });
+
+  it.each([
+    ["Everyone thinks I'm lazy"],
+    ["my mum Monday said nothing"],
+    ["She said it was fine"],
+    ["I told my boss no"],
+  ])("leaves %s alone", (input) => {
+    expect(redact(input).text).toBe(input);
+  });
+});
@@ -0,0 +1,103 @@
+export type PiiKind = "email" | "phone" | "url" | "card" | "id_number" | "name";
+
+export type RedactionRule = {
+  id: string;
+  kind: PiiKind;
+  pattern: RegExp;
+  // Capture group holding the value when the pattern also matches surrounding cue words.
+  group?: number;
+  validate?: (value: string) => boolean;
+};
+
+const NAME = "[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)?(?: [A-Z][a-z]+)?";
+
+const RELATIONS = [
+  "boss", "manager", "supervisor", "friend", "best friend", "partner", "wife", "husband",
+  "girlfriend", "boyfriend", "fiance", "fiancee", "mom", "mum", "mother", "dad", "father",
+  "sister", "brother", "son", "daughter", "cousin", "aunt", "uncle", "colleague", "coworker",
+  "co-worker", "roommate", "flatmate", "ex", "teacher", "therapist", "doctor", "neighbor",
+  "neighbour", "landlord", "client",
+].join("|");
+
+const SPEECH_VERBS = [
+  "said", "says", "told", "tells", "texted", "texts", "asked", "asks", "thinks", "thought",
+  "wants", "yelled", "ignored", "messaged", "emailed", "blamed", "hates", "left",
+].join("|");
+
+// Capitalised words that show up next to the cues above but are not names.
+export const NOT_NAMES = new Set([
+  "I", "I'm", "He", "She", "They", "We", "You", "It", "This", "That", "Everyone", "Everybody",
+  "Nobody", "Someone", "Somebody", "Anyone", "My", "Our", "The", "And", "But", "Then", "So",
+  "Mom", "Mum", "Dad", "God", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday",
+  "Saturday", "Sunday", "January", "February", "March", "April", "May", "June", "July",
+  "August", "September", "October", "November", "December", "Today", "Yesterday", "Tomorrow",
+]);
+
+function luhn(value: string) {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
+
+function isPhone(value: string) {
+  const digits = value.replace(/\D/g, "").length;
+  // ISO dates and years ranges have enough digits to look like a number; skip them.
+  return digits >= 8 && digits <= 15 && !/^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}$/.test(value.trim());
+}
+
+function isName(value: string) {
+  return value.split(" ").every((part) => !NOT_NAMES.has(part));
+}
+
+// Order matters: earlier rules claim text first, so URLs win over the emails
+// and numbers inside them, and cards win over phone numbers.
+export const REDACTION_RULES: RedactionRule[] = [
+  { id: "url", kind: "url", pattern: /\bhttps?:\/\/[^\s<>"')\]]+|\bwww\.[^\s<>"')\]]+/gi },
+  { id: "email", kind: "email", pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g },
+  { id: "card", kind: "card", pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: luhn },
+  { id: "us_ssn", kind: "id_number", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    id: "uk_national_insurance",
+    kind: "id_number",
+    pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  { id: "iban", kind: "id_number", pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  { id: "phone", kind: "phone", pattern: /(?<![\w[(])(?:\+|\()?\d[\d ().-]{6,}\d(?!\w)/g, validate: isPhone },
+  { id: "long_number", kind: "id_number", pattern: /\b\d{9,}\b/g },
+  {
+    id: "name_after_relation",
+    kind: "name",
+    pattern: new RegExp(`\\b(?:[Mm]y|[Oo]ur|[Hh]is|[Hh]er|[Tt]heir) (?:${RELATIONS}),? (${NAME})\\b`, "g"),
+    group: 1,
+    validate: isName,
+  },
+  {
+    id: "name_introduced",
+    kind: "name",
+    pattern: new RegExp(`\\b(?:named|called|name is|name's) (${NAME})\\b`, "g"),
+    group: 1,
+    validate: isName,
+  },
+  {
+    id: "name_with_title",
+    kind: "name",
+    pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\\.? (${NAME})\\b`, "g"),
+    group: 1,
+    validate: isName,
+  },
+  {
+    id: "name_before_verb",
+    kind: "name",
+    pattern: new RegExp(`\\b(${NAME}) (?:${SPEECH_VERBS})\\b`, "g"),
+    group: 1,
+    validate: isName,
+  },
+];
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import type { GenerateRequest, GenerateResult } from "@/lib/llm";
+import { generateCheckedReset } from "./resetPipeline";
+
+const GOOD = [
+  "You froze for a moment in the meeting. That felt huge from the inside.",
+  "Your mind is replaying it to stop it happening again. It means well.",
+  "Try writing one line you could say next time. Then put the meeting down.",
+].join("\n\n");
+
+// Score 75: one banned phrase.
+const BANNED = `${GOOD} Just breathe.`;
+// Score 70: one paragraph.
+const FLAT = GOOD.replace(/\n\n/g, " ");
+// Score 45: one paragraph and a banned phrase.
+const WORSE = `${FLAT} Just breathe.`;
+// Score 75 again, for a different reason.
+const ALSO_BANNED = `${GOOD} Everyone goes through this.`;
+
+const REQUEST: GenerateRequest = { messages: [{ role: "user", content: "I froze in a meeting." }] };
+const RANGE = { min: 3, max: 5 };
+
+function result(text: string, model: string): GenerateResult {
+  return { text, provider: "mock", model };
+}
+
+function generator(...texts: string[]) {
+  const replies = texts.map((text, i) => result(text, `attempt-${i + 1}`));
+  return vi.fn(async () => {
+    const reply = replies.shift();
+    if (!reply) throw new Error("No more replies");
+    return reply;
+  });
+}
+
+describe("generateCheckedReset", () => {
+  it("keeps a reset that passes without a retry", async () => {
+    const generate = generator(GOOD);
+    const checked = await generateCheckedReset(generate, REQUEST, RANGE);
+
+    expect(checked).toMatchObject({ action: "none", reset: { text: GOOD } });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns null when the model writes nothing", async () => {
+    expect(await generateCheckedReset(generator("  "), REQUEST, RANGE)).toBeNull();
+  });
+
+  it("asks for a retry with the failed draft and a corrective note", async () => {
+    const generate = generator(BANNED, GOOD);
+    await generateCheckedReset(generate, REQUEST, RANGE);
+
+    const [retryRequest, purpose] = generate.mock.calls[1] as unknown as [GenerateRequest, string];
+    expect(purpose).toBe("quality_retry");
+    expect(retryRequest.messages.at(-2)).toEqual({ role: "assistant", content: BANNED });
+    expect(retryRequest.messages.at(-1)?.content).toContain("just breathe");
+  });
+
+  it.each([
+    ["a passing retry", BANNED, GOOD, "attempt-2", "regenerated"],
+    ["a retry that scores the same", BANNED, ALSO_BANNED, "attempt-2", "repaired"],
+    ["a retry that scores lower", BANNED, WORSE, "attempt-1", "repaired"],
+    ["a retry that scores lower on another rule", FLAT, WORSE, "attempt-1", "repaired"],
+    ["an empty retry", BANNED, "", "attempt-1", "repaired"],
+  ])("picks the right attempt after %s", async (_, first, retry, model, action) => {
+    const checked = await generateCheckedReset(generator(first, retry), REQUEST, RANGE);
+
+    expect(checked?.result.model).toBe(model);
+    expect(checked?.action).toBe(action);
+    expect(checked?.initial.passed).toBe(false);
+    expect(checked?.quality.passed).toBe(true);
+  });
+
+  it("repairs the first draft when the retry fails", async () => {
+    const onRetryError = vi.fn();
+    const checked = await generateCheckedReset(generator(BANNED), REQUEST, RANGE, onRetryError);
+
+    expect(onRetryError).toHaveBeenCalledWith(expect.any(Error));
+    expect(checked).toMatchObject({ action: "repaired", result: { model: "attempt-1" } });
+    expect(checked?.reset.text).not.toContain("Just breathe");
+  });
+});
@@ -0,0 +1,82 @@
+import type { GenerateRequest, GenerateResult } from "@/lib/llm";
+import {
+  checkResetQuality,
+  correctiveInstruction,
+  repairReset,
+  type ParagraphRange,
+  type QualityReport,
+} from "@/lib/quality";
+import { parseStructuredReset, type StructuredReset } from "@/lib/structuredReset";
+import type { UsagePurpose } from "@/lib/usage";
+
+export type QualityAction = "none" | "regenerated" | "repaired";
+
+export type CheckedReset<R extends GenerateResult> = {
+  reset: StructuredReset;
+  result: R;
+  initial: QualityReport;
+  quality: QualityReport;
+  action: QualityAction;
+};
+
+type Generate<R> = (request: GenerateRequest, purpose: UsagePurpose) => Promise<R>;
+
+// One generation plus the quality gate: a reset that breaks the writing rules is
+// regenerated once with a corrective note, then repaired if it still fails.
+// Shared by /api/generate and the offline eval harness.
+export async function generateCheckedReset<R extends GenerateResult>(
+  generate: Generate<R>,
+  request: GenerateRequest,
+  paragraphs: ParagraphRange,
+  onRetryError?: (error: unknown) => void
+): Promise<CheckedReset<R> | null> {
+  let result = await generate(request, "reset");
+  let reset = parseStructuredReset(result.text);
+
+  if (!reset.text) return null;
+
+  const initial = checkResetQuality(reset.text, paragraphs);
+  let quality = initial;
+  let action: QualityAction = "none";
+
+  if (!quality.passed) {
+    action = "regenerated";
+
+    try {
+      const retry = await generate(
+        {
+          ...request,
+          messages: [
+            ...request.messages,
+            { role: "assistant", content: reset.text },
+            { role: "user", content: correctiveInstruction(quality, paragraphs) },
+          ],
+        },
+        "quality_retry"
+      );
+      const retryReset = parseStructuredReset(retry.text);
+      const retryQuality = checkResetQuality(retryReset.text, paragraphs);
+
+      if (retryReset.text && retryQuality.score >= quality.score) {
+        result = retry;
+        reset = {
+          text: retryReset.text,
+          pattern: retryReset.pattern ?? reset.pattern,
+          intensity: retryReset.intensity ?? reset.intensity,
+          nextAction: retryReset.nextAction ?? reset.nextAction,
+        };
+        quality = retryQuality;
+      }
+    } catch (e) {
+      onRetryError?.(e);
+    }
+
+    if (!quality.passed) {
+      action = "repaired";
+      reset = { ...reset, text: repairReset(reset.text, paragraphs) };
+      quality = checkResetQuality(reset.text, paragraphs);
+    }
+  }
+
+  return { reset, result, initial, quality, action };
+}
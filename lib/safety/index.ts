@@ -0,0 +1,95 @@
+import { getEventStore } from "@/lib/events/store";
+import type { Logger } from "@/lib/logger";
+import { classifyLexicon, type SafetyCategory } from "./lexicon";
+import { classifyModeration, isModerationEnabled } from "./moderation";
+import { getCrisisResources, type CrisisResources } from "./resources";
+import { scrubError } from "@/lib/redaction";
+
+export type { SafetyCategory } from "./lexicon";
+export type { CrisisContact, CrisisResources } from "./resources";
+export { resolveRegion } from "./resources";
+
+export type SafetyDecision = {
+  kind: "crisis" | "pass";
+  source: "lexicon" | "moderation" | "none";
+  categories: SafetyCategory[];
+  matchedRules: string[];
+  moderation: "skipped" | "clear" | "flagged" | "failed";
+  moderationCategories: string[];
+  region: string;
+  inputLength: number;
+};
+
+export type SafetyResult = {
+  decision: SafetyDecision;
+  resources: CrisisResources | null;
+};
+
+export async function assessSafety(
+  input: string,
+  region: string,
+  log: Logger
+): Promise<SafetyResult> {
+  const lexicon = classifyLexicon(input);
+
+  const decision: SafetyDecision = {
+    kind: lexicon.flagged ? "crisis" : "pass",
+    source: lexicon.flagged ? "lexicon" : "none",
+    categories: lexicon.categories,
+    matchedRules: lexicon.matchedRules,
+    moderation: "skipped",
+    moderationCategories: [],
+    region,
+    inputLength: input.length,
+  };
+
+  if (isModerationEnabled()) {
+    try {
+      const moderation = await classifyModeration(input);
+      decision.moderation = moderation.flagged ? "flagged" : "clear";
+      decision.moderationCategories = moderation.raw;
+
+      if (moderation.flagged) {
+        decision.categories = Array.from(
+          new Set([...decision.categories, ...moderation.categories])
+        );
+        if (decision.kind === "pass") {
+          decision.kind = "crisis";
+          decision.source = "moderation";
+        }
+      }
+    } catch (e) {
+      decision.moderation = "failed";
+      log.warn("Moderation failed", { error: scrubError(e, [input]) });
+    }
+  }
+
+  await logSafetyDecision(decision, log);
+
+  return {
+    decision,
+    resources:
+      decision.kind === "crisis"
+        ? getCrisisResources(region, decision.categories)
+        : null,
+  };
+}
+
+async function logSafetyDecision(decision: SafetyDecision, log: Logger) {
+  log.info("Safety decision", { event: "safety_decision", ...decision });
+
+  try {
+    await getEventStore().insert("safety_events", {
+      decision: decision.kind,
+      source: decision.source,
+      categories: decision.categories,
+      matched_rules: decision.matchedRules,
+      moderation: decision.moderation,
+      moderation_categories: decision.moderationCategories,
+      region: decision.region,
+      input_length: decision.inputLength,
+    });
+  } catch (e) {
+    log.error("Safety log error", e);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { classifyLexicon } from "./lexicon";
+
+describe("english suicide rules", () => {
+  it.each([
+    ["I want to end my life", "suicide.end_my_life"],
+    ["part of me wants to take my own life", "suicide.end_my_life"],
+    ["I just want to end it all", "suicide.end_my_life"],
+    ["I wish I would never wake up", "suicide.not_wake_up"],
+    ["honestly I wish I'd never wake up", "suicide.not_wake_up"],
+    ["I hope I don't wake up tomorrow", "suicide.not_wake_up"],
+    ["I don't want to wake up anymore", "suicide.not_wake_up"],
+  ])("%s", (input, rule) => {
+    expect(classifyLexicon(input).matchedRules).toContain(rule);
+  });
+});
+
+describe("english overwhelm that isn't a crisis", () => {
+  it.each([
+    "I can't take it all in anymore",
+    "there's too much to take it all in at once",
+    "I did not wake up for my alarm",
+    "my kid would not wake up for school",
+    "I never wake up before nine on weekends",
+  ])("%s", (input) => {
+    expect(classifyLexicon(input).flagged).toBe(false);
+  });
+});
+
+describe("localized suicide rules", () => {
+  it.each([
+    ["quiero matarme", "es.suicide.kill_myself"],
+    ["a veces pienso en matarme", "es.suicide.kill_myself"],
+    ["me quiero matar", "es.suicide.kill_myself"],
+    ["je veux me tuer", "fr.suicide.kill_myself"],
+    ["j'ai envie de me tuer", "fr.suicide.kill_myself"],
+    ["ich will mich umbringen", "de.suicide.kill_myself"],
+    ["ich denke daran, mich umzubringen", "de.suicide.kill_myself"],
+  ])("%s", (input, rule) => {
+    expect(classifyLexicon(input).matchedRules).toContain(rule);
+  });
+});
+
+describe("localized figures of speech", () => {
+  it.each([
+    "este trabajo va a matarme",
+    "mi jefe va a matarme si llego tarde",
+    "ce boulot va me tuer",
+    "mes enfants vont me tuer avec ce bruit",
+    "dieser Job wird mich noch umbringen",
+    "die Hitze bringt mich um",
+  ])("%s", (input) => {
+    expect(classifyLexicon(input).flagged).toBe(false);
+  });
+});
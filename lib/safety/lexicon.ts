@@ -0,0 +1,106 @@
+export type SafetyCategory = "suicide" | "self_harm" | "abuse";
+
+type LexiconRule = {
+  id: string;
+  category: SafetyCategory;
+  pattern: RegExp;
+};
+
+export type LexiconResult = {
+  flagged: boolean;
+  categories: SafetyCategory[];
+  matchedRules: string[];
+};
+
+const PARTNER =
+  "(?:he|she|they|my (?:partner|husband|wife|boyfriend|girlfriend|ex|dad|father|mom|mum|mother|parents?|stepdad|stepfather|stepmom|stepmother|brother|sister|uncle|boss))";
+
+const rules: LexiconRule[] = [
+  { id: "suicide.kill_myself", category: "suicide", pattern: /\bkill(?:ing)? myself\b/ },
+  { id: "suicide.keyword", category: "suicide", pattern: /\bsuicid(?:e|al)\b/ },
+  { id: "suicide.end_my_life", category: "suicide", pattern: /\b(?:(?:end|take) my (?:own )?life|end it all)\b/ },
+  { id: "suicide.want_to_die", category: "suicide", pattern: /\b(?:want|wanna|going|ready) to die\b(?! (?:of|from|laughing|inside))/ },
+  { id: "suicide.not_alive", category: "suicide", pattern: /\b(?:don'?t|do not) want to (?:live|be alive|exist|be here anymore)\b/ },
+  { id: "suicide.better_off", category: "suicide", pattern: /\bbetter off (?:dead|without me)\b/ },
+  { id: "suicide.no_reason", category: "suicide", pattern: /\bno (?:reason|point) (?:to|in) (?:live|living|going on)\b/ },
+  { id: "suicide.not_wake_up", category: "suicide", pattern: /\b(?:(?:wish|hope) i(?: would| could|'d)? (?:never|not|don'?t|didn'?t) wake up|(?:don'?t|do not) want to (?:ever )?wake up)\b/ },
+  { id: "self_harm.hurt_myself", category: "self_harm", pattern: /\b(?:cut|cutting|burn|burning|hurt|hurting|harm|harming|starve|starving) myself\b/ },
+  { id: "self_harm.keyword", category: "self_harm", pattern: /\bself[- ]?harm(?:ing)?\b/ },
+  { id: "self_harm.overdose", category: "self_harm", pattern: /\boverdos(?:e|ing)\b/ },
+  { id: "abuse.hits_me", category: "abuse", pattern: new RegExp(`\\b${PARTNER} (?:hits|hit|beats|beat|chokes|choked|strangles|strangled|kicks|kicked|rapes|raped) me\\b`) },
+  { id: "abuse.abuses_me", category: "abuse", pattern: /\b(?:abusing|abuses|abused|assaulted|molested|molesting) me\b/ },
+  { id: "abuse.keyword", category: "abuse", pattern: /\b(?:domestic (?:violence|abuse)|sexual(?:ly)? (?:abuse|abused|assault|assaulted)|raped)\b/ },
+  { id: "abuse.threat", category: "abuse", pattern: new RegExp(`\\b(?:afraid|scared|terrified) ${PARTNER} (?:will|'ll|is going to|might) (?:kill|hurt) me\\b`) },
+];
+
+// JavaScript's \b only knows ASCII letters, so the other languages' rules bound
+// words with Unicode lookarounds instead.
+function words(source: string) {
+  return new RegExp(`(?<!\\p{L})(?:${source})(?!\\p{L})`, "u");
+}
+
+const PARTNER_ES =
+  "(?:él|ella|mi (?:pareja|marido|esposo|esposa|mujer|novio|novia|ex|padre|papá|madre|mamá|padrastro|madrastra|hermano|hermana|tío|jefe|jefa))";
+const PARTNER_FR =
+  "(?:il|elle|mon (?:mari|copain|compagnon|ex|père|beau-père|frère|oncle|patron)|ma (?:femme|copine|compagne|mère|belle-mère|sœur|patronne))";
+const PARTNER_DE =
+  "(?:er|sie|mein (?:partner|mann|freund|ex|vater|papa|stiefvater|bruder|onkel|chef)|meine (?:partnerin|frau|freundin|mutter|mama|stiefmutter|schwester|chefin))";
+
+// Same categories as the English rules, for the locales the app is translated into.
+// All of them run on every message, since a short message is easy to misdetect.
+const localizedRules: LexiconRule[] = [
+  { id: "es.suicide.kill_myself", category: "suicide", pattern: words("(?:quiero|quisiera|voy a|ganas de|pienso en) matarme|suicidarme|me (?:quiero|voy a) matar") },
+  { id: "es.suicide.keyword", category: "suicide", pattern: words("suicidio|suicida") },
+  { id: "es.suicide.end_my_life", category: "suicide", pattern: words("(?:acabar con|terminar con|quitarme) (?:mi|la) vida|acabar con todo") },
+  { id: "es.suicide.want_to_die", category: "suicide", pattern: words("(?:quiero|quisiera|deseo) morir(?:me)?|no quiero (?:vivir|seguir viviendo|estar aquí)") },
+  { id: "es.suicide.better_off", category: "suicide", pattern: words("(?:estarían|estaría|están) mejor sin mí|mejor (?:muerto|muerta)") },
+  { id: "es.self_harm.hurt_myself", category: "self_harm", pattern: words("(?:hacerme|me hago) daño|cortarme (?:los brazos|las piernas|las venas|las muñecas)|quemarme|lastimarme|autolesi(?:ón|ones|onarme)") },
+  { id: "es.self_harm.overdose", category: "self_harm", pattern: words("sobredosis") },
+  { id: "es.abuse.hits_me", category: "abuse", pattern: words(`${PARTNER_ES} me (?:pega|pegó|golpea|golpeó|ahorca|estrangula|viola|violó)`) },
+  { id: "es.abuse.abuses_me", category: "abuse", pattern: words("abusa(?:ba)? de mí|abusó de mí|me (?:violaron|violó|agredió sexualmente)") },
+  { id: "es.abuse.keyword", category: "abuse", pattern: words("violencia (?:doméstica|de género)|abuso sexual|agresión sexual") },
+  { id: "es.abuse.threat", category: "abuse", pattern: words("miedo (?:de )?que (?:me mate|me haga daño)") },
+
+  { id: "fr.suicide.kill_myself", category: "suicide", pattern: words("(?:je veux|je voudrais|je vais|envie de|pense à) me tuer|me suicider") },
+  { id: "fr.suicide.keyword", category: "suicide", pattern: words("suicidaire") },
+  { id: "fr.suicide.end_my_life", category: "suicide", pattern: words("(?:mettre fin|mettre un terme) à (?:mes jours|ma vie)|(?:veux|vais) en finir|en finir avec (?:la vie|tout)") },
+  { id: "fr.suicide.want_to_die", category: "suicide", pattern: words("(?:veux|voudrais|envie de) mourir|(?:ne veux plus|plus envie de) vivre") },
+  { id: "fr.suicide.better_off", category: "suicide", pattern: words("mieux sans moi|mieux (?:mort|morte)") },
+  { id: "fr.self_harm.hurt_myself", category: "self_harm", pattern: words("me faire du mal|me (?:couper|scarifier|brûler|mutiler)|automutilation") },
+  { id: "fr.self_harm.overdose", category: "self_harm", pattern: words("surdose") },
+  { id: "fr.abuse.hits_me", category: "abuse", pattern: words(`${PARTNER_FR} me (?:frappe|bat|étrangle|viole)|${PARTNER_FR} m'a (?:frappée?|battue?|étranglée?|violée?)`) },
+  { id: "fr.abuse.keyword", category: "abuse", pattern: words("violences? conjugales?|abus sexuels?|agression sexuelle|violée?") },
+  { id: "fr.abuse.threat", category: "abuse", pattern: words(`peur qu'(?:il|elle) me (?:tue|fasse du mal)|peur que ${PARTNER_FR} me (?:tue|fasse du mal)`) },
+
+  { id: "de.suicide.kill_myself", category: "suicide", pattern: words("(?:will|möchte|werde) mich (?:umbringen|töten)|mich umzubringen|bringe mich um") },
+  { id: "de.suicide.keyword", category: "suicide", pattern: words("selbstmord\\p{L}*|suizid\\p{L}*") },
+  { id: "de.suicide.end_my_life", category: "suicide", pattern: words("mir das leben nehmen|meinem leben ein ende setzen") },
+  { id: "de.suicide.want_to_die", category: "suicide", pattern: words("(?:will|möchte) (?:nur noch )?sterben|(?:will|möchte) nicht mehr (?:leben|da sein)") },
+  { id: "de.suicide.better_off", category: "suicide", pattern: words("besser ohne mich|(?:wäre|lieber) (?:besser )?tot") },
+  { id: "de.self_harm.hurt_myself", category: "self_harm", pattern: words("mich (?:selbst )?(?:verletzen|ritzen|schneiden)|ritze mich|selbstverletzung") },
+  { id: "de.self_harm.overdose", category: "self_harm", pattern: words("überdosis") },
+  { id: "de.abuse.hits_me", category: "abuse", pattern: words(`${PARTNER_DE} (?:schlägt|schlug|würgt|würgte|vergewaltigt|vergewaltigte|missbraucht|missbrauchte) mich`) },
+  { id: "de.abuse.keyword", category: "abuse", pattern: words("häusliche gewalt|sexuelle[rn]? (?:missbrauch|gewalt|übergriff)|vergewaltigt") },
+  { id: "de.abuse.threat", category: "abuse", pattern: words(`angst, dass ${PARTNER_DE} mich (?:umbringt|tötet|verletzt)`) },
+];
+
+const allRules = [...rules, ...localizedRules];
+
+function normalise(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+export function classifyLexicon(text: string): LexiconResult {
+  const clean = normalise(text);
+  const matched = allRules.filter((rule) => rule.pattern.test(clean));
+  const categories = Array.from(new Set(matched.map((rule) => rule.category)));
+
+  return {
+    flagged: matched.length > 0,
+    categories,
+    matchedRules: matched.map((rule) => rule.id),
+  };
+}
@@ -0,0 +1,48 @@
+import OpenAI from "openai";
+import { getConfig } from "@/lib/config";
+import type { SafetyCategory } from "./lexicon";
+
+export type ModerationResult = {
+  flagged: boolean;
+  categories: SafetyCategory[];
+  raw: string[];
+};
+
+const categoryMap: Record<string, SafetyCategory> = {
+  "self-harm": "self_harm",
+  "self-harm/intent": "suicide",
+  "self-harm/instructions": "self_harm",
+  "sexual/minors": "abuse",
+};
+
+export function isModerationEnabled() {
+  return getConfig().moderation;
+}
+
+export async function classifyModeration(text: string): Promise<ModerationResult> {
+  const openai = new OpenAI({
+    apiKey: getConfig().llm.apiKeys.openai ?? undefined,
+    timeout: 5000,
+    maxRetries: 0,
+  });
+
+  const response = await openai.moderations.create({
+    model: "omni-moderation-latest",
+    input: text,
+  });
+
+  const result = response.results[0];
+  const raw = Object.entries(result?.categories || {})
+    .filter(([, hit]) => hit)
+    .map(([name]) => name);
+
+  const categories = Array.from(
+    new Set(raw.map((name) => categoryMap[name]).filter(Boolean))
+  );
+
+  return {
+    flagged: categories.length > 0,
+    categories,
+    raw,
+  };
+}
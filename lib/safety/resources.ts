@@ -0,0 +1,143 @@
+import type { SafetyCategory } from "./lexicon";
+
+export type CrisisContact = {
+  name: string;
+  description: string;
+  phone?: string;
+  sms?: string;
+  url?: string;
+};
+
+export type CrisisResources = {
+  region: string;
+  emergencyNumber: string;
+  contacts: CrisisContact[];
+};
+
+type RegionDirectory = {
+  emergencyNumber: string;
+  crisis: CrisisContact[];
+  abuse?: CrisisContact[];
+};
+
+const directory: Record<string, RegionDirectory> = {
+  US: {
+    emergencyNumber: "911",
+    crisis: [
+      { name: "988 Suicide & Crisis Lifeline", description: "Call or text, 24/7", phone: "988", sms: "988", url: "https://988lifeline.org" },
+      { name: "Crisis Text Line", description: "Text HOME to 741741", sms: "741741", url: "https://www.crisistextline.org" },
+    ],
+    abuse: [
+      { name: "National Domestic Violence Hotline", description: "Call 24/7 or text START to 88788", phone: "1-800-799-7233", url: "https://www.thehotline.org" },
+    ],
+  },
+  CA: {
+    emergencyNumber: "911",
+    crisis: [
+      { name: "9-8-8 Suicide Crisis Helpline", description: "Call or text, 24/7", phone: "988", sms: "988", url: "https://988.ca" },
+      { name: "Kids Help Phone", description: "For young people, 24/7", phone: "1-800-668-6868", url: "https://kidshelpphone.ca" },
+    ],
+  },
+  GB: {
+    emergencyNumber: "999",
+    crisis: [
+      { name: "Samaritans", description: "Call free, 24/7", phone: "116 123", url: "https://www.samaritans.org" },
+      { name: "Shout", description: "Text SHOUT to 85258", sms: "85258", url: "https://giveusashout.org" },
+    ],
+    abuse: [
+      { name: "National Domestic Abuse Helpline", description: "Free, 24/7", phone: "0808 2000 247", url: "https://www.nationaldahelpline.org.uk" },
+    ],
+  },
+  IE: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "Samaritans Ireland", description: "Call free, 24/7", phone: "116 123", url: "https://www.samaritans.org/ireland" },
+      { name: "Text About It", description: "Text HELLO to 50808", sms: "50808", url: "https://text50808.ie" },
+    ],
+  },
+  AU: {
+    emergencyNumber: "000",
+    crisis: [
+      { name: "Lifeline Australia", description: "Call 24/7", phone: "13 11 14", url: "https://www.lifeline.org.au" },
+    ],
+    abuse: [
+      { name: "1800RESPECT", description: "Call 24/7", phone: "1800 737 732", url: "https://www.1800respect.org.au" },
+    ],
+  },
+  NZ: {
+    emergencyNumber: "111",
+    crisis: [
+      { name: "Need to talk? 1737", description: "Call or text, 24/7", phone: "1737", sms: "1737", url: "https://1737.org.nz" },
+      { name: "Lifeline Aotearoa", description: "Call 24/7", phone: "0800 543 354", url: "https://www.lifeline.org.nz" },
+    ],
+  },
+  IN: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "Tele MANAS", description: "Call free, 24/7", phone: "14416", url: "https://telemanas.mohfw.gov.in" },
+    ],
+  },
+  DE: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "TelefonSeelsorge", description: "Anonym und kostenlos, rund um die Uhr", phone: "0800 111 0 111", url: "https://www.telefonseelsorge.de" },
+    ],
+  },
+  FR: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "3114", description: "Numéro national de prévention du suicide, 24h/24", phone: "3114", url: "https://3114.fr" },
+    ],
+  },
+  ES: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "Línea 024", description: "Atención a la conducta suicida, 24 horas", phone: "024" },
+    ],
+  },
+  NL: {
+    emergencyNumber: "112",
+    crisis: [
+      { name: "113 Zelfmoordpreventie", description: "Bel of chat, 24/7", phone: "0800 0113", url: "https://www.113.nl" },
+    ],
+  },
+};
+
+const international: CrisisContact = {
+  name: "Find A Helpline",
+  description: "Free, confidential support lines in your country",
+  url: "https://findahelpline.com",
+};
+
+export function resolveRegion(headers: Headers) {
+  const country =
+    headers.get("x-vercel-ip-country") || headers.get("cf-ipcountry") || "";
+
+  if (/^[A-Z]{2}$/i.test(country)) return country.toUpperCase();
+
+  const language = (headers.get("accept-language") || "").split(",")[0];
+  const match = language.match(/-([A-Z]{2})\b/i);
+
+  return match ? match[1].toUpperCase() : "INTL";
+}
+
+export function getCrisisResources(
+  region: string,
+  categories: SafetyCategory[]
+): CrisisResources {
+  const entry = directory[region];
+
+  if (!entry) {
+    return { region: "INTL", emergencyNumber: "112", contacts: [international] };
+  }
+
+  const contacts = categories.includes("abuse") && entry.abuse
+    ? [...entry.abuse, ...entry.crisis]
+    : [...entry.crisis, ...(entry.abuse || [])];
+
+  return {
+    region,
+    emergencyNumber: entry.emergencyNumber,
+    contacts: [...contacts, international],
+  };
+}
@@ -0,0 +1,109 @@
+import { createHash, randomBytes } from "node:crypto";
+import { getConfig } from "@/lib/config";
+import { getEventStore } from "@/lib/events/store";
+import { getFeedbackStore } from "@/lib/feedback/store";
+import type { Locale } from "@/lib/i18n";
+import type { Logger } from "@/lib/logger";
+import { neutralize } from "@/lib/redaction";
+import { getShareStore, type Share } from "./store";
+
+export type { Share } from "./store";
+
+// 16 random bytes: long enough that share links can't be enumerated.
+const SHARE_ID_PATTERN = /^[\w-]{22}$/;
+const DELETE_TOKEN_PATTERN = /^[\w-]{43}$/;
+
+export function isShareId(value: unknown): value is string {
+  return typeof value === "string" && SHARE_ID_PATTERN.test(value);
+}
+
+export function isDeleteToken(value: unknown): value is string {
+  return typeof value === "string" && DELETE_TOKEN_PATTERN.test(value);
+}
+
+function hashDeleteToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function shareUrl(baseUrl: string, id: string) {
+  return `${baseUrl}/r/${id}`;
+}
+
+export function deleteUrl(baseUrl: string, id: string, token: string) {
+  return `${shareUrl(baseUrl, id)}?${new URLSearchParams({ delete: token })}`;
+}
+
+// A sentence-safe preview for link cards and the image.
+export function shareExcerpt(text: string, max: number) {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= max) return flat;
+
+  const cut = flat.slice(0, max - 1);
+  return `${(cut.slice(0, cut.lastIndexOf(" ")) || cut).replace(/[\s,;:]+$/, "")}…`;
+}
+
+export type CreatedShare = {
+  id: string;
+  deleteToken: string;
+  expiresAt: string;
+};
+
+// Shares are built from the stored reset, never from text the client sends,
+// so a link on our domain always carries a real reset and never the input.
+export async function createShare({
+  resetId,
+  visitorId,
+  locale,
+}: {
+  resetId: string;
+  visitorId: string;
+  locale: Locale;
+}): Promise<CreatedShare | null> {
+  const reset = await getFeedbackStore().findReset(resetId, visitorId);
+  if (!reset) return null;
+
+  const id = randomBytes(16).toString("base64url");
+  const deleteToken = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + getConfig().shareTtlDays * 24 * 60 * 60 * 1000);
+
+  await getShareStore().create({
+    id,
+    resetId,
+    visitorId,
+    text: neutralize(reset.output),
+    pattern: reset.pattern,
+    locale,
+    deleteTokenHash: hashDeleteToken(deleteToken),
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  });
+
+  return { id, deleteToken, expiresAt: expiresAt.toISOString() };
+}
+
+export function findShare(id: string): Promise<Share | null> {
+  return isShareId(id) ? getShareStore().find(id) : Promise.resolve(null);
+}
+
+export function deleteShare(id: string, token: string) {
+  return getShareStore().remove(id, hashDeleteToken(token));
+}
+
+export async function recordShareEvent(
+  log: Logger,
+  eventName: "share_created" | "share_viewed" | "share_deleted",
+  shareId: string,
+  visitorId: string | null,
+  properties: Record<string, unknown> = {}
+) {
+  try {
+    await getEventStore().insert("events", {
+      event_name: eventName,
+      visitor_id: visitorId,
+      properties: { ...properties, share_id: shareId },
+    });
+  } catch (e) {
+    log.error("Share event log error", e, { event_name: eventName });
+  }
+}
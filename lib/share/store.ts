@@ -0,0 +1,112 @@
+import { StorageError } from "@/lib/errors";
+import { isLocalMode } from "@/lib/mode";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type Share = {
+  id: string;
+  resetId: string;
+  text: string;
+  pattern: string | null;
+  // The sharer's UI locale, used for the preview image.
+  locale: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type ShareRecord = Share & {
+  visitorId: string;
+  deleteTokenHash: string;
+};
+
+export interface ShareStore {
+  create(share: ShareRecord): Promise<void>;
+  // Expired shares read as missing.
+  find(id: string): Promise<Share | null>;
+  // Returns false when the id and delete token don't match a share.
+  remove(id: string, deleteTokenHash: string): Promise<boolean>;
+}
+
+type ShareRow = {
+  id: string;
+  reset_id: string;
+  text: string;
+  pattern: string | null;
+  locale: string;
+  created_at: string;
+  expires_at: string;
+};
+
+const supabaseShareStore: ShareStore = {
+  async create(share) {
+    const { error } = await getSupabaseAdmin().from("shares").insert({
+      id: share.id,
+      reset_id: share.resetId,
+      visitor_id: share.visitorId,
+      text: share.text,
+      pattern: share.pattern,
+      locale: share.locale,
+      delete_token_hash: share.deleteTokenHash,
+      created_at: share.createdAt,
+      expires_at: share.expiresAt,
+    });
+    if (error) throw new StorageError(`Share insert failed: ${error.message}`);
+  },
+
+  async find(id) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("shares")
+      .select("id, reset_id, text, pattern, locale, created_at, expires_at")
+      .eq("id", id)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle<ShareRow>();
+    if (error) throw new StorageError(`Share lookup failed: ${error.message}`);
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      resetId: data.reset_id,
+      text: data.text,
+      pattern: data.pattern,
+      locale: data.locale,
+      createdAt: data.created_at,
+      expiresAt: data.expires_at,
+    };
+  },
+
+  async remove(id, deleteTokenHash) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("shares")
+      .delete()
+      .eq("id", id)
+      .eq("delete_token_hash", deleteTokenHash)
+      .select("id");
+    if (error) throw new StorageError(`Share delete failed: ${error.message}`);
+    return (data ?? []).length > 0;
+  },
+};
+
+// Route handlers and pages are bundled separately, each with its own copy of
+// this module, so the local store hangs off globalThis for /r/[id] to see it.
+const memoryShares = ((globalThis as { mindeazyShares?: Map<string, ShareRecord> }).mindeazyShares ??=
+  new Map<string, ShareRecord>());
+
+const memoryShareStore: ShareStore = {
+  async create(share) {
+    memoryShares.set(share.id, share);
+  },
+  async find(id) {
+    const share = memoryShares.get(id);
+    if (!share || Date.parse(share.expiresAt) <= Date.now()) return null;
+
+    const { resetId, text, pattern, locale, createdAt, expiresAt } = share;
+    return { id, resetId, text, pattern, locale, createdAt, expiresAt };
+  },
+  async remove(id, deleteTokenHash) {
+    if (memoryShares.get(id)?.deleteTokenHash !== deleteTokenHash) return false;
+    return memoryShares.delete(id);
+  },
+};
+
+export function getShareStore(): ShareStore {
+  return isLocalMode() ? memoryShareStore : supabaseShareStore;
+}
@@ -0,0 +1,121 @@
+export const THINKING_PATTERNS = {
+  worst_case_thinking: "Worst-case thinking",
+  fear_of_uncertainty: "Fear of uncertainty",
+  spiraling: "Spiraling",
+  mental_replay: "Mental replay",
+  regret: "Regret",
+  self_blame: "Self-blame",
+  comparison_pressure: "Comparison pressure",
+  shame: "Shame",
+  emotional_overwhelm: "Emotional overwhelm",
+  fear_of_losing_control: "Fear of losing control",
+  overthinking_loop: "Solving a feeling by thinking more",
+  possibility_as_reality: "Treating possibility like reality",
+  moment_as_whole_story: "Treating one moment like the whole story",
+  uncertainty_as_danger: "Treating uncertainty like danger",
+  false_urgency: "Everything must be solved now",
+} as const;
+
+export type ThinkingPattern = keyof typeof THINKING_PATTERNS;
+
+export type StructuredReset = {
+  text: string;
+  pattern: ThinkingPattern | null;
+  intensity: number | null;
+  nextAction: string | null;
+};
+
+export const META_MARKER = "<<<META";
+
+export function isThinkingPattern(value: unknown): value is ThinkingPattern {
+  return typeof value === "string" && value in THINKING_PATTERNS;
+}
+
+export function structuredOutputInstruction() {
+  return `
+STRUCTURED NOTE
+
+After the reset, add one final line that the reader never sees, exactly in this form:
+${META_MARKER} {"pattern": "<pattern id>", "intensity": <1-10>, "nextAction": "<one short next step>"}
+
+- pattern is the single pattern most underneath the message, one of: ${Object.keys(THINKING_PATTERNS).join(", ")}
+- intensity is how intense the user's state sounds, from 1 (mild) to 10 (overwhelming)
+- nextAction is one small, concrete step in under 15 words, or "" if none fits
+- Do not mention this line in the reset itself
+`.trim();
+}
+
+export function formatMetaLine(meta: Omit<StructuredReset, "text">) {
+  return `${META_MARKER} ${JSON.stringify(meta)}`;
+}
+
+function parseMeta(raw: string): Omit<StructuredReset, "text"> {
+  const empty = { pattern: null, intensity: null, nextAction: null };
+
+  try {
+    const start = raw.indexOf("{");
+    const end = raw.lastIndexOf("}");
+    if (start === -1 || end < start) return empty;
+
+    const value = JSON.parse(raw.slice(start, end + 1)) as Record<string, unknown>;
+    const intensity = Number(value.intensity);
+    const nextAction =
+      typeof value.nextAction === "string" ? value.nextAction.trim().slice(0, 160) : "";
+
+    return {
+      pattern: isThinkingPattern(value.pattern) ? value.pattern : null,
+      intensity:
+        Number.isInteger(intensity) && intensity >= 1 && intensity <= 10
+          ? intensity
+          : null,
+      nextAction: nextAction || null,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+export function parseStructuredReset(raw: string): StructuredReset {
+  const index = raw.indexOf(META_MARKER);
+
+  if (index === -1) {
+    return { text: raw.trim(), pattern: null, intensity: null, nextAction: null };
+  }
+
+  return {
+    text: raw.slice(0, index).trim(),
+    ...parseMeta(raw.slice(index + META_MARKER.length)),
+  };
+}
+
+// Streams the visible reset while holding back anything that might be the
+// start of the metadata line, so the marker never flashes up in the UI.
+export function createMetaFilter() {
+  let raw = "";
+  let emitted = 0;
+
+  return {
+    push(delta: string) {
+      raw += delta;
+
+      const markerAt = raw.indexOf(META_MARKER);
+      let safeEnd = markerAt === -1 ? raw.length : markerAt;
+
+      if (markerAt === -1) {
+        for (let size = Math.min(META_MARKER.length - 1, raw.length); size > 0; size--) {
+          if (META_MARKER.startsWith(raw.slice(-size))) {
+            safeEnd = raw.length - size;
+            break;
+          }
+        }
+      }
+
+      const visible = raw.slice(emitted, Math.max(emitted, safeEnd));
+      emitted = Math.max(emitted, safeEnd);
+      return visible;
+    },
+    result() {
+      return parseStructuredReset(raw);
+    },
+  };
+}
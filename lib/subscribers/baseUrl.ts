@@ -0,0 +1,5 @@
+import { getConfig } from "@/lib/config";
+
+export function getBaseUrl(req: Request) {
+  return getConfig().appUrl ?? new URL(req.url).origin;
+}
@@ -0,0 +1,48 @@
+import type { MailMessage } from "@/lib/mail";
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export function confirmationEmail(
+  to: string,
+  links: { confirm: string; unsubscribe: string }
+): MailMessage {
+  const text = `
+Hi,
+
+Someone (hopefully you) asked to get calm resets from Mindeazy at this address.
+
+Confirm your email here:
+${links.confirm}
+
+If this wasn't you, you can ignore this message and nothing will be sent.
+
+Don't want these emails? ${links.unsubscribe}
+`.trim();
+
+  const html = `
+<div style="font-family: Arial, Helvetica, sans-serif; color: #1E2A38; background: #F5F5F2; padding: 32px;">
+  <div style="max-width: 520px; margin: 0 auto; background: #ffffff; border-radius: 20px; padding: 32px;">
+    <p style="font-size: 20px; font-weight: bold; color: #4F7A58; margin: 0 0 16px;">Mindeazy</p>
+    <p>Someone (hopefully you) asked to get calm resets from Mindeazy at this address.</p>
+    <p style="margin: 28px 0;">
+      <a href="${escapeHtml(links.confirm)}" style="background: #1E2A38; color: #ffffff; padding: 14px 22px; border-radius: 14px; text-decoration: none; font-weight: bold;">Confirm my email</a>
+    </p>
+    <p style="color: #5F6B76; font-size: 14px;">If this wasn't you, you can ignore this message and nothing will be sent.</p>
+    <p style="color: #8A9690; font-size: 12px;"><a href="${escapeHtml(links.unsubscribe)}" style="color: #8A9690;">Unsubscribe</a></p>
+  </div>
+</div>
+`.trim();
+
+  return {
+    to,
+    subject: "Confirm your Mindeazy email",
+    text,
+    html,
+    headers: {
+      "List-Unsubscribe": `<${links.unsubscribe}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
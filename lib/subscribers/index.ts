@@ -0,0 +1,86 @@
+import { sendMail } from "@/lib/mail";
+import { confirmationEmail } from "./emails";
+import { getSubscriberStore, type SubscriberStatus } from "./store";
+import { createConfirmToken, hashToken, signUnsubscribe, verifyUnsubscribe } from "./tokens";
+
+const CONFIRM_TTL_MS = 48 * 60 * 60 * 1000;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normaliseEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function unsubscribeUrl(baseUrl: string, subscriberId: string) {
+  const params = new URLSearchParams({ id: subscriberId, sig: signUnsubscribe(subscriberId) });
+  return `${baseUrl}/api/unsubscribe?${params}`;
+}
+
+export async function subscribe(email: string, baseUrl: string): Promise<SubscriberStatus> {
+  const store = getSubscriberStore();
+  const existing = await store.findByEmail(email);
+
+  if (existing?.status === "confirmed") return "confirmed";
+
+  const token = createConfirmToken();
+  const pending = {
+    status: "pending" as const,
+    confirmTokenHash: hashToken(token),
+    confirmExpiresAt: new Date(Date.now() + CONFIRM_TTL_MS).toISOString(),
+  };
+
+  const subscriber = existing ?? (await store.create({ email, ...pending }));
+
+  if (subscriber.status === "confirmed") return "confirmed";
+  if (subscriber.confirmTokenHash !== pending.confirmTokenHash) {
+    await store.update(subscriber.id, { ...pending, unsubscribedAt: null });
+  }
+
+  await sendMail(
+    confirmationEmail(email, {
+      confirm: `${baseUrl}/api/subscribe/confirm?${new URLSearchParams({ token })}`,
+      unsubscribe: unsubscribeUrl(baseUrl, subscriber.id),
+    })
+  );
+
+  return "pending";
+}
+
+export async function confirmSubscription(token: string) {
+  const store = getSubscriberStore();
+  const subscriber = await store.findByTokenHash(hashToken(token));
+
+  if (!subscriber || subscriber.status !== "pending") return "invalid";
+
+  if (!subscriber.confirmExpiresAt || Date.parse(subscriber.confirmExpiresAt) < Date.now()) {
+    return "expired";
+  }
+
+  await store.update(subscriber.id, {
+    status: "confirmed",
+    confirmTokenHash: null,
+    confirmExpiresAt: null,
+    confirmedAt: new Date().toISOString(),
+  });
+
+  return "confirmed";
+}
+
+export async function unsubscribe(subscriberId: string, signature: string) {
+  if (!verifyUnsubscribe(subscriberId, signature)) return "invalid";
+
+  const store = getSubscriberStore();
+  const subscriber = await store.findById(subscriberId);
+
+  if (!subscriber) return "invalid";
+  if (subscriber.status === "unsubscribed") return "unsubscribed";
+
+  await store.update(subscriber.id, {
+    status: "unsubscribed",
+    confirmTokenHash: null,
+    confirmExpiresAt: null,
+    unsubscribedAt: new Date().toISOString(),
+  });
+
+  return "unsubscribed";
+}
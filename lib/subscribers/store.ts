@@ -0,0 +1,137 @@
+import { StorageError } from "@/lib/errors";
+import { isLocalMode } from "@/lib/mode";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type SubscriberStatus = "pending" | "confirmed" | "unsubscribed";
+
+export type Subscriber = {
+  id: string;
+  email: string;
+  status: SubscriberStatus;
+  confirmTokenHash: string | null;
+  confirmExpiresAt: string | null;
+};
+
+export type SubscriberPatch = Partial<Omit<Subscriber, "id" | "email">> & {
+  confirmedAt?: string | null;
+  unsubscribedAt?: string | null;
+};
+
+export interface SubscriberStore {
+  findByEmail(email: string): Promise<Subscriber | null>;
+  findById(id: string): Promise<Subscriber | null>;
+  findByTokenHash(hash: string): Promise<Subscriber | null>;
+  create(subscriber: Omit<Subscriber, "id">): Promise<Subscriber>;
+  update(id: string, patch: SubscriberPatch): Promise<void>;
+}
+
+type SubscriberRow = {
+  id: string;
+  email: string;
+  status: SubscriberStatus;
+  confirm_token_hash: string | null;
+  confirm_expires_at: string | null;
+};
+
+const columns = "id, email, status, confirm_token_hash, confirm_expires_at";
+
+function fromRow(row: SubscriberRow): Subscriber {
+  return {
+    id: row.id,
+    email: row.email,
+    status: row.status,
+    confirmTokenHash: row.confirm_token_hash,
+    confirmExpiresAt: row.confirm_expires_at,
+  };
+}
+
+function toRow(patch: SubscriberPatch) {
+  const row: Record<string, unknown> = {};
+  if (patch.status !== undefined) row.status = patch.status;
+  if (patch.confirmTokenHash !== undefined) row.confirm_token_hash = patch.confirmTokenHash;
+  if (patch.confirmExpiresAt !== undefined) row.confirm_expires_at = patch.confirmExpiresAt;
+  if (patch.confirmedAt !== undefined) row.confirmed_at = patch.confirmedAt;
+  if (patch.unsubscribedAt !== undefined) row.unsubscribed_at = patch.unsubscribedAt;
+  return row;
+}
+
+const supabaseSubscriberStore: SubscriberStore = {
+  async findByEmail(email) {
+    return findOne("email", email);
+  },
+  async findById(id) {
+    return findOne("id", id);
+  },
+  async findByTokenHash(hash) {
+    return findOne("confirm_token_hash", hash);
+  },
+  async create(subscriber) {
+    const { data, error } = await getSupabaseAdmin()
+      .from("subscribers")
+      .insert({
+        email: subscriber.email,
+        ...toRow(subscriber),
+      })
+      .select(columns)
+      .single<SubscriberRow>();
+
+    // Two requests for the same address can race; the loser reads the winner's row.
+    if (error?.code === "23505") {
+      const existing = await findOne("email", subscriber.email);
+      if (existing) return existing;
+    }
+    if (error || !data) throw new StorageError(`Subscriber insert failed: ${error?.message}`);
+
+    return fromRow(data);
+  },
+  async update(id, patch) {
+    const { error } = await getSupabaseAdmin()
+      .from("subscribers")
+      .update(toRow(patch))
+      .eq("id", id);
+    if (error) throw new StorageError(`Subscriber update failed: ${error.message}`);
+  },
+};
+
+async function findOne(column: string, value: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("subscribers")
+    .select(columns)
+    .eq(column, value)
+    .maybeSingle<SubscriberRow>();
+
+  if (error) throw new StorageError(`Subscriber lookup failed: ${error.message}`);
+  return data ? fromRow(data) : null;
+}
+
+const memorySubscribers = new Map<string, Subscriber>();
+
+const memorySubscriberStore: SubscriberStore = {
+  async findByEmail(email) {
+    return [...memorySubscribers.values()].find((s) => s.email === email) ?? null;
+  },
+  async findById(id) {
+    return memorySubscribers.get(id) ?? null;
+  },
+  async findByTokenHash(hash) {
+    return [...memorySubscribers.values()].find((s) => s.confirmTokenHash === hash) ?? null;
+  },
+  async create(subscriber) {
+    const existing = await this.findByEmail(subscriber.email);
+    if (existing) return existing;
+
+    const created = { ...subscriber, id: crypto.randomUUID() };
+    memorySubscribers.set(created.id, created);
+    return created;
+  },
+  async update(id, patch) {
+    const current = memorySubscribers.get(id);
+    if (!current) return;
+    const { status, confirmTokenHash, confirmExpiresAt } = { ...current, ...patch };
+    memorySubscribers.set(id, { ...current, status, confirmTokenHash, confirmExpiresAt });
+  },
+};
+
+export function getSubscriberStore(): SubscriberStore {
+  return isLocalMode() ? memorySubscriberStore : supabaseSubscriberStore;
+}
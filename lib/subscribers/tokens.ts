@@ -0,0 +1,26 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { getConfig } from "@/lib/config";
+
+export function createConfirmToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function getSecret() {
+  return getConfig().subscriberSecret;
+}
+
+export function signUnsubscribe(subscriberId: string) {
+  return createHmac("sha256", getSecret())
+    .update(`unsubscribe:${subscriberId}`)
+    .digest("base64url");
+}
+
+export function verifyUnsubscribe(subscriberId: string, signature: string) {
+  const expected = Buffer.from(signUnsubscribe(subscriberId));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
@@ -1,6 +1,23 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getConfig } from "@/lib/config";
+import { ConfigError } from "@/lib/errors";
 
-export const supabaseAdmin = createClient(
-  process.env.SUPABASE_URL || "",
-  process.env.SUPABASE_SERVICE_ROLE_KEY || ""
-);
\ No newline at end of file
+let client: SupabaseClient | null = null;
+
+export function getSupabaseAdmin() {
+  if (!client) {
+    const { supabase } = getConfig();
+
+    if (!supabase) {
+      throw new ConfigError(
+        "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local"
+      );
+    }
+
+    client = createClient(supabase.url, supabase.serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+  }
+
+  return client;
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_BATCH_SIZE, type TrackedEvent } from "@/lib/events/catalogue";
+
+type Listener = () => void;
+
+// Just enough of a browser for the tracker: storage, listeners, beacon and fetch.
+function browser({ online = true, beaconAccepts = true, fetchStatus = 200 } = {}) {
+  const listeners = new Map<string, Listener[]>();
+  const on = (type: string, listener: Listener) =>
+    listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+  const storage = () => {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    };
+  };
+
+  const env = {
+    navigator: { onLine: online, sendBeacon: vi.fn<(url: string, body: Blob) => boolean>(() => beaconAccepts) },
+    fetch: vi.fn<(url: string, init: RequestInit) => Promise<Response>>(
+      async () => new Response(null, { status: fetchStatus })
+    ),
+    localStorage: storage(),
+    document: { visibilityState: "visible", addEventListener: on },
+    fire: (type: string) => listeners.get(type)?.forEach((listener) => listener()),
+  };
+
+  vi.stubGlobal("window", { location: { pathname: "/en" }, addEventListener: on });
+  vi.stubGlobal("document", env.document);
+  vi.stubGlobal("navigator", env.navigator);
+  vi.stubGlobal("fetch", env.fetch);
+  vi.stubGlobal("localStorage", env.localStorage);
+  vi.stubGlobal("sessionStorage", storage());
+  return env;
+}
+
+// The tracker keeps its queue in module state, so each test gets a fresh copy.
+async function loadTracker() {
+  vi.resetModules();
+  return import("./tracker");
+}
+
+function sentEvents(env: ReturnType<typeof browser>) {
+  return env.fetch.mock.calls.map(([, init]) => JSON.parse(String(init.body)).events as TrackedEvent[]);
+}
+
+function pending(env: ReturnType<typeof browser>): TrackedEvent[] {
+  return JSON.parse(env.localStorage.getItem("mz_pending_events") || "[]");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("batching", () => {
+  it("sends events together once the flush delay passes", async () => {
+    const env = browser();
+    const { track } = await loadTracker();
+
+    track("landing_cta_click");
+    track("share_link_copied");
+    expect(env.fetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(sentEvents(env)).toHaveLength(1);
+    expect(sentEvents(env)[0]).toMatchObject([
+      { event_name: "landing_cta_click", page: "/en" },
+      { event_name: "share_link_copied", page: "/en" },
+    ]);
+    expect(new Set(sentEvents(env)[0].map((event) => event.session_id)).size).toBe(1);
+  });
+
+  it("sends a full batch straight away", async () => {
+    const env = browser();
+    const { track } = await loadTracker();
+
+    for (let i = 0; i <= MAX_BATCH_SIZE; i++) track("landing_cta_click");
+    expect(sentEvents(env).map((batch) => batch.length)).toEqual([MAX_BATCH_SIZE]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sentEvents(env).map((batch) => batch.length)).toEqual([MAX_BATCH_SIZE, 1]);
+  });
+});
+
+describe("leaving the page", () => {
+  it.each(["pagehide", "visibilitychange"])("sends what's queued as a beacon on %s", async (type) => {
+    const env = browser();
+    const { track } = await loadTracker();
+
+    track("landing_cta_click");
+    env.document.visibilityState = "hidden";
+    env.fire(type);
+
+    expect(env.navigator.sendBeacon).toHaveBeenCalledTimes(1);
+    const [url, blob] = env.navigator.sendBeacon.mock.calls[0];
+    expect(url).toBe("/api/track/batch");
+    expect(JSON.parse(await blob.text()).events).toMatchObject([{ event_name: "landing_cta_click" }]);
+    expect(env.fetch).not.toHaveBeenCalled();
+  });
+
+  it("falls back to fetch when the browser refuses the beacon", async () => {
+    const env = browser({ beaconAccepts: false });
+    const { track } = await loadTracker();
+
+    track("landing_cta_click");
+    env.fire("pagehide");
+
+    expect(env.fetch).toHaveBeenCalledWith(
+      "/api/track/batch",
+      expect.objectContaining({ method: "POST", keepalive: true })
+    );
+  });
+});
+
+describe("offline", () => {
+  it("keeps events while offline and sends them when the connection returns", async () => {
+    const env = browser({ online: false });
+    const { track } = await loadTracker();
+
+    track("landing_cta_click");
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(env.fetch).not.toHaveBeenCalled();
+    expect(pending(env)).toMatchObject([{ event_name: "landing_cta_click" }]);
+
+    env.navigator.onLine = true;
+    env.fire("online");
+
+    expect(sentEvents(env)).toMatchObject([[{ event_name: "landing_cta_click" }]]);
+    expect(pending(env)).toEqual([]);
+  });
+
+  it("drops kept events too old for the server to accept", async () => {
+    const env = browser();
+    const old = { event_name: "landing_cta_click", session_id: "s", page: "/en", timestamp: "2000-01-01T00:00:00Z" };
+    const recent = { ...old, event_name: "share_link_copied", timestamp: new Date().toISOString() };
+    env.localStorage.setItem("mz_pending_events", JSON.stringify([old, recent]));
+    const { flushPending } = await loadTracker();
+
+    flushPending();
+
+    expect(sentEvents(env)).toMatchObject([[{ event_name: "share_link_copied" }]]);
+  });
+
+  it.each([
+    ["a server error", () => browser({ fetchStatus: 503 })],
+    [
+      "a network failure",
+      () => {
+        const env = browser();
+        env.fetch.mockRejectedValue(new TypeError("Failed to fetch"));
+        return env;
+      },
+    ],
+  ])("keeps a batch that fails with %s", async (_, setup) => {
+    const env = setup();
+    const { track } = await loadTracker();
+
+    track("landing_cta_click");
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(pending(env)).toMatchObject([{ event_name: "landing_cta_click" }]);
+  });
+});
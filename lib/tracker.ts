@@ -0,0 +1,143 @@
+import {
+  MAX_BATCH_SIZE,
+  MAX_EVENT_AGE_MS,
+  type EventName,
+  type EventProperties,
+  type TrackedEvent,
+} from "@/lib/events/catalogue";
+
+const SESSION_KEY = "mz_sid";
+const BATCH_ENDPOINT = "/api/track/batch";
+const FLUSH_DELAY_MS = 2000;
+// Events that couldn't be sent wait here until the connection is back.
+const PENDING_KEY = "mz_pending_events";
+const MAX_PENDING = 200;
+
+const queue: TrackedEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+function getSessionId() {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+function readPending(): TrackedEvent[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function keepPending(events: TrackedEvent[]) {
+  try {
+    localStorage.setItem(PENDING_KEY, JSON.stringify([...readPending(), ...events].slice(-MAX_PENDING)));
+  } catch {
+    // Storage full or blocked: these events are lost, which analytics can live with.
+  }
+}
+
+function send(events: TrackedEvent[], useBeacon: boolean) {
+  if (!navigator.onLine) {
+    keepPending(events);
+    return;
+  }
+
+  const body = JSON.stringify({ events });
+
+  if (useBeacon && navigator.sendBeacon) {
+    const sent = navigator.sendBeacon(
+      BATCH_ENDPOINT,
+      new Blob([body], { type: "application/json" })
+    );
+    if (sent) return;
+  }
+
+  fetch(BATCH_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  })
+    .then((res) => {
+      if (res.status >= 500) keepPending(events);
+    })
+    .catch(() => {
+      // Analytics must never get in the way of a reset; try again once online.
+      keepPending(events);
+    });
+}
+
+export function flush(useBeacon = false) {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  while (queue.length > 0) {
+    send(queue.splice(0, MAX_BATCH_SIZE), useBeacon);
+  }
+}
+
+// Sends events kept while offline, dropping any too old for the server to accept.
+export function flushPending() {
+  if (typeof window === "undefined" || !navigator.onLine) return;
+  listen();
+
+  const pending = readPending();
+  if (pending.length === 0) return;
+
+  try {
+    localStorage.removeItem(PENDING_KEY);
+  } catch {
+    return;
+  }
+  const oldest = Date.now() - MAX_EVENT_AGE_MS;
+  queue.push(...pending.filter((event) => Date.parse(event.timestamp) > oldest));
+  flush();
+}
+
+function listen() {
+  if (listening) return;
+  listening = true;
+
+  window.addEventListener("online", flushPending);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flush(true);
+  });
+  window.addEventListener("pagehide", () => flush(true));
+}
+
+export function track<E extends EventName>(
+  name: E,
+  ...[properties]: keyof EventProperties<E> extends never
+    ? [properties?: EventProperties<E>]
+    : [properties: EventProperties<E>]
+) {
+  if (typeof window === "undefined") return;
+  listen();
+
+  queue.push({
+    event_name: name,
+    properties: properties as Record<string, unknown> | undefined,
+    session_id: getSessionId(),
+    timestamp: new Date().toISOString(),
+    page: window.location.pathname,
+  });
+
+  if (queue.length >= MAX_BATCH_SIZE) {
+    flush();
+  } else if (!timer) {
+    timer = setTimeout(() => flush(), FLUSH_DELAY_MS);
+  }
+}
@@ -0,0 +1,150 @@
+import { NextResponse } from "next/server";
+import { getConfig } from "@/lib/config";
+import { errorBody, StorageError } from "@/lib/errors";
+import type { Locale } from "@/lib/i18n";
+import { getEventStore, readLocalRows } from "@/lib/events/store";
+import type { ProviderName, TokenUsage } from "@/lib/llm/types";
+import { REQUEST_ID_HEADER, type Logger } from "@/lib/logger";
+import { getSupabaseAdmin } from "@/lib/supabaseAdmin";
+import { estimateCost } from "./prices";
+
+export { estimateCost, MODEL_PRICES } from "./prices";
+
+export type UsagePurpose = "reset" | "quality_retry";
+
+export type UsageEntry = {
+  requestId: string;
+  resetId: string;
+  visitorId: string;
+  provider: ProviderName;
+  model: string;
+  mode: string;
+  purpose: UsagePurpose;
+  budgetModel: boolean;
+  usage?: TokenUsage;
+  latencyMs: number;
+};
+
+export type Spend = { today: number; month: number };
+
+export type BudgetPeriod = "daily" | "monthly";
+
+type BudgetLimit = { period: BudgetPeriod; resetsAt: Date };
+
+export type BudgetStatus =
+  | { state: "ok" }
+  | ({ state: "degraded" } & BudgetLimit)
+  | ({ state: "exhausted" } & BudgetLimit);
+
+// Spend is summed at most once a minute; calls in between add to the cached totals.
+const SPEND_CACHE_MS = 60_000;
+
+let cachedSpend: { spend: Spend; day: string; expiresAt: number } | null = null;
+
+function periodStarts(now = new Date()) {
+  return {
+    day: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    nextDay: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    nextMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+async function sumSpendSince(since: Date) {
+  if (getEventStore().kind !== "supabase") {
+    const rows = await readLocalRows("llm_usage");
+    return rows
+      .filter((row) => row.created_at >= since.toISOString())
+      .reduce((sum, row) => sum + (Number(row.cost_usd) || 0), 0);
+  }
+
+  const { data, error } = await getSupabaseAdmin().rpc("llm_spend_since", {
+    p_since: since.toISOString(),
+  });
+  if (error) throw new StorageError(`Spend lookup failed: ${error.message}`);
+  return Number(data) || 0;
+}
+
+export async function getSpend(): Promise<Spend> {
+  const { day, month } = periodStarts();
+  const dayKey = day.toISOString();
+
+  // A new UTC day (and so any new month) always starts from a fresh sum.
+  if (cachedSpend && cachedSpend.day === dayKey && cachedSpend.expiresAt > Date.now()) {
+    return { ...cachedSpend.spend };
+  }
+
+  const [today, monthTotal] = await Promise.all([sumSpendSince(day), sumSpendSince(month)]);
+  const spend = { today, month: monthTotal };
+  cachedSpend = { spend, day: dayKey, expiresAt: Date.now() + SPEND_CACHE_MS };
+
+  return { ...spend };
+}
+
+export async function recordUsage(entry: UsageEntry) {
+  const cost = estimateCost(entry.model, entry.usage);
+
+  await getEventStore().insert("llm_usage", {
+    request_id: entry.requestId,
+    reset_id: entry.resetId,
+    visitor_id: entry.visitorId,
+    provider: entry.provider,
+    model: entry.model,
+    mode: entry.mode,
+    purpose: entry.purpose,
+    budget_model: entry.budgetModel,
+    input_tokens: entry.usage?.inputTokens ?? null,
+    output_tokens: entry.usage?.outputTokens ?? null,
+    latency_ms: Math.round(entry.latencyMs),
+    cost_usd: cost,
+  });
+
+  if (cachedSpend && cost) {
+    cachedSpend.spend.today += cost;
+    cachedSpend.spend.month += cost;
+  }
+}
+
+// Once a cap is reached, resets switch to the provider's *_BUDGET_MODEL; without
+// one, generation pauses until the period rolls over. A failed lookup doesn't block.
+export async function checkBudget(log: Logger): Promise<BudgetStatus> {
+  const { budget, llm, localMode } = getConfig();
+  if (budget.dailyUsd === null && budget.monthlyUsd === null) return { state: "ok" };
+
+  let spend: Spend;
+  try {
+    spend = await getSpend();
+  } catch (e) {
+    log.error("Budget lookup error", e);
+    return { state: "ok" };
+  }
+
+  const starts = periodStarts();
+  let period: BudgetPeriod | null = null;
+  if (budget.monthlyUsd !== null && spend.month >= budget.monthlyUsd) period = "monthly";
+  else if (budget.dailyUsd !== null && spend.today >= budget.dailyUsd) period = "daily";
+
+  if (!period) return { state: "ok" };
+
+  const primary = localMode ? "mock" : llm.primary;
+  const limit = { period, resetsAt: period === "monthly" ? starts.nextMonth : starts.nextDay };
+  return llm.budgetModels[primary]
+    ? { state: "degraded", ...limit }
+    : { state: "exhausted", ...limit };
+}
+
+export function budgetExhaustedResponse(
+  status: Extract<BudgetStatus, { state: "exhausted" }>,
+  requestId: string,
+  locale?: Locale
+) {
+  const retryAfter = Math.max(60, Math.ceil((status.resetsAt.getTime() - Date.now()) / 1000));
+
+  return NextResponse.json(
+    { ...errorBody("over_budget", requestId, locale), retryAfter },
+    {
+      status: 503,
+      headers: { "Retry-After": String(retryAfter), [REQUEST_ID_HEADER]: requestId },
+    }
+  );
+}
@@ -0,0 +1,21 @@
+import type { TokenUsage } from "@/lib/llm/types";
+
+// USD per million tokens. Check these against the providers' pricing pages
+// when adding a model; unknown models are recorded with a null cost.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "mock-reset-v1": { input: 0, output: 0 },
+};
+
+export function estimateCost(model: string, usage: TokenUsage | undefined) {
+  const price = MODEL_PRICES[model];
+  if (!price || !usage) return null;
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Number(cost.toFixed(6));
+}
@@ -0,0 +1,30 @@
+import { cookies } from "next/headers";
+
+export const VISITOR_COOKIE = "mz_vid";
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+const visitorIdPattern = /^[0-9a-f-]{36}$/;
+
+export async function getVisitorId() {
+  const store = await cookies();
+  const existing = store.get(VISITOR_COOKIE)?.value;
+
+  if (existing && visitorIdPattern.test(existing)) return existing;
+
+  const id = crypto.randomUUID();
+  store.set(VISITOR_COOKIE, id, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: ONE_YEAR,
+    path: "/",
+  });
+
+  return id;
+}
+
+// For pages that can't set cookies: the visitor if they already have an id, else null.
+export async function readVisitorId() {
+  const existing = (await cookies()).get(VISITOR_COOKIE)?.value;
+  return existing && visitorIdPattern.test(existing) ? existing : null;
+}
@@ -0,0 +1,84 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { adminUnauthorized, isAdminConfigured, isAdminRequest } from "@/lib/adminAuth";
+import { isLocale, LOCALE_COOKIE, matchLocale } from "@/lib/i18n/config";
+import { REQUEST_ID_HEADER, resolveRequestId } from "@/lib/logger";
+
+function checkAdmin(req: NextRequest) {
+  // Without a secret the admin area doesn't exist.
+  if (!isAdminConfigured()) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  if (!isAdminRequest(req)) return adminUnauthorized();
+
+  return null;
+}
+
+// Shared resets keep one short link whatever the viewer's language, and the
+// app icons are fetched by the manifest.
+const UNLOCALIZED_PREFIXES = ["/api/", "/admin", "/r/", "/icons/"];
+
+function isPage(pathname: string) {
+  return !UNLOCALIZED_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+// Pages live under /[locale]; a bare path goes to the visitor's last choice,
+// then their browser's language.
+function localeRedirect(req: NextRequest) {
+  const [, first] = req.nextUrl.pathname.split("/");
+  if (isLocale(first)) return null;
+
+  const saved = req.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : matchLocale(req.headers.get("accept-language"));
+
+  const url = req.nextUrl.clone();
+  url.pathname = `/${locale}${req.nextUrl.pathname === "/" ? "" : req.nextUrl.pathname}`;
+  return NextResponse.redirect(url);
+}
+
+export function proxy(req: NextRequest) {
+  const requestId = resolveRequestId(req.headers);
+  const { pathname } = req.nextUrl;
+
+  if (isPage(pathname)) {
+    const redirect = localeRedirect(req);
+    if (redirect) return redirect;
+  }
+
+  const denied = pathname.startsWith("/admin") ? checkAdmin(req) : null;
+  if (denied) {
+    denied.headers.set(REQUEST_ID_HEADER, requestId);
+    return denied;
+  }
+
+  // Route handlers read the id from the request; clients get it back on the response.
+  const headers = new Headers(req.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  const res = NextResponse.next({ request: { headers } });
+  res.headers.set(REQUEST_ID_HEADER, requestId);
+
+  // Remembered so API errors and the next bare visit use the same language.
+  if (isPage(pathname)) {
+    const locale = pathname.split("/")[1];
+    if (req.cookies.get(LOCALE_COOKIE)?.value !== locale) {
+      res.cookies.set(LOCALE_COOKIE, locale, {
+        sameSite: "lax",
+        maxAge: 60 * 60 * 24 * 365,
+        path: "/",
+      });
+    }
+  }
+
+  return res;
+}
+
+export const config = {
+  matcher: [
+    "/api/:path*",
+    "/admin",
+    "/admin/:path*",
+    // Pages only: skips Next internals and files like /favicon.ico.
+    "/((?!api|admin|_next|.*\\..*).*)",
+  ],
+};
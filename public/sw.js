@@ -0,0 +1,367 @@
+// Mindeazy service worker: keeps the app shell available offline and sends
+// thoughts saved offline to /api/generate once the connection is back.
+// The IndexedDB names and record shape match lib/offline/thoughts.ts.
+"use strict";
+
+var VERSION = "v1";
+var SHELL_CACHE = "mindeazy-shell-" + VERSION;
+var STATIC_CACHE = "mindeazy-static-" + VERSION;
+var LOCALES = ["en", "es", "fr", "de"];
+var SHELL_URLS = LOCALES.map(function (locale) {
+  return "/" + locale;
+}).concat(["/mindeazy-logo.png", "/manifest.webmanifest", "/icons/192", "/icons/512"]);
+
+var DB_NAME = "mindeazy-offline";
+var DB_VERSION = 2;
+var STORE = "thoughts";
+var KEY_STORE = "keys";
+var KEY_ID = "thoughts";
+var SYNC_TAG = "mindeazy-thoughts";
+
+self.addEventListener("install", function (event) {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then(function (cache) {
+        return cache.addAll(SHELL_URLS);
+      })
+      .then(function () {
+        return self.skipWaiting();
+      })
+  );
+});
+
+self.addEventListener("activate", function (event) {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(function (keys) {
+        return Promise.all(
+          keys
+            .filter(function (key) {
+              return key.indexOf("mindeazy-") === 0 && key !== SHELL_CACHE && key !== STATIC_CACHE;
+            })
+            .map(function (key) {
+              return caches.delete(key);
+            })
+        );
+      })
+      .then(function () {
+        return self.clients.claim();
+      })
+  );
+});
+
+function localeOf(url) {
+  var first = url.pathname.split("/")[1];
+  return LOCALES.indexOf(first) === -1 ? "en" : first;
+}
+
+// Pages: the network first, so a deploy shows up at once; the cached shell when offline.
+function handleNavigation(request) {
+  var url = new URL(request.url);
+  return fetch(request)
+    .then(function (response) {
+      if (response.ok && LOCALES.indexOf(url.pathname.slice(1)) !== -1) {
+        var copy = response.clone();
+        caches.open(SHELL_CACHE).then(function (cache) {
+          cache.put(url.pathname, copy);
+        });
+      }
+      return response;
+    })
+    .catch(function () {
+      return caches.match(request, { ignoreSearch: true }).then(function (cached) {
+        return cached || caches.match("/" + localeOf(url));
+      });
+    });
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale.
+function handleStatic(request) {
+  return caches.match(request).then(function (cached) {
+    if (cached) return cached;
+    return fetch(request).then(function (response) {
+      if (response.ok) {
+        var copy = response.clone();
+        caches.open(STATIC_CACHE).then(function (cache) {
+          cache.put(request, copy);
+        });
+      }
+      return response;
+    });
+  });
+}
+
+function handleShellAsset(request) {
+  return caches.match(request).then(function (cached) {
+    var network = fetch(request)
+      .then(function (response) {
+        if (response.ok) {
+          var copy = response.clone();
+          caches.open(SHELL_CACHE).then(function (cache) {
+            cache.put(request, copy);
+          });
+        }
+        return response;
+      })
+      .catch(function () {
+        return cached;
+      });
+    return cached || network;
+  });
+}
+
+self.addEventListener("fetch", function (event) {
+  var request = event.request;
+  if (request.method !== "GET") return;
+
+  var url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.indexOf("/api/") === 0) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.indexOf("/_next/static/") === 0) {
+    event.respondWith(handleStatic(request));
+  } else if (SHELL_URLS.indexOf(url.pathname) !== -1) {
+    event.respondWith(handleShellAsset(request));
+  }
+});
+
+function openDb() {
+  return new Promise(function (resolve, reject) {
+    var request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = function (event) {
+      var db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      } else if (event.oldVersion < 2) {
+        // Version 1 kept thoughts in plain text; drop them rather than leave them readable.
+        request.transaction.objectStore(STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(KEY_STORE)) db.createObjectStore(KEY_STORE);
+    };
+    request.onsuccess = function () {
+      resolve(request.result);
+    };
+    request.onerror = function () {
+      reject(request.error);
+    };
+  });
+}
+
+function withStore(name, mode, run) {
+  return openDb().then(function (db) {
+    return new Promise(function (resolve, reject) {
+      var request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = function () {
+        resolve(request.result);
+      };
+      request.onerror = function () {
+        reject(request.error);
+      };
+    }).finally(function () {
+      db.close();
+    });
+  });
+}
+
+// Same sealing as lib/journal/crypto.ts, with the key the page created when it
+// queued the first thought.
+function toBase64(bytes) {
+  var binary = "";
+  for (var i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(text) {
+  return Uint8Array.from(atob(text), function (char) {
+    return char.charCodeAt(0);
+  });
+}
+
+function seal(key, value) {
+  var iv = crypto.getRandomValues(new Uint8Array(12));
+  return crypto.subtle
+    .encrypt({ name: "AES-GCM", iv: iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+    .then(function (data) {
+      return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    });
+}
+
+function unseal(key, sealed) {
+  return crypto.subtle
+    .decrypt({ name: "AES-GCM", iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data))
+    .then(function (data) {
+      return JSON.parse(new TextDecoder().decode(data));
+    });
+}
+
+function thoughtKey() {
+  return withStore(KEY_STORE, "readonly", function (store) {
+    return store.get(KEY_ID);
+  });
+}
+
+function windowClients() {
+  return self.clients.matchAll({ type: "window", includeUncontrolled: true });
+}
+
+function announce(thought) {
+  return windowClients().then(function (clients) {
+    clients.forEach(function (client) {
+      client.postMessage({ type: "thought-finished", id: thought.id });
+    });
+
+    // Someone looking at the app will see it there; a notification would be noise.
+    var watching = clients.some(function (client) {
+      return client.visibilityState === "visible";
+    });
+    if (watching || self.Notification === undefined || Notification.permission !== "granted") return;
+
+    return self.registration.showNotification(thought.notification.title, {
+      body: thought.notification.body,
+      tag: thought.id,
+      icon: "/icons/192",
+      data: { url: "/" + thought.locale + "?thought=" + encodeURIComponent(thought.id) },
+    });
+  });
+}
+
+function removeThought(id) {
+  return withStore(STORE, "readwrite", function (store) {
+    return store.delete(id);
+  });
+}
+
+// Sends one thought. Resolves false when it should be retried later.
+function send(key, thought) {
+  return unseal(key, thought.sealed).then(
+    function (content) {
+      return fetch("/api/generate", {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({ input: content.input, mode: thought.mode, stream: false }),
+      }).then(function (response) {
+        if (response.status === 429 || response.status >= 500) return false;
+
+        return response
+          .json()
+          .catch(function () {
+            return {};
+          })
+          .then(function (body) {
+            var status = response.ok ? "ready" : "failed";
+            var outcome = response.ok
+              ? { input: content.input, result: body }
+              : { input: content.input, error: body.error || String(response.status) };
+
+            return seal(key, outcome).then(function (sealed) {
+              var finished = Object.assign({}, thought, { status: status, sealed: sealed });
+
+              return withStore(STORE, "readwrite", function (store) {
+                return store.put(finished);
+              })
+                .then(function () {
+                  return announce(finished);
+                })
+                .then(function () {
+                  return true;
+                });
+            });
+          });
+      });
+    },
+    function () {
+      // Sealed with a key this device no longer has, so nobody can read it.
+      return removeThought(thought.id).then(function () {
+        return true;
+      });
+    }
+  );
+}
+
+var flushing = null;
+
+// One flush at a time: a sync event and a page's message can arrive together.
+function flushThoughts() {
+  if (flushing) return flushing;
+
+  flushing = Promise.all([
+    thoughtKey(),
+    withStore(STORE, "readonly", function (store) {
+      return store.getAll();
+    }),
+  ])
+    .then(function (loaded) {
+      var key = loaded[0];
+      var thoughts = loaded[1];
+      var queued = thoughts
+        .filter(function (thought) {
+          return thought.status === "queued";
+        })
+        .sort(function (a, b) {
+          return a.createdAt.localeCompare(b.createdAt);
+        });
+
+      return queued.reduce(function (previous, thought) {
+        return previous.then(function (ok) {
+          return ok && key ? send(key, thought) : false;
+        });
+      }, Promise.resolve(true));
+    })
+    .then(function (allSent) {
+      // A rejected sync is retried by the browser later.
+      if (!allSent) throw new Error("Some thoughts are still waiting");
+    })
+    .finally(function () {
+      flushing = null;
+    });
+
+  return flushing;
+}
+
+self.addEventListener("sync", function (event) {
+  if (event.tag === SYNC_TAG) event.waitUntil(flushThoughts());
+});
+
+self.addEventListener("message", function (event) {
+  var data = event.data || {};
+
+  if (data.type === "flush-thoughts") {
+    event.waitUntil(
+      flushThoughts().catch(function () {
+        // Still offline or rate limited; the next sync or message tries again.
+      })
+    );
+  } else if (data.type === "cache-urls" && Array.isArray(data.urls)) {
+    // Assets the first page load fetched before this worker was in control.
+    event.waitUntil(
+      caches.open(STATIC_CACHE).then(function (cache) {
+        return cache.addAll(
+          data.urls.filter(function (url) {
+            return new URL(url, self.location.origin).pathname.indexOf("/_next/static/") === 0;
+          })
+        );
+      })
+    );
+  }
+});
+
+self.addEventListener("notificationclick", function (event) {
+  event.notification.close();
+  var url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    windowClients().then(function (clients) {
+      var open = clients[0];
+      if (open) {
+        return open.focus().then(function (client) {
+          return client.navigate(url);
+        });
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,302 @@
+// Mindeazy reset widget, v1.
+//
+//   <div id="mindeazy"></div>
+//   <script src="https://<mindeazy-host>/widget/v1.js" data-key="mzk_pub_..."
+//     data-target="#mindeazy" data-locale="es" data-accent="#5D8A67" async></script>
+//
+// or, once loaded: Mindeazy.mount(element, { key, locale, mode, user, theme, accent,
+// background, text, radius, font }). Everything renders inside a shadow root, so
+// the host page's styles can't leak in or out.
+(function () {
+  "use strict";
+
+  var script = document.currentScript;
+  var defaultBase = script && script.src ? new URL(script.src).origin : "";
+
+  var THEMES = {
+    light: {
+      background: "#FAFCF8",
+      surface: "#FFFFFF",
+      text: "#1E2A38",
+      muted: "#5F6B76",
+      border: "#E5ECE4",
+      accent: "#5D8A67",
+      accentSoft: "#EEF4EE",
+    },
+    dark: {
+      background: "#1E2A38",
+      surface: "#263545",
+      text: "#F5F5F2",
+      muted: "#B7C2BB",
+      border: "#33445A",
+      accent: "#8DBA96",
+      accentSoft: "#2E4A3A",
+    },
+  };
+
+  var messageCache = {};
+
+  function loadMessages(base, locale) {
+    var cacheKey = base + "|" + (locale || "");
+    if (!messageCache[cacheKey]) {
+      var query = locale ? "?locale=" + encodeURIComponent(locale) : "";
+      messageCache[cacheKey] = fetch(base + "/api/v1/messages" + query).then(function (res) {
+        if (!res.ok) throw new Error("Mindeazy: could not load messages (" + res.status + ")");
+        return res.json();
+      });
+    }
+    return messageCache[cacheKey];
+  }
+
+  // A stable, anonymous id for the person on this site, so limits apply per person.
+  function widgetUser() {
+    var name = "mindeazy_widget_user";
+    try {
+      var existing = window.localStorage.getItem(name);
+      if (existing) return existing;
+      var id = crypto.randomUUID();
+      window.localStorage.setItem(name, id);
+      return id;
+    } catch {
+      // Storage can be blocked; the API then treats each reset as a new person.
+      return undefined;
+    }
+  }
+
+  function styles(options) {
+    var theme = THEMES[options.theme] || THEMES.light;
+    var vars = {
+      "--mz-background": options.background || theme.background,
+      "--mz-surface": theme.surface,
+      "--mz-text": options.text || theme.text,
+      "--mz-muted": theme.muted,
+      "--mz-border": theme.border,
+      "--mz-accent": options.accent || theme.accent,
+      "--mz-accent-soft": theme.accentSoft,
+      "--mz-radius": (options.radius != null ? Number(options.radius) : 24) + "px",
+      "--mz-font": options.font || "inherit",
+    };
+    var declarations = Object.keys(vars)
+      .map(function (name) {
+        return name + ":" + vars[name];
+      })
+      .join(";");
+
+    return (
+      ":host{all:initial;display:block;" + declarations + "}" +
+      ".mz{box-sizing:border-box;font-family:var(--mz-font);color:var(--mz-text);background:var(--mz-background);" +
+      "border:1px solid var(--mz-border);border-radius:var(--mz-radius);padding:24px;line-height:1.6}" +
+      ".mz *{box-sizing:border-box}" +
+      ".mz h2{margin:0 0 4px;font-size:20px}" +
+      ".mz p{margin:0 0 12px}" +
+      ".mz .muted{color:var(--mz-muted);font-size:14px}" +
+      ".mz textarea{width:100%;min-height:140px;margin:12px 0;padding:14px;font:inherit;color:var(--mz-text);" +
+      "background:var(--mz-surface);border:1px solid var(--mz-border);border-radius:calc(var(--mz-radius)*0.6);resize:vertical}" +
+      ".mz textarea:focus{outline:2px solid var(--mz-accent);outline-offset:1px}" +
+      ".mz button{font:inherit;font-weight:700;cursor:pointer;border:0;border-radius:calc(var(--mz-radius)*0.6);" +
+      "padding:12px 20px;color:#fff;background:var(--mz-accent)}" +
+      ".mz button[disabled]{opacity:.6;cursor:default}" +
+      ".mz .link{background:none;color:var(--mz-accent);padding:0;font-weight:600}" +
+      ".mz .pill{display:inline-block;margin-bottom:12px;padding:4px 14px;border-radius:999px;font-size:14px;" +
+      "background:var(--mz-accent-soft);color:var(--mz-accent)}" +
+      ".mz .card{margin:12px 0;padding:14px 18px;border:1px solid var(--mz-border);border-radius:calc(var(--mz-radius)*0.6);" +
+      "background:var(--mz-surface)}" +
+      ".mz .card a{color:var(--mz-text);margin-right:16px}" +
+      ".mz .error{color:#B42318;font-size:14px}" +
+      ".mz .urgent{padding:14px 18px;border-radius:calc(var(--mz-radius)*0.6);background:#FEF2F2;color:#991B1B}" +
+      ".mz .urgent a{color:inherit;font-weight:700}"
+    );
+  }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (name) {
+      if (name === "text") node.textContent = attrs[name];
+      else node.setAttribute(name, attrs[name]);
+    });
+    (children || []).forEach(function (child) {
+      if (child) node.appendChild(child);
+    });
+    return node;
+  }
+
+  function format(template, vars) {
+    return template.replace(/\{(\w+)\}/g, function (match, name) {
+      return name in vars ? String(vars[name]) : match;
+    });
+  }
+
+  function mount(target, options) {
+    var host = typeof target === "string" ? document.querySelector(target) : target;
+    if (!host) throw new Error("Mindeazy: mount target not found");
+    if (!options || !options.key) throw new Error("Mindeazy: an API key is required");
+    if (options.key.indexOf("mzk_sec_") === 0) {
+      throw new Error("Mindeazy: use a publishable key (mzk_pub_...); secret keys belong on a server");
+    }
+
+    var base = (options.apiBase || defaultBase).replace(/\/$/, "");
+    var root = host.shadowRoot || host.attachShadow({ mode: "open" });
+    var container = el("div", { class: "mz" });
+    root.replaceChildren(el("style", { text: styles(options) }), container);
+
+    function show(nodes) {
+      container.replaceChildren.apply(container, nodes);
+    }
+
+    loadMessages(base, options.locale).then(function (t) {
+      function renderForm(value, error) {
+        var textarea = el("textarea", { "aria-label": t.compose.label, lang: options.locale || t.locale });
+        textarea.value = value || "";
+        var submit = el("button", { type: "submit", text: t.compose.submit });
+        var errorLine = el("p", { class: "error", role: "alert", text: error || "" });
+        var form = el("form", {}, [
+          el("h2", { text: t.compose.label }),
+          el("p", { class: "muted", text: t.compose.hint }),
+          textarea,
+          errorLine,
+          submit,
+        ]);
+
+        form.addEventListener("submit", function (event) {
+          event.preventDefault();
+          var input = textarea.value.trim();
+          if (input.length < 3) {
+            errorLine.textContent = t.compose.emptyInput;
+            return;
+          }
+
+          submit.disabled = true;
+          submit.textContent = t.compose.submitting;
+          errorLine.textContent = "";
+
+          var headers = {
+            "Content-Type": "application/json",
+            Authorization: "Bearer " + options.key,
+          };
+          if (options.locale) headers["Accept-Language"] = options.locale;
+
+          fetch(base + "/api/v1/resets", {
+            method: "POST",
+            headers: headers,
+            body: JSON.stringify({ input: input, mode: options.mode, user: options.user || widgetUser() }),
+          })
+            .then(function (res) {
+              return res.json().then(function (data) {
+                if (!res.ok) throw new Error(data.error || t.compose.genericError);
+                return data;
+              });
+            })
+            .then(function (data) {
+              if (data.kind === "crisis") renderCrisis(data.resources);
+              else renderReset(data);
+            })
+            .catch(function (e) {
+              renderForm(input, e instanceof Error && e.message ? e.message : t.compose.genericError);
+            });
+        });
+
+        show([form]);
+        // Never take focus from the host page on first load.
+        if (error) textarea.focus();
+      }
+
+      function startOver() {
+        return el("button", { type: "button", class: "link", text: t.reset.startOver });
+      }
+
+      function renderReset(reset) {
+        var again = startOver();
+        again.addEventListener("click", function () {
+          renderForm("");
+        });
+
+        var nodes = [el("h2", { text: t.reset.title })];
+        if (reset.pattern && t.patterns[reset.pattern]) {
+          nodes.push(el("div", { class: "pill", text: t.reset.pattern + " " + t.patterns[reset.pattern] }));
+        }
+        reset.text.split("\n\n").forEach(function (paragraph) {
+          nodes.push(el("p", { lang: reset.language || "", text: paragraph }));
+        });
+        if (reset.nextAction) {
+          nodes.push(
+            el("div", { class: "card" }, [
+              el("strong", { text: t.reset.nextStep + " " }),
+              el("span", { lang: reset.language || "", text: reset.nextAction }),
+            ])
+          );
+        }
+        nodes.push(again);
+        show(nodes);
+      }
+
+      function renderCrisis(resources) {
+        var nodes = [el("p", { text: t.crisis.heavy }), el("p", { text: t.crisis.notAlone })];
+
+        resources.contacts.forEach(function (contact) {
+          var links = [];
+          if (contact.phone) {
+            links.push(el("a", { href: "tel:" + contact.phone.replace(/\s/g, ""), text: contact.phone }));
+          }
+          if (contact.sms) {
+            links.push(
+              el("a", {
+                href: "sms:" + contact.sms.replace(/\s/g, ""),
+                text: format(t.crisis.text, { number: contact.sms }),
+              })
+            );
+          }
+          if (contact.url) {
+            links.push(
+              el("a", { href: contact.url, target: "_blank", rel: "noopener noreferrer", text: t.crisis.website })
+            );
+          }
+          nodes.push(
+            el("div", { class: "card" }, [
+              el("strong", { text: contact.name }),
+              el("p", { class: "muted", text: contact.description }),
+              el("div", {}, links),
+            ])
+          );
+        });
+
+        var parts = t.crisis.emergency.split("{number}");
+        nodes.push(
+          el("p", { class: "urgent" }, [
+            document.createTextNode(parts[0]),
+            el("a", { href: "tel:" + resources.emergencyNumber, text: resources.emergencyNumber }),
+            document.createTextNode(parts[1] || ""),
+          ])
+        );
+        show(nodes);
+      }
+
+      renderForm("");
+    }).catch(function (e) {
+      show([el("p", { class: "error", text: e.message })]);
+    });
+  }
+
+  window.Mindeazy = { mount: mount };
+
+  if (script && script.dataset.key) {
+    var data = script.dataset;
+    var target = data.target ? document.querySelector(data.target) : null;
+    if (!target) {
+      target = document.createElement("div");
+      script.parentNode.insertBefore(target, script.nextSibling);
+    }
+    mount(target, {
+      key: data.key,
+      apiBase: data.apiBase,
+      locale: data.locale,
+      mode: data.mode,
+      user: data.user,
+      theme: data.theme,
+      accent: data.accent,
+      background: data.background,
+      text: data.text,
+      radius: data.radius,
+      font: data.font,
+    });
+  }
+})();
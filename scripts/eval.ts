@@ -0,0 +1,160 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { loadEnvConfig } from "@next/env";
+import { getConfig } from "@/lib/config";
+import {
+  createFixtureStore,
+  findRegressions,
+  FIXTURE_MODES,
+  GOLDEN_INPUTS,
+  reportMarkdown,
+  runVariant,
+  type EvalModel,
+  type EvalVariant,
+  type FixtureMode,
+  type VariantRun,
+} from "@/lib/eval";
+import { createProvider, getProviderSettings, type ProviderName } from "@/lib/llm";
+import { DEFAULT_PROMPT_VERSION, getPromptVersion, listPromptVersions } from "@/lib/prompts";
+
+const USAGE = `
+Usage: npm run eval -- [options]
+
+  --base <variant>        prompt@provider[:model], default ${DEFAULT_PROMPT_VERSION}@<LLM_PROVIDER>
+                          (${DEFAULT_PROMPT_VERSION}@mock with --fixtures replay)
+  --candidate <variant>   second variant to compare against the base
+  --judge <provider[:model]>  score outputs with an LLM-as-judge rubric
+  --fixtures <mode>       live (default), record or replay
+  --fixtures-dir <dir>    recorded responses (default eval/fixtures)
+  --only <ids>            comma-separated golden ids or cases, e.g. fear,regret-offer
+  --out <dir>             where reports are written (default eval/reports)
+`.trim();
+
+const PROVIDERS: ProviderName[] = ["openai", "gemini", "mock"];
+
+loadEnvConfig(process.cwd());
+// The harness never writes events, rate limits or mail, so the rest of the
+// app's production settings aren't required; provider keys still apply.
+process.env.APP_MODE = "local";
+
+function parseModel(spec: string, fixtures: FixtureMode): EvalModel {
+  const [name, ...rest] = spec.split(":");
+  if (!PROVIDERS.includes(name as ProviderName)) {
+    throw new Error(`Unknown provider "${name}"; use one of ${PROVIDERS.join(", ")}`);
+  }
+
+  const provider = name as ProviderName;
+  const model = rest.join(":") || getProviderSettings(provider).model;
+  const client = fixtures === "replay" ? null : createProvider(provider, { model });
+
+  return { target: { provider, model }, client };
+}
+
+function parseVariant(label: string, spec: string, fixtures: FixtureMode): EvalVariant {
+  const [promptId, modelSpec] = spec.includes("@") ? spec.split("@") : [spec, ""];
+  const prompt = getPromptVersion(promptId);
+  if (!prompt) {
+    const known = listPromptVersions().map((version) => version.id);
+    throw new Error(`Unknown prompt "${promptId}"; use one of ${known.join(", ")}`);
+  }
+
+  return {
+    label,
+    prompt,
+    model: parseModel(modelSpec || getConfig().llm.primary, fixtures),
+  };
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      base: { type: "string" },
+      candidate: { type: "string" },
+      judge: { type: "string" },
+      fixtures: { type: "string", default: "live" },
+      "fixtures-dir": { type: "string", default: "eval/fixtures" },
+      only: { type: "string" },
+      out: { type: "string", default: "eval/reports" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const mode = values.fixtures as FixtureMode;
+  if (!FIXTURE_MODES.includes(mode)) {
+    throw new Error(`--fixtures must be one of ${FIXTURE_MODES.join(", ")}`);
+  }
+
+  const only = values.only?.split(",").map((value) => value.trim());
+  const goldens = only
+    ? GOLDEN_INPUTS.filter((golden) => only.includes(golden.id) || only.includes(golden.case))
+    : GOLDEN_INPUTS;
+  if (goldens.length === 0) throw new Error(`No golden inputs match --only ${values.only}`);
+
+  const fixtures = createFixtureStore(values["fixtures-dir"], mode);
+  const judge = values.judge ? parseModel(values.judge, mode) : undefined;
+  // Only the mock's responses are committed, so a bare replay (what CI runs) uses them.
+  const defaultBase = mode === "replay" ? `${DEFAULT_PROMPT_VERSION}@mock` : DEFAULT_PROMPT_VERSION;
+  const variants = [
+    parseVariant("base", values.base ?? defaultBase, mode),
+    values.candidate ? parseVariant("candidate", values.candidate, mode) : null,
+  ];
+
+  const runs: VariantRun[] = [];
+  for (const variant of variants) {
+    if (!variant) continue;
+    const { provider, model } = variant.model.target;
+    console.log(`Running ${variant.label}: ${variant.prompt.id}@${provider}:${model}`);
+
+    runs.push(
+      await runVariant(variant, goldens, {
+        fixtures,
+        judge,
+        onCase: (result) =>
+          console.log(
+            `  ${result.id}: ${
+              result.final
+                ? `${result.firstPass?.passed ? "pass" : "fail"} ${result.firstPass?.score}`
+                : `error (${result.error})`
+            }`
+          ),
+      })
+    );
+  }
+
+  await fixtures.save();
+
+  const [base, candidate = null] = runs;
+  const report = {
+    createdAt: new Date().toISOString(),
+    base,
+    candidate,
+    regressions: candidate ? findRegressions(base, candidate) : [],
+  };
+
+  const stamp = report.createdAt.replace(/[:.]/g, "-");
+  await mkdir(values.out, { recursive: true });
+  const file = path.join(values.out, `${stamp}.md`);
+  await writeFile(file, reportMarkdown(report));
+  await writeFile(path.join(values.out, `${stamp}.json`), `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`Report written to ${file}`);
+
+  const errors = runs.reduce(
+    (sum, run) => sum + run.results.filter((result) => result.error).length,
+    0
+  );
+  for (const regression of report.regressions) console.log(`Regression: ${regression}`);
+  if (errors > 0) console.log(`${errors} case(s) failed to run`);
+
+  if (errors > 0 || report.regressions.length > 0) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,111 @@
+import { parseArgs } from "node:util";
+import { loadEnvConfig } from "@next/env";
+import { isLocalMode } from "@/lib/mode";
+import {
+  generatePartnerKey,
+  getPartnerStore,
+  LOCAL_PARTNER_KEYS,
+  normalizeOrigin,
+  type PartnerKeyKind,
+} from "@/lib/partners";
+
+const USAGE = `
+Usage: npm run partner-key -- <command> [options]
+
+  create --name <name> [--kind publishable|secret] [--origin <origin>...] [--daily-quota <n>]
+                          issue a key; it is printed once and only its hash is kept.
+                          Publishable keys (the default) go in the widget and need at
+                          least one --origin; secret keys are for partners' servers
+  list                    show keys with their prefix, origins, quota and status
+  revoke --id <id>        stop a key from working
+`.trim();
+
+const DEFAULT_DAILY_QUOTA = 1000;
+
+const KEY_KINDS: PartnerKeyKind[] = ["publishable", "secret"];
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      kind: { type: "string", default: "publishable" },
+      origin: { type: "string", multiple: true, default: [] },
+      "daily-quota": { type: "string", default: String(DEFAULT_DAILY_QUOTA) },
+      id: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (isLocalMode()) {
+    throw new Error(
+      `Partner keys live in Supabase. In local mode, use ${LOCAL_PARTNER_KEYS.publishable} from any origin or ${LOCAL_PARTNER_KEYS.secret} from a server.`
+    );
+  }
+
+  const store = getPartnerStore();
+
+  if (command === "create") {
+    if (!values.name) throw new Error("--name is required");
+    const kind = values.kind as PartnerKeyKind;
+    if (!KEY_KINDS.includes(kind)) throw new Error(`--kind must be one of ${KEY_KINDS.join(", ")}`);
+    if (kind === "publishable" && values.origin.length === 0) {
+      throw new Error('Publishable keys need at least one --origin (use "*" to allow any)');
+    }
+    if (kind === "secret" && values.origin.length > 0) {
+      throw new Error("Secret keys are refused from browsers, so they take no --origin");
+    }
+    const dailyQuota = Number(values["daily-quota"]);
+    if (!Number.isInteger(dailyQuota) || dailyQuota < 1) {
+      throw new Error("--daily-quota must be a positive whole number");
+    }
+
+    const { key, keyPrefix, keyHash } = generatePartnerKey(kind);
+    const created = await store.create({
+      name: values.name,
+      keyKind: kind,
+      allowedOrigins: values.origin.map(normalizeOrigin),
+      dailyQuota,
+      keyPrefix,
+      keyHash,
+    });
+
+    console.log(`Created ${created.keyKind} key ${created.id} for ${created.name}`);
+    if (kind === "publishable") console.log(`Origins: ${created.allowedOrigins.join(", ")}`);
+    console.log(`Daily quota: ${created.dailyQuota}`);
+    console.log(`\n  ${key}\n\nThis is the only time the key is shown.`);
+    return;
+  }
+
+  if (command === "list") {
+    for (const key of await store.list()) {
+      const status = key.revokedAt ? `revoked ${key.revokedAt}` : "active";
+      console.log(
+        `${key.id}  ${key.keyPrefix}…  ${key.keyKind}  ${key.name}  [${key.allowedOrigins.join(", ")}]  ${key.dailyQuota}/day  ${status}`
+      );
+    }
+    return;
+  }
+
+  if (command === "revoke") {
+    if (!values.id) throw new Error("--id is required");
+    if (!(await store.revoke(values.id))) throw new Error(`No active key with id ${values.id}`);
+    console.log(`Revoked ${values.id}`);
+    return;
+  }
+
+  throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
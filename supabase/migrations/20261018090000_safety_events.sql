@@ -0,0 +1,17 @@
+create table if not exists public.safety_events (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  decision text not null check (decision in ('crisis', 'pass')),
+  source text not null,
+  categories text[] not null default '{}',
+  matched_rules text[] not null default '{}',
+  moderation text not null,
+  moderation_categories text[] not null default '{}',
+  region text not null,
+  input_length integer not null
+);
+
+create index if not exists safety_events_created_at_idx
+  on public.safety_events (created_at desc);
+
+alter table public.safety_events enable row level security;
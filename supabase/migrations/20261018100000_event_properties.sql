@@ -0,0 +1,11 @@
+create table if not exists public.events (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  event_name text not null
+);
+
+alter table public.events
+  add column if not exists properties jsonb not null default '{}'::jsonb;
+
+create index if not exists events_name_created_at_idx
+  on public.events (event_name, created_at desc);
@@ -0,0 +1,6 @@
+alter table public.events
+  add column if not exists visitor_id uuid,
+  add column if not exists prompt_version text;
+
+create index if not exists events_prompt_version_idx
+  on public.events (prompt_version, event_name, created_at desc);
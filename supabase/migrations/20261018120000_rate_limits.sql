@@ -0,0 +1,24 @@
+create table if not exists public.rate_limits (
+  key text primary key,
+  count integer not null,
+  reset_at timestamptz not null
+);
+
+alter table public.rate_limits enable row level security;
+
+create or replace function public.rate_limit_hit(p_key text, p_window_ms integer)
+returns table (hits integer, resets_at timestamptz)
+language sql
+as $$
+  insert into public.rate_limits as r (key, count, reset_at)
+  values (p_key, 1, now() + make_interval(secs => p_window_ms / 1000.0))
+  on conflict (key) do update
+    set count = case when r.reset_at <= now() then 1 else r.count + 1 end,
+        reset_at = case
+          when r.reset_at <= now() then now() + make_interval(secs => p_window_ms / 1000.0)
+          else r.reset_at
+        end
+  returning r.count, r.reset_at;
+$$;
+
+create index if not exists rate_limits_reset_at_idx on public.rate_limits (reset_at);
@@ -0,0 +1,6 @@
+alter table public.events
+  add column if not exists session_id uuid,
+  add column if not exists page text,
+  add column if not exists client_ts timestamptz;
+
+create index if not exists events_session_id_idx on public.events (session_id);
@@ -0,0 +1,13 @@
+create table if not exists public.subscribers (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique check (email = lower(email)),
+  status text not null default 'pending'
+    check (status in ('pending', 'confirmed', 'unsubscribed')),
+  confirm_token_hash text unique,
+  confirm_expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  confirmed_at timestamptz,
+  unsubscribed_at timestamptz
+);
+
+alter table public.subscribers enable row level security;
@@ -0,0 +1,20 @@
+-- Journal sync only ever stores ciphertext. sync_key is a sha256 of the
+-- client's sync code, and entries are AES-GCM sealed in the browser.
+create table if not exists public.journal_vaults (
+  sync_key text primary key,
+  salt text not null,
+  verifier jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.journal_entries (
+  sync_key text not null references public.journal_vaults (sync_key) on delete cascade,
+  entry_id text not null,
+  iv text not null,
+  data text not null,
+  updated_at timestamptz not null,
+  primary key (sync_key, entry_id)
+);
+
+alter table public.journal_vaults enable row level security;
+alter table public.journal_entries enable row level security;
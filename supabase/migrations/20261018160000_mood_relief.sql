@@ -0,0 +1,37 @@
+-- Relief is how many points the intensity dropped between the check-in
+-- before a reset and the one after reading it. Positive means it helped.
+create or replace view public.mood_check_ins
+with (security_invoker = true) as
+select
+  id,
+  created_at,
+  visitor_id,
+  prompt_version,
+  properties->>'pattern' as pattern,
+  (properties->>'before')::int as before,
+  (properties->>'after')::int as after,
+  (properties->>'before')::int - (properties->>'after')::int as relief
+from public.events
+where event_name = 'mood_check_in';
+
+create or replace view public.mood_relief_by_pattern
+with (security_invoker = true) as
+select
+  coalesce(pattern, 'unknown') as pattern,
+  count(*) as check_ins,
+  round(avg(relief), 2) as average_relief,
+  round(avg(before), 2) as average_before,
+  round(avg(after), 2) as average_after
+from public.mood_check_ins
+group by 1;
+
+create or replace view public.mood_relief_by_prompt
+with (security_invoker = true) as
+select
+  coalesce(prompt_version, 'unknown') as prompt_version,
+  count(*) as check_ins,
+  round(avg(relief), 2) as average_relief,
+  round(avg(before), 2) as average_before,
+  round(avg(after), 2) as average_after
+from public.mood_check_ins
+group by 1;
@@ -0,0 +1,32 @@
+-- Every generated reset gets a server-issued id that feedback refers to.
+-- Inputs are redacted before they are stored.
+create table if not exists public.resets (
+  id uuid primary key,
+  created_at timestamptz not null default now(),
+  visitor_id uuid not null,
+  prompt_version text not null,
+  provider text,
+  model text,
+  pattern text,
+  turn integer not null default 0,
+  input_redacted text not null,
+  output text not null
+);
+
+create index if not exists resets_created_at_idx on public.resets (created_at desc);
+create index if not exists resets_visitor_id_idx on public.resets (visitor_id);
+
+create table if not exists public.reset_feedback (
+  reset_id uuid primary key references public.resets (id) on delete cascade,
+  visitor_id uuid not null,
+  rating text not null check (rating in ('helpful', 'not_helpful')),
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists reset_feedback_rating_idx
+  on public.reset_feedback (rating, updated_at desc);
+
+alter table public.resets enable row level security;
+alter table public.reset_feedback enable row level security;
@@ -0,0 +1,34 @@
+-- Aggregations behind /admin. Only the service role may call them.
+create or replace function public.admin_daily_events(p_from timestamptz, p_to timestamptz)
+returns table (day date, event_name text, prompt_version text, events bigint, visitors bigint)
+language sql
+stable
+as $$
+  select
+    (created_at at time zone 'utc')::date as day,
+    event_name,
+    prompt_version,
+    count(*) as events,
+    count(distinct visitor_id) as visitors
+  from public.events
+  where created_at >= p_from and created_at < p_to
+  group by 1, 2, 3;
+$$;
+
+create or replace function public.admin_event_visitors(p_from timestamptz, p_to timestamptz)
+returns table (event_name text, prompt_version text, all_versions boolean, visitors bigint)
+language sql
+stable
+as $$
+  select
+    event_name,
+    prompt_version,
+    grouping(prompt_version) = 1 as all_versions,
+    count(distinct visitor_id) as visitors
+  from public.events
+  where created_at >= p_from and created_at < p_to and visitor_id is not null
+  group by grouping sets ((event_name, prompt_version), (event_name));
+$$;
+
+revoke execute on function public.admin_daily_events(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.admin_event_visitors(timestamptz, timestamptz) from public, anon, authenticated;
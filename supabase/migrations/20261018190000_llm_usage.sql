@@ -0,0 +1,59 @@
+-- One row per model call, with the estimated cost from lib/usage/prices.ts.
+create table if not exists public.llm_usage (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  request_id text,
+  reset_id uuid,
+  visitor_id uuid,
+  provider text not null,
+  model text not null,
+  mode text,
+  purpose text not null check (purpose in ('reset', 'quality_retry')),
+  budget_model boolean not null default false,
+  input_tokens integer,
+  output_tokens integer,
+  latency_ms integer not null,
+  cost_usd numeric(12, 6)
+);
+
+create index if not exists llm_usage_created_at_idx on public.llm_usage (created_at desc);
+
+alter table public.llm_usage enable row level security;
+
+-- Spend since a point in time, for the daily and monthly budget caps.
+create or replace function public.llm_spend_since(p_since timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(cost_usd), 0) from public.llm_usage where created_at >= p_since;
+$$;
+
+create or replace function public.admin_daily_spend(p_from timestamptz, p_to timestamptz)
+returns table (
+  day date,
+  provider text,
+  model text,
+  requests bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  cost_usd numeric
+)
+language sql
+stable
+as $$
+  select
+    (created_at at time zone 'utc')::date as day,
+    provider,
+    model,
+    count(*) as requests,
+    coalesce(sum(input_tokens), 0) as input_tokens,
+    coalesce(sum(output_tokens), 0) as output_tokens,
+    coalesce(sum(cost_usd), 0) as cost_usd
+  from public.llm_usage
+  where created_at >= p_from and created_at < p_to
+  group by 1, 2, 3;
+$$;
+
+revoke execute on function public.llm_spend_since(timestamptz) from public, anon, authenticated;
+revoke execute on function public.admin_daily_spend(timestamptz, timestamptz) from public, anon, authenticated;
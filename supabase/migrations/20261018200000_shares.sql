@@ -0,0 +1,30 @@
+-- Shared resets. Only the model's reset is stored (with personal details
+-- already neutralised), never the input. The delete token is kept as a hash.
+create table if not exists public.shares (
+  id text primary key,
+  reset_id uuid not null references public.resets (id) on delete cascade,
+  visitor_id uuid not null,
+  text text not null,
+  pattern text,
+  locale text not null,
+  delete_token_hash text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists shares_expires_at_idx on public.shares (expires_at);
+
+alter table public.shares enable row level security;
+
+-- Expired shares are already hidden by the app; run this on a schedule to drop them.
+create or replace function public.delete_expired_shares()
+returns bigint
+language sql
+as $$
+  with deleted as (
+    delete from public.shares where expires_at <= now() returning 1
+  )
+  select count(*) from deleted;
+$$;
+
+revoke execute on function public.delete_expired_shares() from public, anon, authenticated;
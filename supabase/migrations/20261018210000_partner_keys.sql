@@ -0,0 +1,14 @@
+-- API keys for partners using the public API and embeddable widget. Only a
+-- hash of each key is stored; the prefix helps recognise a key in a list.
+create table if not exists public.partner_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  allowed_origins text[] not null default '{}',
+  daily_quota integer not null check (daily_quota > 0),
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+alter table public.partner_keys enable row level security;
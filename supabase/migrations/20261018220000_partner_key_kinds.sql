@@ -0,0 +1,6 @@
+-- Publishable keys sit in partners' pages and only work from an allowed Origin;
+-- secret keys are for partners' servers and are refused from a browser. Keys
+-- issued before the split were handed out for the widget, so they stay publishable.
+alter table public.partner_keys
+  add column if not exists kind text not null default 'publishable'
+    check (kind in ('publishable', 'secret'));
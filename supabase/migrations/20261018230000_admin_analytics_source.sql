@@ -0,0 +1,43 @@
+-- Partner API calls log their events with properties.source = 'api'. Split the
+-- admin aggregations by source so the app's funnel and error rate leave them out.
+drop function if exists public.admin_daily_events(timestamptz, timestamptz);
+drop function if exists public.admin_event_visitors(timestamptz, timestamptz);
+
+create function public.admin_daily_events(p_from timestamptz, p_to timestamptz)
+returns table (day date, source text, event_name text, prompt_version text, events bigint, visitors bigint)
+language sql
+stable
+as $$
+  select
+    (created_at at time zone 'utc')::date as day,
+    coalesce(properties->>'source', 'app') as source,
+    event_name,
+    prompt_version,
+    count(*) as events,
+    count(distinct visitor_id) as visitors
+  from public.events
+  where created_at >= p_from and created_at < p_to
+  group by 1, 2, 3, 4;
+$$;
+
+create function public.admin_event_visitors(p_from timestamptz, p_to timestamptz)
+returns table (source text, event_name text, prompt_version text, all_versions boolean, visitors bigint)
+language sql
+stable
+as $$
+  select
+    coalesce(properties->>'source', 'app') as source,
+    event_name,
+    prompt_version,
+    grouping(prompt_version) = 1 as all_versions,
+    count(distinct visitor_id) as visitors
+  from public.events
+  where created_at >= p_from and created_at < p_to and visitor_id is not null
+  group by grouping sets (
+    (coalesce(properties->>'source', 'app'), event_name, prompt_version),
+    (coalesce(properties->>'source', 'app'), event_name)
+  );
+$$;
+
+revoke execute on function public.admin_daily_events(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.admin_event_visitors(timestamptz, timestamptz) from public, anon, authenticated;
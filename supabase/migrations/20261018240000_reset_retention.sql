@@ -0,0 +1,37 @@
+-- Stored resets are only there so feedback and shares can refer to them.
+-- Unrated resets go after a week and resets rated not helpful after 90 days,
+-- the time they're kept for review. A share that still works keeps its reset,
+-- since deleting the reset would take the share with it.
+create or replace function public.delete_expired_resets()
+returns bigint
+language sql
+as $$
+  with deleted as (
+    delete from public.resets r
+    where r.created_at <= now() - interval '7 days'
+      and (
+        r.created_at <= now() - interval '90 days'
+        or not exists (
+          select 1 from public.reset_feedback f
+          where f.reset_id = r.id and f.rating = 'not_helpful'
+        )
+      )
+      and not exists (
+        select 1 from public.shares s
+        where s.reset_id = r.id and s.expires_at > now()
+      )
+    returning 1
+  )
+  select count(*) from deleted;
+$$;
+
+revoke execute on function public.delete_expired_resets() from public, anon, authenticated;
+grant execute on function public.delete_expired_resets() to service_role;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'delete-expired-resets',
+  '17 3 * * *',
+  $$select public.delete_expired_resets()$$
+);
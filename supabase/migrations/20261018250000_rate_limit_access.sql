@@ -0,0 +1,27 @@
+-- Only the server may count hits: with the anon key anyone could reset or
+-- inflate someone else's counters.
+revoke execute on function public.rate_limit_hit(text, integer) from public, anon, authenticated;
+grant execute on function public.rate_limit_hit(text, integer) to service_role;
+
+-- A window that has run out is restarted on the next hit, so dropping it
+-- changes nothing except the size of the table.
+create or replace function public.delete_expired_rate_limits()
+returns bigint
+language sql
+as $$
+  with deleted as (
+    delete from public.rate_limits where reset_at <= now() returning 1
+  )
+  select count(*) from deleted;
+$$;
+
+revoke execute on function public.delete_expired_rate_limits() from public, anon, authenticated;
+grant execute on function public.delete_expired_rate_limits() to service_role;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'delete-expired-rate-limits',
+  '*/15 * * * *',
+  $$select public.delete_expired_rate_limits()$$
+);